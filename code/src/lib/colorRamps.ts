@@ -0,0 +1,168 @@
+/**
+ * Color Ramps - Shared color scales for terrain shading and the map legend
+ */
+
+import * as THREE from 'three';
+
+export interface ColorStop {
+    t: number; // Position along the ramp, 0..1
+    color: [number, number, number]; // Linear RGB, 0..1
+}
+
+export interface ColorRamp {
+    name: string;
+    stops: ColorStop[];
+    cyclic?: boolean; // Wraps around (e.g. compass directions)
+}
+
+/**
+ * What a legend shows: the ramp plus the value range it spans
+ */
+export interface ColorLegend {
+    title: string;
+    units: string;
+    min: number;
+    max: number;
+    ramp: ColorRamp;
+}
+
+// Texels in a ramp texture; interpolation in the shader smooths between them
+const RAMP_RESOLUTION = 256;
+
+export class ColorRamps {
+    static readonly mars: ColorRamp = {
+        name: 'Mars',
+        stops: [
+            { t: 0.0, color: [0.4, 0.2, 0.1] },
+            { t: 0.3, color: [0.6, 0.3, 0.2] },
+            { t: 0.5, color: [0.8, 0.4, 0.2] },
+            { t: 0.7, color: [0.9, 0.5, 0.3] },
+            { t: 1.0, color: [1.0, 0.7, 0.4] }
+        ]
+    };
+
+    static readonly earth: ColorRamp = {
+        name: 'Earth',
+        stops: [
+            { t: 0.0, color: [0.1, 0.25, 0.6] },
+            { t: 0.18, color: [0.2, 0.4, 0.8] },
+            { t: 0.24, color: [0.8, 0.7, 0.4] },
+            { t: 0.4, color: [0.3, 0.7, 0.3] },
+            { t: 0.65, color: [0.5, 0.5, 0.5] },
+            { t: 0.85, color: [0.9, 0.9, 0.9] },
+            { t: 1.0, color: [1.0, 1.0, 1.0] }
+        ]
+    };
+
+    static readonly height: ColorRamp = {
+        name: 'Height',
+        stops: [
+            { t: 0.0, color: [0.0, 0.0, 0.0] },
+            { t: 1.0, color: [1.0, 1.0, 1.0] }
+        ]
+    };
+
+    static readonly slope: ColorRamp = {
+        name: 'Slope',
+        stops: [
+            { t: 0.0, color: [0.2, 0.8, 0.2] },
+            { t: 0.5, color: [0.8, 0.8, 0.2] },
+            { t: 1.0, color: [0.8, 0.2, 0.2] }
+        ]
+    };
+
+    static readonly aspect: ColorRamp = {
+        name: 'Aspect',
+        cyclic: true,
+        stops: [
+            { t: 0.0, color: [0.85, 0.15, 0.15] }, // N
+            { t: 0.25, color: [0.9, 0.8, 0.15] }, // E
+            { t: 0.5, color: [0.15, 0.75, 0.75] }, // S
+            { t: 0.75, color: [0.25, 0.3, 0.9] }, // W
+            { t: 1.0, color: [0.85, 0.15, 0.15] }
+        ]
+    };
+
+    static readonly roughness: ColorRamp = {
+        name: 'Roughness',
+        stops: [
+            { t: 0.0, color: [0.05, 0.03, 0.2] },
+            { t: 0.35, color: [0.35, 0.1, 0.45] },
+            { t: 0.7, color: [0.85, 0.35, 0.15] },
+            { t: 1.0, color: [1.0, 0.9, 0.3] }
+        ]
+    };
+
+    // Benign → at the rover's limit, with the last texels marking blocked cells
+    static readonly hazard: ColorRamp = {
+        name: 'Hazard',
+        stops: [
+            { t: 0.0, color: [0.15, 0.7, 0.25] },
+            { t: 0.5, color: [0.9, 0.8, 0.2] },
+            { t: 0.96, color: [0.85, 0.15, 0.1] },
+            { t: 0.985, color: [0.2, 0.02, 0.25] },
+            { t: 1.0, color: [0.2, 0.02, 0.25] }
+        ]
+    };
+
+    // Negative → neutral → positive, for signed quantities such as curvature
+    static readonly diverging: ColorRamp = {
+        name: 'Diverging',
+        stops: [
+            { t: 0.0, color: [0.1, 0.25, 0.75] },
+            { t: 0.5, color: [0.85, 0.85, 0.85] },
+            { t: 1.0, color: [0.75, 0.15, 0.1] }
+        ]
+    };
+
+    /**
+     * Color at position t (clamped, or wrapped for cyclic ramps)
+     */
+    static sample(ramp: ColorRamp, t: number, target = new THREE.Color()): THREE.Color {
+        const position = ramp.cyclic ? t - Math.floor(t) : Math.max(0, Math.min(1, t));
+        const { stops } = ramp;
+        let i = 1;
+        while (i < stops.length - 1 && stops[i].t < position) i++;
+        const a = stops[i - 1];
+        const b = stops[i];
+        const u = b.t > a.t ? Math.max(0, Math.min(1, (position - a.t) / (b.t - a.t))) : 0;
+        return target.setRGB(
+            a.color[0] + (b.color[0] - a.color[0]) * u,
+            a.color[1] + (b.color[1] - a.color[1]) * u,
+            a.color[2] + (b.color[2] - a.color[2]) * u
+        );
+    }
+
+    /**
+     * 1-pixel-high texture of the ramp for lookups in a shader
+     */
+    static createTexture(ramp: ColorRamp): THREE.DataTexture {
+        const pixels = new Uint8Array(RAMP_RESOLUTION * 4);
+        const color = new THREE.Color();
+        for (let i = 0; i < RAMP_RESOLUTION; i++) {
+            this.sample(ramp, i / (RAMP_RESOLUTION - 1), color);
+            pixels[i * 4] = Math.round(color.r * 255);
+            pixels[i * 4 + 1] = Math.round(color.g * 255);
+            pixels[i * 4 + 2] = Math.round(color.b * 255);
+            pixels[i * 4 + 3] = 255;
+        }
+
+        const texture = new THREE.DataTexture(pixels, RAMP_RESOLUTION, 1, THREE.RGBAFormat);
+        texture.magFilter = THREE.LinearFilter;
+        texture.minFilter = THREE.LinearFilter;
+        texture.needsUpdate = true;
+        return texture;
+    }
+
+    /**
+     * CSS linear-gradient matching the ramp texture, for legends
+     */
+    static toCssGradient(ramp: ColorRamp): string {
+        const color = new THREE.Color();
+        const stops = ramp.stops.map((stop) => {
+            color.setRGB(stop.color[0], stop.color[1], stop.color[2]);
+            return `${color.getStyle()} ${(stop.t * 100).toFixed(1)}%`;
+        });
+        return `linear-gradient(to right, ${stops.join(', ')})`;
+    }
+}
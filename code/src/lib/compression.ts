@@ -0,0 +1,16 @@
+/**
+ * Compression - Thin wrappers around the browser's native stream decompressors
+ */
+
+/**
+ * Inflate a zlib-wrapped deflate stream (as used by PNG IDAT and TIFF deflate)
+ */
+export async function inflateZlib(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('This browser does not support DecompressionStream; cannot inflate compressed data.');
+    }
+
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    const buffer = await new Response(stream).arrayBuffer();
+    return new Uint8Array(buffer);
+}
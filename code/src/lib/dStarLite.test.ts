@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DStarLite } from './dStarLite.js';
+import { PathfindingEngine, Point } from './pathfinding.js';
+import { HeightData } from './terrainLoader.js';
+
+/**
+ * Gently rolling ground, 1 m cells, every move within slope limits
+ */
+function rollingTerrain(width: number, height: number): HeightData {
+    const data = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) data[y * width + x] = Math.sin(x / 3) * 0.3 + Math.cos(y / 4) * 0.3;
+    }
+    return { width, height, data, minHeight: -0.6, maxHeight: 0.6, cellSize: 1, verticalUnits: 1 };
+}
+
+const visits = (path: Point[], cell: Point) => path.some((point) => point.x === cell.x && point.y === cell.y);
+
+describe('DStarLite', () => {
+    it('repairs its route around rocks found on it to the cost of a fresh A* search', () => {
+        const heightData = rollingTerrain(24, 24);
+        const engine = new PathfindingEngine(heightData, { algorithm: 'astar' });
+        const goal = { x: 21, y: 18 };
+        const replanner = new DStarLite(engine, { x: 2, y: 3 }, goal);
+        const first = replanner.replan();
+        expect(first.cost).toBeCloseTo(engine.findPath({ x: 2, y: 3 }, goal).cost, 4);
+
+        // Drive a few cells, then find rocks on the route ahead
+        const rover = first.path[4];
+        const rocks = first.path.slice(8, 12);
+        replanner.moveTo(rover);
+        replanner.updateCells(engine.addObstacles(rocks));
+        const repaired = replanner.replan();
+
+        expect(repaired.path[0]).toEqual(rover);
+        expect(repaired.path[repaired.path.length - 1]).toEqual(goal);
+        expect(rocks.some((rock) => visits(repaired.path, rock))).toBe(false);
+        const fresh = new PathfindingEngine(heightData, { algorithm: 'astar' }).findPath(rover, goal);
+        expect(fresh.success).toBe(true);
+        expect(repaired.cost).toBeCloseTo(fresh.cost, 4);
+        expect(repaired.nodesExpanded).toBeLessThan(first.nodesExpanded);
+    });
+
+    it('follows a terrain patch applied to its engine', () => {
+        const heightData = rollingTerrain(24, 24);
+        const engine = new PathfindingEngine(heightData, { algorithm: 'astar' });
+        const goal = { x: 20, y: 12 };
+        const replanner = new DStarLite(engine, { x: 3, y: 12 }, goal);
+        replanner.replan();
+
+        // A wall too steep to climb across the middle, open only at the bottom
+        const region = { x: 10, y: 0, width: 2, height: 24 };
+        const walled = { ...heightData, data: heightData.data.slice() };
+        const heights = new Float32Array(region.width * region.height);
+        for (let y = 0; y < region.height; y++) {
+            for (let x = 0; x < region.width; x++) {
+                const index = (region.y + y) * heightData.width + region.x + x;
+                if (y < 20) walled.data[index] += 5;
+                heights[y * region.width + x] = walled.data[index];
+            }
+        }
+        const refreshed = engine.applyTerrainPatch({ region, heights, obstacleMask: null, hazard: null, obstacles: null });
+        replanner.updateRegion(refreshed);
+        const repaired = replanner.replan();
+
+        expect(repaired.path[repaired.path.length - 1]).toEqual(goal);
+        expect(repaired.path.every((cell) => cell.x < region.x || cell.x >= region.x + region.width || cell.y >= 20)).toBe(true);
+        const fresh = new PathfindingEngine(walled, { algorithm: 'astar' }).findPath({ x: 3, y: 12 }, goal);
+        expect(repaired.cost).toBeCloseTo(fresh.cost, 4);
+    });
+});
@@ -0,0 +1,238 @@
+/**
+ * D* Lite - Incremental replanning (Koenig & Likhachev, 2002). The search runs
+ * backwards from the goal, so the cost-to-goal of every settled cell stays valid
+ * as the rover drives; when sensing changes some cells, only the costs that
+ * depend on them are repaired. Moves, costs and the heuristic come from a
+ * PathfindingEngine, over its grid (no any-angle shortcuts).
+ */
+
+import { PathfindingEngine, Point, ReplanResult } from './pathfinding.js';
+import { CellRegion } from './terrainLoader.js';
+import { IndexedMinHeap } from './indexedHeap.js';
+
+export class DStarLite {
+    private engine: PathfindingEngine;
+    private width: number;
+    private goal: Point;
+    private goalIdx: number;
+    private start: Point;
+    private lastStart: Point; // Where the key modifier was last brought up to date
+    private km = 0; // Key modifier: heuristic distance the rover has moved
+    private g: Float64Array; // Cost to goal as last expanded
+    private rhs: Float64Array; // One-step lookahead cost to goal
+    private heap: IndexedMinHeap; // Inconsistent cells (g ≠ rhs)
+
+    constructor(engine: PathfindingEngine, start: Point, goal: Point) {
+        const { width, height } = engine.getHeightData();
+        this.engine = engine;
+        this.width = width;
+        this.goal = goal;
+        this.goalIdx = goal.y * width + goal.x;
+        this.start = start;
+        this.lastStart = start;
+        this.g = new Float64Array(width * height).fill(Infinity);
+        this.rhs = new Float64Array(width * height).fill(Infinity);
+        this.heap = new IndexedMinHeap(width * height);
+
+        this.rhs[this.goalIdx] = 0;
+        this.heap.push(this.goalIdx, engine.heuristic(start, goal), 0);
+    }
+
+    /**
+     * The search to repair for a route from start to goal: the one given, moved
+     * to start, when it runs back from the same goal; otherwise a fresh one
+     */
+    static reuse(replanner: DStarLite | null, engine: PathfindingEngine, start: Point, goal: Point): DStarLite {
+        if (!replanner || replanner.engine !== engine || replanner.goal.x !== goal.x || replanner.goal.y !== goal.y) {
+            return new DStarLite(engine, start, goal);
+        }
+        replanner.moveTo(start);
+        return replanner;
+    }
+    
+    /**
+     * The rover is now in this cell; later searches start from it
+     */
+    moveTo(cell: Point): void {
+        if (cell.x === this.start.x && cell.y === this.start.y) return;
+        this.km += this.engine.heuristic(this.lastStart, cell);
+        this.lastStart = cell;
+        this.start = cell;
+    }
+
+    /**
+     * Moves into or out of these cells may cost something else now (a rock was
+     * found, the terrain was re-measured); their lookahead costs are recomputed
+     */
+    updateCells(cells: Point[]): void {
+        const { width, height } = this.engine.getHeightData();
+        const affected = new Set<number>();
+        for (const cell of cells) {
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const x = cell.x + dx;
+                    const y = cell.y + dy;
+                    if (x >= 0 && x < width && y >= 0 && y < height) affected.add(y * width + x);
+                }
+            }
+        }
+        for (const index of affected) this.updateCell(index);
+    }
+    
+    /**
+     * The heights or blocked cells of a region changed (e.g. the engine rebuilt
+     * it with refreshRegion). A move's tilt reads the heights around both its
+     * ends, so moves leaving cells up to two cells outside are recomputed.
+     */
+    updateRegion(region: CellRegion): void {
+        const { width, height } = this.engine.getHeightData();
+        const x0 = Math.max(0, region.x - 2);
+        const y0 = Math.max(0, region.y - 2);
+        const x1 = Math.min(width, region.x + region.width + 2);
+        const y1 = Math.min(height, region.y + region.height + 2);
+        for (let y = y0; y < y1; y++) {
+            for (let x = x0; x < x1; x++) this.updateCell(y * width + x);
+        }
+    }
+
+    /**
+     * Repair the search and follow it from the rover's cell to the goal
+     */
+    replan(): ReplanResult {
+        const startTime = performance.now();
+        const nodesExpanded = this.computeShortestPath();
+        const startIdx = this.start.y * this.width + this.start.x;
+        const cost = this.g[startIdx];
+        return { path: isFinite(cost) ? this.extractPath() : [], cost, nodesExpanded, executionTime: performance.now() - startTime };
+    }
+
+    private computeShortestPath(): number {
+        const { g, rhs, heap } = this;
+        const startIdx = this.start.y * this.width + this.start.x;
+        let nodesExpanded = 0;
+
+        while (!heap.isEmpty()) {
+            const oldKey = heap.peekKey();
+            const oldTie = heap.peekTieKey();
+            const [startKey, startTie] = this.calculateKey(startIdx);
+            if (!(oldKey < startKey || (oldKey === startKey && oldTie < startTie)) && rhs[startIdx] === g[startIdx]) break;
+
+            const u = heap.pop();
+            nodesExpanded++;
+            const [newKey, newTie] = this.calculateKey(u);
+            if (oldKey < newKey || (oldKey === newKey && oldTie < newTie)) {
+                // Its key went up since it was queued (the rover moved); requeue
+                heap.push(u, newKey, newTie);
+            } else if (g[u] > rhs[u]) {
+                // Cheaper than recorded: settle it and offer it to its predecessors
+                g[u] = rhs[u];
+                const cell = this.pointOf(u);
+                for (const neighbour of this.getPredecessors(cell)) {
+                    const s = neighbour.y * this.width + neighbour.x;
+                    if (s === this.goalIdx) continue;
+                    rhs[s] = Math.min(rhs[s], this.engine.getMovementCost(neighbour, cell) + g[u]);
+                    this.updateQueue(s);
+                }
+            } else {
+                // Dearer than recorded: forget it, and re-derive whatever leaned on it
+                const oldG = g[u];
+                g[u] = Infinity;
+                const cell = this.pointOf(u);
+                for (const neighbour of this.getPredecessors(cell)) {
+                    const s = neighbour.y * this.width + neighbour.x;
+                    if (s === this.goalIdx) continue;
+                    if (rhs[s] === this.engine.getMovementCost(neighbour, cell) + oldG) rhs[s] = this.lookahead(s);
+                    this.updateQueue(s);
+                }
+                if (u !== this.goalIdx) rhs[u] = this.lookahead(u);
+                this.updateQueue(u);
+            }
+        }
+        return nodesExpanded;
+    }
+
+    /**
+     * Priority of a cell: [min(g, rhs) + h(start, cell) + km, min(g, rhs)]
+     */
+    private calculateKey(index: number): [number, number] {
+        const best = Math.min(this.g[index], this.rhs[index]);
+        return [best + this.engine.heuristic(this.start, this.pointOf(index)) + this.km, best];
+    }
+
+    /**
+     * Recompute a cell's lookahead cost after a change and requeue it
+     */
+    private updateCell(index: number): void {
+        if (index !== this.goalIdx) this.rhs[index] = this.lookahead(index);
+        this.updateQueue(index);
+    }
+    
+    /**
+     * Queue a cell while it is inconsistent, drop it once it is not
+     */
+    private updateQueue(index: number): void {
+        if (this.g[index] !== this.rhs[index]) {
+            const [key, tie] = this.calculateKey(index);
+            this.heap.push(index, key, tie);
+        } else {
+            this.heap.remove(index);
+        }
+    }
+
+    /**
+     * Cheapest move to a neighbour plus that neighbour's cost to goal
+     */
+    private lookahead(index: number): number {
+        const cell = this.pointOf(index);
+        if (this.isBlocked(cell)) return Infinity;
+        let best = Infinity;
+        for (const neighbour of this.engine.getNeighbours(cell)) {
+            const g = this.g[neighbour.y * this.width + neighbour.x];
+            if (!isFinite(g)) continue;
+            best = Math.min(best, this.engine.getMovementCost(cell, neighbour) + g);
+        }
+        return best;
+    }
+
+    /**
+     * Cells with a move into this one; moves link free cells both ways
+     */
+    private getPredecessors(cell: Point): Point[] {
+        return this.isBlocked(cell) ? [] : this.engine.getNeighbours(cell);
+    }
+
+    /**
+     * Greedy walk down the cost-to-goal from the rover's cell
+     */
+    private extractPath(): Point[] {
+        const path: Point[] = [this.start];
+        const visited = new Set<number>([this.start.y * this.width + this.start.x]);
+        let current = this.start;
+
+        while (current.x !== this.goal.x || current.y !== this.goal.y) {
+            let next: Point | null = null;
+            let best = Infinity;
+            for (const neighbour of this.engine.getNeighbours(current)) {
+                const cost = this.engine.getMovementCost(current, neighbour) + this.g[neighbour.y * this.width + neighbour.x];
+                if (cost < best) {
+                    best = cost;
+                    next = neighbour;
+                }
+            }
+            const nextIdx = next ? next.y * this.width + next.x : -1;
+            if (!next || visited.has(nextIdx)) return [];
+            visited.add(nextIdx);
+            path.push(next);
+            current = next;
+        }
+        return path;
+    }
+
+    private isBlocked(cell: Point): boolean {
+        return this.engine.getBlockedMask()[cell.y * this.width + cell.x] === 1;
+    }
+
+    private pointOf(index: number): Point {
+        return { x: index % this.width, y: Math.floor(index / this.width) };
+    }
+}
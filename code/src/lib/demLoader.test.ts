@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import { DEMLoader, RawSampleType } from './demLoader.js';
+
+interface Entry {
+    tag: number;
+    type: number; // 2 ascii, 3 short, 4 long, 12 double
+    values: number[] | string;
+}
+
+async function deflate(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+    const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function encode(values: number[], type: RawSampleType, littleEndian = true): Uint8Array<ArrayBuffer> {
+    const size = DEMLoader.sampleSize(type);
+    const view = new DataView(new ArrayBuffer(values.length * size));
+    values.forEach((value, i) => {
+        const at = i * size;
+        switch (type) {
+            case 'uint8': view.setUint8(at, value); break;
+            case 'int16': view.setInt16(at, value, littleEndian); break;
+            case 'uint16': view.setUint16(at, value, littleEndian); break;
+            case 'float32': view.setFloat32(at, value, littleEndian); break;
+            default: throw new Error(`No fixture encoder for ${type}`);
+        }
+    });
+    return new Uint8Array(view.buffer);
+}
+
+/**
+ * Hand-build a little-endian TIFF: header, one IFD, out-of-line tag values,
+ * then the strip or tile data. Offset and byte-count tags are filled in.
+ */
+function buildTIFF(entries: Entry[], blocks: Uint8Array[], tiled: boolean): ArrayBuffer {
+    const all: Entry[] = [
+        ...entries,
+        { tag: tiled ? 324 : 273, type: 4, values: blocks.map(() => 0) },
+        { tag: tiled ? 325 : 279, type: 4, values: blocks.map((block) => block.length) }
+    ].sort((a, b) => a.tag - b.tag);
+    const sizeOf = (entry: Entry) => ({ 2: 1, 3: 2, 4: 4, 12: 8 }[entry.type]! * entry.values.length);
+
+    const ifdBytes = 2 + all.length * 12 + 4;
+    let cursor = 8 + ifdBytes;
+    const overflow = new Map<Entry, number>();
+    for (const entry of all) {
+        if (sizeOf(entry) > 4) {
+            overflow.set(entry, cursor);
+            cursor += sizeOf(entry);
+        }
+    }
+    const offsets = all.find((entry) => entry.tag === (tiled ? 324 : 273))!;
+    offsets.values = blocks.map((block) => {
+        const at = cursor;
+        cursor += block.length;
+        return at;
+    });
+
+    const bytes = new Uint8Array(cursor);
+    const view = new DataView(bytes.buffer);
+    bytes.set([0x49, 0x49]);
+    view.setUint16(2, 42, true);
+    view.setUint32(4, 8, true);
+    view.setUint16(8, all.length, true);
+
+    const write = (entry: Entry, at: number) => {
+        const { type, values } = entry;
+        for (let i = 0; i < values.length; i++) {
+            const value = typeof values === 'string' ? values.charCodeAt(i) : values[i];
+            if (type === 2) view.setUint8(at + i, value);
+            else if (type === 3) view.setUint16(at + i * 2, value, true);
+            else if (type === 4) view.setUint32(at + i * 4, value, true);
+            else view.setFloat64(at + i * 8, value, true);
+        }
+    };
+    all.forEach((entry, i) => {
+        const at = 10 + i * 12;
+        view.setUint16(at, entry.tag, true);
+        view.setUint16(at + 2, entry.type, true);
+        view.setUint32(at + 4, entry.values.length, true);
+        const outside = overflow.get(entry);
+        if (outside === undefined) {
+            write(entry, at + 8);
+        } else {
+            view.setUint32(at + 8, outside, true);
+            write(entry, outside);
+        }
+    });
+    blocks.forEach((block, i) => bytes.set(block, (offsets.values as number[])[i]));
+    return bytes.buffer;
+}
+
+const short = (tag: number, value: number): Entry => ({ tag, type: 3, values: [value] });
+
+describe('DEMLoader.parseGeoTIFF', () => {
+    it('reads uncompressed strips, a short last strip, pixel scale and nodata', async () => {
+        const values = [1, 2, 3, 4, 5, 6, 7, 8, 65535];
+        const tiff = buildTIFF([
+            short(256, 3), short(257, 3), short(258, 16), short(259, 1), short(278, 2),
+            { tag: 33550, type: 12, values: [0.5, 0.5, 0] },
+            { tag: 42113, type: 2, values: '65535\0' }
+        ], [encode(values.slice(0, 6), 'uint16'), encode(values.slice(6), 'uint16')], false);
+
+        const grid = await DEMLoader.parseGeoTIFF(tiff);
+        expect(grid).toMatchObject({ width: 3, height: 3, cellSize: 0.5, noDataValue: 65535 });
+        expect(Array.from(grid.values)).toEqual(values);
+    });
+
+    it('reads deflated float tiles that overhang the image edge', async () => {
+        // 3×3 image in 2×2 tiles; samples outside the image are junk
+        const image = [0.5, -1.25, 8, 100, 2, -3, 4.75, 6, 7];
+        const tile = (x0: number, y0: number) => {
+            const samples: number[] = [];
+            for (let y = y0; y < y0 + 2; y++) {
+                for (let x = x0; x < x0 + 2; x++) samples.push(x < 3 && y < 3 ? image[y * 3 + x] : 999);
+            }
+            return deflate(encode(samples, 'float32'));
+        };
+        const tiles = await Promise.all([tile(0, 0), tile(2, 0), tile(0, 2), tile(2, 2)]);
+        const tiff = buildTIFF([
+            short(256, 3), short(257, 3), short(258, 32), short(259, 8), short(322, 2), short(323, 2), short(339, 3)
+        ], tiles, true);
+
+        const grid = await DEMLoader.parseGeoTIFF(tiff);
+        expect(Array.from(grid.values)).toEqual(image);
+    });
+
+    it('undoes horizontal differencing on signed integers', async () => {
+        const rows = [[-5, 10, -32768], [100, 100, 32767]];
+        const differenced = rows.flatMap((row) => row.map((value, x) => ((value - (x > 0 ? row[x - 1] : 0)) << 16) >> 16));
+        const tiff = buildTIFF([
+            short(256, 3), short(257, 2), short(258, 16), short(259, 8), short(317, 2), short(339, 2)
+        ], [await deflate(encode(differenced, 'int16'))], false);
+
+        const grid = await DEMLoader.parseGeoTIFF(tiff);
+        expect(Array.from(grid.values)).toEqual(rows.flat());
+    });
+
+    it('undoes the floating point predictor', async () => {
+        const row = [1.5, -2.25, 1000.125];
+        // Big-endian bytes split into planes, most significant first, then byte differences
+        const bigEndian = encode(row, 'float32', false);
+        const planes = new Uint8Array(bigEndian.length);
+        for (let x = 0; x < row.length; x++) {
+            for (let b = 0; b < 4; b++) planes[b * row.length + x] = bigEndian[x * 4 + b];
+        }
+        const predicted = planes.map((byte, i) => (byte - (i > 0 ? planes[i - 1] : 0)) & 0xff);
+        const tiff = buildTIFF([
+            short(256, 3), short(257, 1), short(258, 32), short(259, 8), short(317, 3), short(339, 3)
+        ], [await deflate(predicted)], false);
+
+        const grid = await DEMLoader.parseGeoTIFF(tiff);
+        expect(Array.from(grid.values)).toEqual(row);
+    });
+
+    it('converts a geographic pixel scale from degrees to metres', async () => {
+        const tiff = buildTIFF([
+            short(256, 1), short(257, 1), short(258, 8), short(259, 1),
+            { tag: 33550, type: 12, values: [0.01, 0.01, 0] },
+            { tag: 34735, type: 3, values: [1, 1, 0, 1, 1024, 0, 1, 2] }
+        ], [encode([42], 'uint8')], false);
+
+        const grid = await DEMLoader.parseGeoTIFF(tiff, { bodyRadius: 1000 });
+        expect(grid.cellSize).toBeCloseTo(0.01 * Math.PI / 180 * 1000, 9);
+    });
+
+    it('rejects unsupported compression', async () => {
+        const tiff = buildTIFF([short(256, 1), short(257, 1), short(258, 8), short(259, 5)], [new Uint8Array(1)], false);
+        await expect(DEMLoader.parseGeoTIFF(tiff)).rejects.toThrow(/compression 5/);
+    });
+});
+
+describe('DEMLoader.parseRawGrid', () => {
+    it('reads an ENVI grid with a header offset, byte order and map info', () => {
+        const header = [
+            'ENVI',
+            'samples = 2',
+            'lines = 2',
+            'header offset = 4',
+            'data type = 2',
+            'byte order = 1',
+            'data ignore value = -9999',
+            'map info = {UTM, 1, 1, 500000, 4000000, 2.5, 2.5,',
+            '  13, North}'
+        ].join('\n');
+        const data = new Uint8Array(4 + 8);
+        data.set(encode([-9999, 7, 300, -2], 'int16', false), 4);
+
+        const grid = DEMLoader.parseRawGrid(data.buffer, header);
+        expect(grid).toMatchObject({ width: 2, height: 2, cellSize: 2.5, noDataValue: -9999 });
+        expect(Array.from(grid.values)).toEqual([-9999, 7, 300, -2]);
+    });
+
+    it('reads an ESRI float grid', () => {
+        const header = 'NCOLS 3\nNROWS 1\nCELLSIZE 10\nNODATA_VALUE -1\nBYTEORDER LSBFIRST\n';
+        const grid = DEMLoader.parseRawGrid(encode([0.25, -1, 12], 'float32').buffer, header);
+        expect(grid).toMatchObject({ width: 3, height: 1, cellSize: 10, noDataValue: -1 });
+        expect(Array.from(grid.values)).toEqual([0.25, -1, 12]);
+    });
+
+    it('rejects a file shorter than its header describes', () => {
+        expect(() => DEMLoader.parseRawGrid(new ArrayBuffer(4), 'NCOLS 2\nNROWS 2\n')).toThrow(/16 bytes/);
+    });
+});
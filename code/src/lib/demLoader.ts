@@ -0,0 +1,508 @@
+/**
+ * DEM Loader - Decodes elevation rasters (GeoTIFF, raw binary grids) into
+ * metric grids with their ground resolution and nodata value
+ */
+
+import { inflateZlib } from './compression.js';
+
+export interface RasterGrid {
+    width: number;
+    height: number;
+    values: Float32Array; // Row-major elevations in metres
+    cellSize?: number; // Ground distance between samples in metres
+    noDataValue?: number;
+}
+
+export type RawSampleType = 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'float64';
+
+export interface RawGridHeader {
+    width: number;
+    height: number;
+    sampleType: RawSampleType;
+    littleEndian: boolean;
+    headerBytes: number;
+    cellSize?: number;
+    noDataValue?: number;
+}
+
+export interface DEMOptions {
+    bodyRadius?: number; // Planetary radius in metres, used for geographic (degree) rasters
+}
+
+/**
+ * Rectangle of source pixels to import
+ */
+export interface RasterRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Mean Mars radius, used when a raster is georeferenced in degrees
+const MARS_RADIUS_METRES = 3396190;
+
+// TIFF tag ids used by the reader
+const TAG = {
+    ImageWidth: 256,
+    ImageLength: 257,
+    BitsPerSample: 258,
+    Compression: 259,
+    StripOffsets: 273,
+    SamplesPerPixel: 277,
+    RowsPerStrip: 278,
+    StripByteCounts: 279,
+    PlanarConfiguration: 284,
+    Predictor: 317,
+    TileWidth: 322,
+    TileLength: 323,
+    TileOffsets: 324,
+    TileByteCounts: 325,
+    SampleFormat: 339,
+    ModelPixelScale: 33550,
+    GeoKeyDirectory: 34735,
+    GDALNoData: 42113
+} as const;
+
+// Byte size of each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = {
+    1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 16: 8
+};
+
+type TagValue = number[] | string;
+
+export class DEMLoader {
+    /**
+     * Parse a single-band GeoTIFF (stripped or tiled, uncompressed or deflate)
+     */
+    static async parseGeoTIFF(buffer: ArrayBuffer, options: DEMOptions = {}): Promise<RasterGrid> {
+        const view = new DataView(buffer);
+        const byteOrder = String.fromCharCode(view.getUint8(0), view.getUint8(1));
+        if (byteOrder !== 'II' && byteOrder !== 'MM') {
+            throw new Error('Not a TIFF file (bad byte-order mark).');
+        }
+        const le = byteOrder === 'II';
+
+        const magic = view.getUint16(2, le);
+        if (magic === 43) {
+            throw new Error('BigTIFF files are not supported. Export a classic GeoTIFF under 4 GB.');
+        }
+        if (magic !== 42) {
+            throw new Error(`Not a TIFF file (magic number ${magic}).`);
+        }
+
+        const tags = this.readIFD(view, view.getUint32(4, le), le);
+        const num = (tag: number, fallback?: number): number => {
+            const value = tags.get(tag);
+            if (Array.isArray(value) && value.length > 0) return value[0];
+            if (fallback === undefined) throw new Error(`GeoTIFF is missing required tag ${tag}.`);
+            return fallback;
+        };
+
+        const width = num(TAG.ImageWidth);
+        const height = num(TAG.ImageLength);
+        const bitsPerSample = num(TAG.BitsPerSample, 1);
+        const compression = num(TAG.Compression, 1);
+        const samplesPerPixel = num(TAG.SamplesPerPixel, 1);
+        const sampleFormat = num(TAG.SampleFormat, 1);
+        const predictor = num(TAG.Predictor, 1);
+
+        if (samplesPerPixel !== 1 && num(TAG.PlanarConfiguration, 1) !== 2) {
+            throw new Error(`Expected a single-band DEM, got ${samplesPerPixel} interleaved bands.`);
+        }
+        if (compression !== 1 && compression !== 8 && compression !== 32946) {
+            throw new Error(`Unsupported TIFF compression ${compression}. Use uncompressed or deflate.`);
+        }
+        if (predictor !== 1 && predictor !== 2 && predictor !== 3) {
+            throw new Error(`Unsupported TIFF predictor ${predictor}.`);
+        }
+
+        const sampleType = this.tiffSampleType(sampleFormat, bitsPerSample);
+        const bytesPerSample = bitsPerSample / 8;
+        const values = new Float32Array(width * height);
+
+        // Strips are tiles spanning the full image width
+        const tiled = tags.has(TAG.TileOffsets);
+        const blockWidth = tiled ? num(TAG.TileWidth) : width;
+        const blockHeight = tiled ? num(TAG.TileLength) : Math.min(num(TAG.RowsPerStrip, height), height);
+        const offsets = tags.get(tiled ? TAG.TileOffsets : TAG.StripOffsets) as number[] | undefined;
+        const byteCounts = tags.get(tiled ? TAG.TileByteCounts : TAG.StripByteCounts) as number[] | undefined;
+        if (!offsets || !byteCounts) {
+            throw new Error('GeoTIFF has no strip or tile offsets.');
+        }
+
+        const blocksAcross = Math.ceil(width / blockWidth);
+        // With planar configuration 2 the first band's blocks come first
+        const blocksDown = Math.ceil(height / blockHeight);
+
+        for (let b = 0; b < blocksAcross * blocksDown; b++) {
+            const raw = new Uint8Array(buffer, offsets[b], byteCounts[b]);
+            let block = compression === 1 ? raw : await inflateZlib(raw.slice());
+
+            const expected = blockWidth * blockHeight * bytesPerSample;
+            if (block.length < expected) {
+                // Final strips may be short; pad so indexing stays in range
+                const padded = new Uint8Array(expected);
+                padded.set(block);
+                block = padded;
+            }
+
+            if (predictor === 3) {
+                block = this.undoFloatingPointPredictor(block, blockWidth, blockHeight, bytesPerSample);
+            }
+
+            const blockView = new DataView(block.buffer, block.byteOffset, block.byteLength);
+            // The floating point predictor leaves samples in big-endian order
+            const blockLE = predictor === 3 ? false : le;
+            const originX = (b % blocksAcross) * blockWidth;
+            const originY = Math.floor(b / blocksAcross) * blockHeight;
+
+            for (let y = 0; y < blockHeight; y++) {
+                const gy = originY + y;
+                if (gy >= height) break;
+                let previous = 0;
+                for (let x = 0; x < blockWidth; x++) {
+                    let value = this.readSample(blockView, (y * blockWidth + x) * bytesPerSample, sampleType, blockLE);
+                    if (predictor === 2) {
+                        // Horizontal differencing on integer samples
+                        value = this.wrapInteger(previous + value, sampleType);
+                        previous = value;
+                    }
+                    const gx = originX + x;
+                    if (gx < width) values[gy * width + gx] = value;
+                }
+            }
+        }
+
+        const noDataTag = tags.get(TAG.GDALNoData);
+        const noDataValue = typeof noDataTag === 'string' ? parseFloat(noDataTag.replace(/\0/g, '')) : undefined;
+
+        return {
+            width,
+            height,
+            values,
+            cellSize: this.geoTIFFCellSize(tags, options),
+            noDataValue: noDataValue !== undefined && isFinite(noDataValue) ? noDataValue : undefined
+        };
+    }
+
+    /**
+     * Parse a raw binary grid described by a sidecar header
+     */
+    static parseRawGrid(buffer: ArrayBuffer, headerText: string): RasterGrid {
+        const header = this.parseRawHeader(headerText);
+        const bytesPerSample = this.sampleSize(header.sampleType);
+        const expected = header.headerBytes + header.width * header.height * bytesPerSample;
+        if (buffer.byteLength < expected) {
+            throw new Error(
+                `Raw grid is ${buffer.byteLength} bytes but the header describes ${header.width}x${header.height} ` +
+                `${header.sampleType} samples (${expected} bytes).`
+            );
+        }
+
+        const view = new DataView(buffer);
+        const values = new Float32Array(header.width * header.height);
+        for (let i = 0; i < values.length; i++) {
+            values[i] = this.readSample(view, header.headerBytes + i * bytesPerSample, header.sampleType, header.littleEndian);
+        }
+
+        return {
+            width: header.width,
+            height: header.height,
+            values,
+            cellSize: header.cellSize,
+            noDataValue: header.noDataValue
+        };
+    }
+
+    /**
+     * Parse an ESRI BIL/FLT (.hdr) or ENVI (.hdr) header into grid metadata
+     */
+    static parseRawHeader(text: string): RawGridHeader {
+        const entries = new Map<string, string>();
+        // ENVI values may be wrapped in braces spanning several lines
+        const flattened = text.replace(/\{[^}]*\}/g, (block) => block.replace(/\s+/g, ' '));
+        for (const line of flattened.split(/\r?\n/)) {
+            // ENVI uses "key = value", ESRI uses "KEY value"
+            const match = line.includes('=')
+                ? line.match(/^\s*([^=]+?)\s*=\s*(.*?)\s*$/)
+                : line.match(/^\s*(\S+)\s+(.*?)\s*$/);
+            if (match) entries.set(match[1].toLowerCase(), match[2]);
+        }
+
+        const numberOf = (...keys: string[]): number | undefined => {
+            for (const key of keys) {
+                const value = entries.get(key);
+                if (value !== undefined && value !== '' && isFinite(parseFloat(value))) return parseFloat(value);
+            }
+            return undefined;
+        };
+
+        const width = numberOf('ncols', 'samples', 'width');
+        const height = numberOf('nrows', 'lines', 'height');
+        if (!width || !height) {
+            throw new Error('Raw grid header must give the grid size (NCOLS/NROWS or samples/lines).');
+        }
+
+        let sampleType: RawSampleType;
+        let littleEndian: boolean;
+        const enviType = numberOf('data type');
+        if (enviType !== undefined) {
+            // ENVI data type codes
+            const enviTypes: Record<number, RawSampleType> = {
+                1: 'uint8', 2: 'int16', 3: 'int32', 4: 'float32', 5: 'float64', 12: 'uint16', 13: 'uint32'
+            };
+            const type = enviTypes[enviType];
+            if (!type) throw new Error(`Unsupported ENVI data type ${enviType}.`);
+            sampleType = type;
+            littleEndian = (numberOf('byte order') ?? 0) === 0;
+        } else {
+            // ESRI BIL: NBITS + PIXELTYPE, or a bare .flt header which is always float32
+            const bits = numberOf('nbits') ?? 32;
+            const pixelType = (entries.get('pixeltype') ?? (entries.has('nbits') ? 'signedint' : 'float')).toLowerCase();
+            const kind = pixelType.startsWith('float') ? 'float' : pixelType.startsWith('unsigned') ? 'uint' : 'int';
+            const type = `${kind}${bits}` as RawSampleType;
+            if (!['int8', 'uint8', 'int16', 'uint16', 'int32', 'uint32', 'float32', 'float64'].includes(type)) {
+                throw new Error(`Unsupported raw sample type ${pixelType} with ${bits} bits.`);
+            }
+            sampleType = type;
+            const order = (entries.get('byteorder') ?? 'I').toUpperCase();
+            littleEndian = order.startsWith('I') || order.startsWith('LSB');
+        }
+
+        // ENVI map info: {projection, refX, refY, easting, northing, pixelX, pixelY, ...}
+        let cellSize = numberOf('xdim', 'cellsize', 'pixel size');
+        const mapInfo = entries.get('map info');
+        if (cellSize === undefined && mapInfo) {
+            const parts = mapInfo.replace(/[{}]/g, '').split(',').map((part) => part.trim());
+            const pixelX = parseFloat(parts[5]);
+            if (isFinite(pixelX)) cellSize = pixelX;
+        }
+
+        return {
+            width,
+            height,
+            sampleType,
+            littleEndian,
+            headerBytes: numberOf('skipbytes', 'header offset') ?? 0,
+            cellSize: cellSize !== undefined && cellSize > 0 ? cellSize : undefined,
+            noDataValue: numberOf('nodata', 'nodata_value', 'data ignore value')
+        };
+    }
+
+    /**
+     * Crop a raster to a region and block-average it down so neither side
+     * exceeds maxSize. Nodata samples are excluded from the averages.
+     */
+    static cropAndResample(grid: RasterGrid, region?: RasterRegion, maxSize?: number): RasterGrid {
+        const bounds = this.clampRegion(region, grid.width, grid.height);
+        const factor = maxSize ? Math.max(1, Math.ceil(Math.max(bounds.width, bounds.height) / maxSize)) : 1;
+        const isFullGrid = bounds.x === 0 && bounds.y === 0 && bounds.width === grid.width && bounds.height === grid.height;
+        if (factor === 1 && isFullGrid) return grid;
+
+        const outWidth = Math.ceil(bounds.width / factor);
+        const outHeight = Math.ceil(bounds.height / factor);
+        const values = new Float32Array(outWidth * outHeight);
+        const isNoData = (value: number) => !isFinite(value) || (grid.noDataValue !== undefined && value === grid.noDataValue);
+
+        for (let oy = 0; oy < outHeight; oy++) {
+            for (let ox = 0; ox < outWidth; ox++) {
+                let sum = 0;
+                let count = 0;
+                const yEnd = Math.min(bounds.y + bounds.height, bounds.y + (oy + 1) * factor);
+                const xEnd = Math.min(bounds.x + bounds.width, bounds.x + (ox + 1) * factor);
+                for (let sy = bounds.y + oy * factor; sy < yEnd; sy++) {
+                    for (let sx = bounds.x + ox * factor; sx < xEnd; sx++) {
+                        const value = grid.values[sy * grid.width + sx];
+                        if (!isNoData(value)) {
+                            sum += value;
+                            count++;
+                        }
+                    }
+                }
+                values[oy * outWidth + ox] = count > 0 ? sum / count : NaN;
+            }
+        }
+
+        return {
+            width: outWidth,
+            height: outHeight,
+            values,
+            cellSize: grid.cellSize !== undefined ? grid.cellSize * factor : undefined,
+            noDataValue: grid.noDataValue
+        };
+    }
+
+    /**
+     * Clamp a requested region to the raster bounds (whole raster when omitted)
+     */
+    static clampRegion(region: RasterRegion | undefined, width: number, height: number): RasterRegion {
+        if (!region) return { x: 0, y: 0, width, height };
+
+        const x = Math.max(0, Math.min(width - 1, Math.floor(region.x)));
+        const y = Math.max(0, Math.min(height - 1, Math.floor(region.y)));
+        const clamped = {
+            x,
+            y,
+            width: Math.max(1, Math.min(width - x, Math.floor(region.width))),
+            height: Math.max(1, Math.min(height - y, Math.floor(region.height)))
+        };
+        if (clamped.width < 2 || clamped.height < 2) {
+            throw new Error(`Region of interest ${clamped.width}x${clamped.height} is too small; it must be at least 2x2 pixels.`);
+        }
+        return clamped;
+    }
+
+    /**
+     * Read a single sample of the given type from a DataView
+     */
+    static readSample(view: DataView, offset: number, type: RawSampleType, littleEndian: boolean): number {
+        switch (type) {
+            case 'int8': return view.getInt8(offset);
+            case 'uint8': return view.getUint8(offset);
+            case 'int16': return view.getInt16(offset, littleEndian);
+            case 'uint16': return view.getUint16(offset, littleEndian);
+            case 'int32': return view.getInt32(offset, littleEndian);
+            case 'uint32': return view.getUint32(offset, littleEndian);
+            case 'float32': return view.getFloat32(offset, littleEndian);
+            case 'float64': return view.getFloat64(offset, littleEndian);
+        }
+    }
+
+    /**
+     * Byte size of a sample type
+     */
+    static sampleSize(type: RawSampleType): number {
+        return parseInt(type.replace(/\D/g, ''), 10) / 8;
+    }
+
+    /**
+     * Read all entries of the first image file directory
+     */
+    private static readIFD(view: DataView, offset: number, le: boolean): Map<number, TagValue> {
+        const tags = new Map<number, TagValue>();
+        const count = view.getUint16(offset, le);
+
+        for (let i = 0; i < count; i++) {
+            const entry = offset + 2 + i * 12;
+            const tag = view.getUint16(entry, le);
+            const type = view.getUint16(entry + 2, le);
+            const valueCount = view.getUint32(entry + 4, le);
+            const size = TIFF_TYPE_SIZES[type];
+            if (!size) continue; // Unknown field type, skip per the TIFF spec
+
+            // Values that fit in four bytes are stored inline
+            const dataOffset = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, le);
+
+            if (type === 2) {
+                let text = '';
+                for (let j = 0; j < valueCount; j++) text += String.fromCharCode(view.getUint8(dataOffset + j));
+                tags.set(tag, text);
+                continue;
+            }
+
+            const values: number[] = [];
+            for (let j = 0; j < valueCount; j++) {
+                const at = dataOffset + j * size;
+                switch (type) {
+                    case 1: case 7: values.push(view.getUint8(at)); break;
+                    case 6: values.push(view.getInt8(at)); break;
+                    case 3: values.push(view.getUint16(at, le)); break;
+                    case 8: values.push(view.getInt16(at, le)); break;
+                    case 4: values.push(view.getUint32(at, le)); break;
+                    case 9: values.push(view.getInt32(at, le)); break;
+                    case 5: values.push(view.getUint32(at, le) / view.getUint32(at + 4, le)); break;
+                    case 10: values.push(view.getInt32(at, le) / view.getInt32(at + 4, le)); break;
+                    case 11: values.push(view.getFloat32(at, le)); break;
+                    case 12: values.push(view.getFloat64(at, le)); break;
+                    case 16: values.push(Number(view.getBigUint64(at, le))); break;
+                }
+            }
+            tags.set(tag, values);
+        }
+
+        return tags;
+    }
+
+    /**
+     * Map TIFF SampleFormat + BitsPerSample to a sample type
+     */
+    private static tiffSampleType(sampleFormat: number, bits: number): RawSampleType {
+        const kind = sampleFormat === 3 ? 'float' : sampleFormat === 2 ? 'int' : 'uint';
+        const type = `${kind}${bits}`;
+        if (!['int8', 'uint8', 'int16', 'uint16', 'int32', 'uint32', 'float32', 'float64'].includes(type)) {
+            throw new Error(`Unsupported GeoTIFF sample format ${sampleFormat} with ${bits} bits.`);
+        }
+        return type as RawSampleType;
+    }
+
+    /**
+     * Wrap an accumulated integer back into the range of its sample type
+     */
+    private static wrapInteger(value: number, type: RawSampleType): number {
+        switch (type) {
+            case 'int8': return (value << 24) >> 24;
+            case 'uint8': return value & 0xff;
+            case 'int16': return (value << 16) >> 16;
+            case 'uint16': return value & 0xffff;
+            case 'int32': return value | 0;
+            case 'uint32': return value >>> 0;
+            default: return value;
+        }
+    }
+
+    /**
+     * Undo the TIFF floating point predictor (byte-plane shuffle + byte differencing)
+     */
+    private static undoFloatingPointPredictor(
+        block: Uint8Array, width: number, height: number, bytesPerSample: number
+    ): Uint8Array {
+        const rowBytes = width * bytesPerSample;
+        const out = new Uint8Array(block.length);
+
+        for (let y = 0; y < height; y++) {
+            const row = block.slice(y * rowBytes, (y + 1) * rowBytes);
+            for (let i = 1; i < rowBytes; i++) {
+                row[i] = (row[i] + row[i - 1]) & 0xff;
+            }
+            // Bytes are stored as planes, most significant first
+            for (let x = 0; x < width; x++) {
+                for (let b = 0; b < bytesPerSample; b++) {
+                    out[y * rowBytes + x * bytesPerSample + b] = row[b * width + x];
+                }
+            }
+        }
+
+        return out;
+    }
+
+    /**
+     * Derive ground resolution in metres from ModelPixelScale and GeoKeys
+     */
+    private static geoTIFFCellSize(tags: Map<number, TagValue>, options: DEMOptions): number | undefined {
+        const pixelScale = tags.get(TAG.ModelPixelScale);
+        if (!Array.isArray(pixelScale) || !(pixelScale[0] > 0)) return undefined;
+
+        // GeoKeyDirectory: header of 4 shorts then (keyId, location, count, value) quadruples
+        const geoKeys = new Map<number, number>();
+        const directory = tags.get(TAG.GeoKeyDirectory);
+        if (Array.isArray(directory)) {
+            for (let i = 4; i + 3 < directory.length; i += 4) {
+                if (directory[i + 1] === 0) geoKeys.set(directory[i], directory[i + 3]);
+            }
+        }
+
+        const GTModelTypeGeographic = 2;
+        if (geoKeys.get(1024) === GTModelTypeGeographic) {
+            // Degrees per pixel -> metres along a great circle
+            const radius = options.bodyRadius ?? MARS_RADIUS_METRES;
+            return pixelScale[0] * (Math.PI / 180) * radius;
+        }
+
+        // ProjLinearUnitsGeoKey: 9001 metre, 9002 foot, 9003 US survey foot
+        const linearUnits = geoKeys.get(3076);
+        if (linearUnits === 9002) return pixelScale[0] * 0.3048;
+        if (linearUnits === 9003) return pixelScale[0] * (1200 / 3937);
+        return pixelScale[0];
+    }
+}
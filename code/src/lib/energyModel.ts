@@ -0,0 +1,57 @@
+/**
+ * Energy Model - Drive energy and time for a stretch of ground, shared by the
+ * rover (what it actually spends) and the planner (what a route will cost)
+ */
+
+// Wh per metre driven on level ground (Mars conditions)
+const BASE_WH_PER_METRE = 2.0;
+// Extra Wh per metre of height gained
+const CLIMB_WH_PER_METRE = 10.0;
+// Wh recovered per metre of height lost (regenerative braking)
+const REGEN_WH_PER_METRE = 2.0;
+// Slowest the drive gets on grades, as a fraction of its rated speed
+const MIN_SPEED_FACTOR = 0.25;
+
+export class EnergyModel {
+    /**
+     * Wh to drive a stretch: the level-ground cost plus climbing, less what is
+     * recovered downhill, divided by the rover's efficiency; never negative
+     */
+    static moveEnergy(groundDistance: number, heightDiff: number, efficiency: number): number {
+        let energy = groundDistance * BASE_WH_PER_METRE;
+        if (heightDiff > 0) {
+            energy += heightDiff * CLIMB_WH_PER_METRE;
+        } else {
+            energy -= -heightDiff * REGEN_WH_PER_METRE;
+        }
+        return Math.max(0, energy / efficiency);
+    }
+
+    /**
+     * Fraction of rated speed the rover holds on a grade, up or down:
+     * 1 on level ground, falling with the sine of the pitch
+     */
+    static speedFactor(groundDistance: number, heightDiff: number): number {
+        if (groundDistance <= 0) return 1;
+        return Math.max(MIN_SPEED_FACTOR, 1 - Math.abs(heightDiff) / groundDistance);
+    }
+
+    /**
+     * Seconds to drive a stretch at the rover's rated speed (m/s)
+     */
+    static moveTime(groundDistance: number, heightDiff: number, speed: number): number {
+        return groundDistance / (speed * this.speedFactor(groundDistance, heightDiff));
+    }
+
+    /**
+     * Fewest Wh any drive can spend per metre of horizontal progress when no
+     * descent is steeper than maxDescent degrees: a steady descent, costing
+     * (base − regen·sin θ) / cos θ, at the limit or where that bottoms out
+     */
+    static minEnergyPerMetre(maxDescent: number, efficiency: number): number {
+        const limit = Math.min(89, Math.max(0, maxDescent)) * Math.PI / 180;
+        const angle = Math.min(limit, Math.asin(Math.min(1, REGEN_WH_PER_METRE / BASE_WH_PER_METRE)));
+        const perGround = BASE_WH_PER_METRE - REGEN_WH_PER_METRE * Math.sin(angle);
+        return Math.max(0, perGround / Math.cos(angle) / efficiency);
+    }
+}
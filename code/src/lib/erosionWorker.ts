@@ -0,0 +1,18 @@
+/**
+ * Erosion Worker - Runs TerrainErosion off the main thread and streams progress
+ */
+
+import { TerrainErosion, ErosionRequest, ErosionResponse } from './terrainErosion.js';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<ErosionRequest>) => {
+    const post = (message: ErosionResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+    try {
+        const heights = TerrainErosion.run(event.data, (stage, fraction) => post({ type: 'progress', stage, fraction }));
+        post({ type: 'done', heights }, [heights.buffer]);
+    } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { IndexedMinHeap } from './indexedHeap.js';
+
+/**
+ * Small deterministic generator so failures reproduce
+ */
+function mulberry32(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function drain(heap: IndexedMinHeap): number[] {
+    const order: number[] = [];
+    while (!heap.isEmpty()) order.push(heap.pop());
+    return order;
+}
+
+describe('IndexedMinHeap', () => {
+    it('pops in key order and breaks ties on the second key', () => {
+        const heap = new IndexedMinHeap(6);
+        heap.push(0, 5);
+        heap.push(1, 2, 9);
+        heap.push(2, 2, 1);
+        heap.push(3, 7);
+        heap.push(4, 2, 4);
+
+        expect(heap.peek()).toBe(2);
+        expect(heap.peekKey()).toBe(2);
+        expect(heap.peekTieKey()).toBe(1);
+        expect(drain(heap)).toEqual([2, 4, 1, 0, 3]);
+        expect(heap.pop()).toBe(-1);
+        expect(heap.peekKey()).toBe(Infinity);
+    });
+
+    it('moves a queued cell when its key decreases or increases', () => {
+        const heap = new IndexedMinHeap(4);
+        [10, 20, 30, 40].forEach((key, cell) => heap.push(cell, key));
+        heap.push(3, 5); // Decrease: now first
+        heap.push(0, 35); // Increase: now behind 2
+        heap.push(1, 20, -1); // Same key, lower tie key: stays put
+
+        expect(heap.size).toBe(4);
+        expect(drain(heap)).toEqual([3, 1, 2, 0]);
+    });
+
+    it('removes cells from anywhere in the heap', () => {
+        const heap = new IndexedMinHeap(8);
+        [4, 1, 6, 3, 8, 2, 7, 5].forEach((key, cell) => heap.push(cell, key));
+        heap.remove(1); // The top
+        heap.remove(4); // The last key
+        heap.remove(3); // Somewhere in the middle
+        heap.remove(3); // No longer queued: ignored
+
+        expect(heap.has(3)).toBe(false);
+        expect(heap.has(0)).toBe(true);
+        expect(heap.size).toBe(5);
+        expect(drain(heap)).toEqual([5, 0, 7, 2, 6]);
+    });
+
+    it('agrees with a sorted list under random pushes, updates and removals', () => {
+        const random = mulberry32(7);
+        const capacity = 200;
+        const heap = new IndexedMinHeap(capacity);
+        const reference = new Map<number, [number, number]>();
+
+        for (let step = 0; step < 5000; step++) {
+            const cell = Math.floor(random() * capacity);
+            const action = random();
+            if (action < 0.6) {
+                // Few distinct keys, so ties are common
+                const key = Math.floor(random() * 20);
+                const tie = Math.floor(random() * 5);
+                heap.push(cell, key, tie);
+                reference.set(cell, [key, tie]);
+            } else if (action < 0.8) {
+                heap.remove(cell);
+                reference.delete(cell);
+            } else if (!heap.isEmpty()) {
+                const [, [key, tie]] = [...reference].reduce((best, entry) =>
+                    entry[1][0] < best[1][0] || (entry[1][0] === best[1][0] && entry[1][1] < best[1][1]) ? entry : best);
+                expect([heap.peekKey(), heap.peekTieKey()]).toEqual([key, tie]);
+                reference.delete(heap.pop());
+            }
+            expect(heap.size).toBe(reference.size);
+        }
+
+        const popped = drain(heap).map((cell) => reference.get(cell)!);
+        const sorted = [...popped].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+        expect(popped).toEqual(sorted);
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * Indexed Min-Heap - Priority queue of grid cell indices backed by typed
+ * arrays. Each cell's slot in the heap is tracked, so changing a queued cell's
+ * priority is O(log n) instead of a scan of the open list, and queued entries
+ * are plain integers rather than objects. Ties on the key are broken by an
+ * optional second key (D* Lite orders by a key pair).
+ */
+
+export class IndexedMinHeap {
+    private heap: Int32Array; // Cell indices in heap order
+    private keys: Float64Array; // Priority per cell
+    private tieKeys: Float64Array; // Second priority per cell, compared on equal keys
+    private slots: Int32Array; // Position of each cell in the heap; -1 when not queued
+    private count = 0;
+
+    /**
+     * Heap for cells 0 .. capacity - 1
+     */
+    constructor(capacity: number) {
+        this.heap = new Int32Array(capacity);
+        this.keys = new Float64Array(capacity);
+        this.tieKeys = new Float64Array(capacity);
+        this.slots = new Int32Array(capacity).fill(-1);
+    }
+
+    get size(): number {
+        return this.count;
+    }
+
+    isEmpty(): boolean {
+        return this.count === 0;
+    }
+
+    /**
+     * Whether a cell is queued
+     */
+    has(cell: number): boolean {
+        return this.slots[cell] !== -1;
+    }
+
+    /**
+     * Cell with the lowest priority, or -1 when empty
+     */
+    peek(): number {
+        return this.count > 0 ? this.heap[0] : -1;
+    }
+
+    /**
+     * Lowest priority in the heap, or Infinity when empty
+     */
+    peekKey(): number {
+        return this.count > 0 ? this.keys[this.heap[0]] : Infinity;
+    }
+
+    /**
+     * Second key of the top cell, or Infinity when empty
+     */
+    peekTieKey(): number {
+        return this.count > 0 ? this.tieKeys[this.heap[0]] : Infinity;
+    }
+
+    /**
+     * Queue a cell, or move an already queued one to its new priority
+     */
+    push(cell: number, key: number, tieKey = 0): void {
+        const slot = this.slots[cell];
+        if (slot === -1) {
+            this.keys[cell] = key;
+            this.tieKeys[cell] = tieKey;
+            this.heap[this.count] = cell;
+            this.slots[cell] = this.count;
+            this.siftUp(this.count++);
+        } else {
+            const decreased = key < this.keys[cell] || (key === this.keys[cell] && tieKey < this.tieKeys[cell]);
+            this.keys[cell] = key;
+            this.tieKeys[cell] = tieKey;
+            if (decreased) this.siftUp(slot);
+            else this.siftDown(slot);
+        }
+    }
+
+    /**
+     * Take a cell out of the heap if it is queued
+     */
+    remove(cell: number): void {
+        const slot = this.slots[cell];
+        if (slot === -1) return;
+        this.slots[cell] = -1;
+        if (--this.count === slot) return;
+        const last = this.heap[this.count];
+        this.heap[slot] = last;
+        this.slots[last] = slot;
+        this.siftUp(slot);
+        this.siftDown(this.slots[last]);
+    }
+
+    /**
+     * Remove and return the cell with the lowest priority, or -1 when empty
+     */
+    pop(): number {
+        if (this.count === 0) return -1;
+        const top = this.heap[0];
+        this.slots[top] = -1;
+        if (--this.count > 0) {
+            const last = this.heap[this.count];
+            this.heap[0] = last;
+            this.slots[last] = 0;
+            this.siftDown(0);
+        }
+        return top;
+    }
+
+    /**
+     * Whether cell a comes before cell b
+     */
+    private before(a: number, b: number): boolean {
+        const { keys, tieKeys } = this;
+        return keys[a] < keys[b] || (keys[a] === keys[b] && tieKeys[a] < tieKeys[b]);
+    }
+
+    private siftUp(slot: number): void {
+        const { heap, slots } = this;
+        const cell = heap[slot];
+        while (slot > 0) {
+            const parentSlot = (slot - 1) >> 1;
+            const parent = heap[parentSlot];
+            if (!this.before(cell, parent)) break;
+            heap[slot] = parent;
+            slots[parent] = slot;
+            slot = parentSlot;
+        }
+        heap[slot] = cell;
+        slots[cell] = slot;
+    }
+
+    private siftDown(slot: number): void {
+        const { heap, slots, count } = this;
+        const cell = heap[slot];
+        while (true) {
+            const left = 2 * slot + 1;
+            if (left >= count) break;
+            const right = left + 1;
+            const child = right < count && this.before(heap[right], heap[left]) ? right : left;
+            if (!this.before(heap[child], cell)) break;
+            heap[slot] = heap[child];
+            slots[heap[child]] = slot;
+            slot = child;
+        }
+        heap[slot] = cell;
+        slots[cell] = slot;
+    }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { MissionPlanner } from './missionPlanner.js';
+
+/**
+ * Distances between points on a line
+ */
+function lineCosts(positions: number[]): number[][] {
+    return positions.map((from) => positions.map((to) => Math.abs(to - from)));
+}
+
+/**
+ * Every order from stop 0 to the last stop, for the cheapest one by brute force
+ */
+function cheapestOrder(costs: number[][]): number[] {
+    const last = costs.length - 1;
+    let best: number[] = [];
+    const visit = (order: number[], left: number[]) => {
+        if (left.length === 0) {
+            const full = [...order, last];
+            if (best.length === 0 || MissionPlanner.tourCost(full, costs) < MissionPlanner.tourCost(best, costs)) best = full;
+            return;
+        }
+        left.forEach((stop, i) => visit([...order, stop], [...left.slice(0, i), ...left.slice(i + 1)]));
+    };
+    visit([0], Array.from({ length: last - 1 }, (_, i) => i + 1));
+    return best;
+}
+
+describe('MissionPlanner.optimizeOrder', () => {
+    it('keeps the start and the destination in place', () => {
+        // The destination lies among the other stops; a free tour would end elsewhere
+        const costs = lineCosts([0, 4, 1, 6, 3]);
+        const order = MissionPlanner.optimizeOrder(costs);
+
+        expect(order[0]).toBe(0);
+        expect(order[order.length - 1]).toBe(4);
+        expect([...order].sort()).toEqual([0, 1, 2, 3, 4]);
+        expect(MissionPlanner.tourCost(order, costs)).toBeCloseTo(MissionPlanner.tourCost(cheapestOrder(costs), costs), 9);
+    });
+
+    it('leaves two or three stops as they are', () => {
+        expect(MissionPlanner.optimizeOrder(lineCosts([0, 5]))).toEqual([0, 1]);
+        expect(MissionPlanner.optimizeOrder(lineCosts([0, 5, 9]))).toEqual([0, 1, 2]);
+    });
+
+    it('prices reversed stretches in the direction they are driven', () => {
+        // 1 → 2 → 3 is cheap both ways, so the nearer stop 1 goes first...
+        const symmetric = [
+            [0, 9, 10, 10, 10],
+            [9, 0, 1, 10, 10],
+            [10, 1, 0, 1, 10],
+            [10, 10, 1, 0, 10],
+            [10, 10, 10, 10, 0]
+        ];
+        expect(MissionPlanner.optimizeOrder(symmetric)).toEqual([0, 1, 2, 3, 4]);
+
+        // ...until it is only cheap downhill, from 3 to 1
+        const downhill = symmetric.map((row) => [...row]);
+        downhill[1][2] = 10;
+        downhill[2][3] = 10;
+        const order = MissionPlanner.optimizeOrder(downhill);
+        expect(order).toEqual([0, 3, 2, 1, 4]);
+        expect(order).toEqual(cheapestOrder(downhill));
+    });
+
+    it('avoids missing routes when a complete order exists', () => {
+        const costs = lineCosts([0, 1, 2, 3, 4, 5]);
+        costs[0][1] = Infinity; // Nearest neighbour would start here
+        costs[2][3] = Infinity;
+        const order = MissionPlanner.optimizeOrder(costs);
+
+        expect(order[0]).toBe(0);
+        expect(order[order.length - 1]).toBe(5);
+        expect(MissionPlanner.tourCost(order, costs)).toBeCloseTo(MissionPlanner.tourCost(cheapestOrder(costs), costs), 9);
+        expect(isFinite(MissionPlanner.tourCost(order, costs))).toBe(true);
+    });
+
+    it('costs Infinity when no order reaches every stop', () => {
+        const costs = lineCosts([0, 3, 6, 9]);
+        for (const from of [0, 1, 2]) costs[from][2] = Infinity; // Stop 2 cannot be reached at all
+        const order = MissionPlanner.optimizeOrder(costs);
+
+        expect([order[0], order[order.length - 1]]).toEqual([0, 3]);
+        expect(MissionPlanner.tourCost(order, costs)).toBe(Infinity);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Mission Planner - Visiting order for a mission with several stops: an open
+ * path from a fixed first stop (where the rover is) to a fixed last one (the
+ * destination) through all the others in between. Costs come from planned
+ * routes, so they need not be symmetric; climbing to a stop can cost more than
+ * coming back down from it.
+ */
+
+export class MissionPlanner {
+    /**
+     * Order of stops 0 .. n - 1, starting at stop 0 and ending at stop n - 1:
+     * nearest neighbour, then reversed stretches and moved stops until none
+     * makes the tour cheaper. costs[i][j] is the cost from stop i to stop j,
+     * Infinity where there is no route.
+     */
+    static optimizeOrder(costs: number[][]): number[] {
+        return this.localSearch(this.nearestNeighbour(costs), costs);
+    }
+
+    /**
+     * Total cost of visiting the stops in this order
+     */
+    static tourCost(order: number[], costs: number[][]): number {
+        let total = 0;
+        for (let i = 1; i < order.length; i++) total += costs[order[i - 1]][order[i]];
+        return total;
+    }
+
+    /**
+     * From stop 0, always go on to the cheapest stop not yet visited, keeping
+     * the last stop for the end
+     */
+    private static nearestNeighbour(costs: number[][]): number[] {
+        const last = costs.length - 1;
+        const order = [0];
+        const visited = new Set(order);
+        while (order.length < last) {
+            const from = order[order.length - 1];
+            let next = -1;
+            for (let to = 1; to < last; to++) {
+                if (visited.has(to)) continue;
+                if (next === -1 || costs[from][to] < costs[from][next]) next = to;
+            }
+            order.push(next);
+            visited.add(next);
+        }
+        if (last > 0) order.push(last);
+        return order;
+    }
+
+    /**
+     * Improve the tour (never moving the first or last stop) while a change
+     * lowers its cost: reverse a stretch (2-opt) or move one stop elsewhere
+     * (or-opt). Reversing turns legs around, which changes their cost when
+     * costs are asymmetric, so every candidate is costed in full; moving a stop
+     * keeps the other legs' directions, which reversals alone cannot.
+     */
+    private static localSearch(order: number[], costs: number[][]): number[] {
+        let best = order;
+        let bestCost = this.tourCost(best, costs);
+        const consider = (candidate: number[]): boolean => {
+            const cost = this.tourCost(candidate, costs);
+            if (!(cost < bestCost - 1e-9)) return false;
+            best = candidate;
+            bestCost = cost;
+            return true;
+        };
+
+        let improved = true;
+        while (improved) {
+            improved = false;
+            for (let i = 1; i < best.length - 2; i++) {
+                for (let k = i + 1; k < best.length - 1; k++) {
+                    improved = consider([...best.slice(0, i), ...best.slice(i, k + 1).reverse(), ...best.slice(k + 1)]) || improved;
+                }
+            }
+            for (let i = 1; i < best.length - 1; i++) {
+                for (let j = 1; j < best.length - 1; j++) {
+                    if (i === j) continue;
+                    const rest = [...best.slice(0, i), ...best.slice(i + 1)];
+                    improved = consider([...rest.slice(0, j), best[i], ...rest.slice(j)]) || improved;
+                }
+            }
+        }
+        return best;
+    }
+}
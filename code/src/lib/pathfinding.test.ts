@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { PathfindingEngine, Point } from './pathfinding.js';
+import { HeightData } from './terrainLoader.js';
+
+/**
+ * Gently rolling ground, 1 m cells, every move within slope limits
+ */
+function rollingTerrain(width: number, height: number): HeightData {
+    const data = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) data[y * width + x] = Math.sin(x / 3) * 0.3 + Math.cos(y / 4) * 0.3;
+    }
+    return { width, height, data, minHeight: -0.6, maxHeight: 0.6, cellSize: 1, verticalUnits: 1 };
+}
+
+const isFourConnected = (path: Point[]) =>
+    path.every((point, i) => i === 0 || Math.abs(point.x - path[i - 1].x) + Math.abs(point.y - path[i - 1].y) === 1);
+
+describe('PathfindingEngine', () => {
+    it('runs JPS as A* on a 4-connected grid and says so in comparisons', () => {
+        const engine = new PathfindingEngine(rollingTerrain(24, 24), { diagonalMovement: false });
+        const [astar, jps] = engine.compareAlgorithms({ x: 1, y: 2 }, { x: 20, y: 19 }, ['astar', 'jps']);
+
+        expect(astar.ranAs).toBeUndefined();
+        expect(jps.ranAs).toBe('astar');
+        expect(isFourConnected(jps.result.path)).toBe(true);
+        expect(jps.result.cost).toBeCloseTo(astar.result.cost, 6);
+    });
+
+    it('costs routes to several goals from one search as separate searches would', () => {
+        const heightData = rollingTerrain(24, 24);
+        heightData.obstacleMask = new Uint8Array(24 * 24);
+        heightData.obstacleMask[5 * 24 + 5] = 1;
+        const engine = new PathfindingEngine(heightData, { algorithm: 'dijkstra' });
+        const start = { x: 2, y: 3 };
+        const goals = [{ x: 21, y: 18 }, { x: 12, y: 2 }, { x: 5, y: 5 }, { x: 2, y: 3 }];
+        const results = engine.findPathsFrom(start, goals);
+
+        goals.slice(0, 2).forEach((goal, i) => {
+            expect(results[i].success).toBe(true);
+            expect(results[i].path[results[i].path.length - 1]).toEqual(goal);
+            expect(results[i].cost).toBeCloseTo(engine.findPath(start, goal).cost, 4);
+        });
+        expect(results[2]).toMatchObject({ success: false, partial: false, path: [] }); // On the rock
+        expect(results[3]).toMatchObject({ success: true, cost: 0, path: [start] });
+    });
+
+    it('does not mark a bidirectional route that reaches the goal as partial', () => {
+        const heightData = rollingTerrain(24, 24);
+        const start = { x: 2, y: 3 };
+        const goal = { x: 21, y: 18 };
+        const full = new PathfindingEngine(heightData, { algorithm: 'bidirectionalAstar' }).findPath(start, goal);
+        expect(full.success).toBe(true);
+
+        for (let nodeBudget = 1; nodeBudget < full.nodesExplored; nodeBudget++) {
+            const { path, partial, success } = new PathfindingEngine(heightData, { algorithm: 'bidirectionalAstar', nodeBudget }).findPath(start, goal);
+            const end = path[path.length - 1];
+            const reachesGoal = end?.x === goal.x && end?.y === goal.y;
+            expect(partial).toBe(!reachesGoal);
+            expect(success).toBe(reachesGoal);
+        }
+    });
+});
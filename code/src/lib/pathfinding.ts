@@ -1,65 +1,380 @@
-import { HeightData } from './terrainLoader.js';
+import { CellRegion, HeightData } from './terrainLoader.js';
+import { FLAT_ASPECT, TerrainAnalysis } from './terrainAnalysis.js';
+import { TraversabilityMap } from './traversability.js';
+import { EnergyModel } from './energyModel.js';
+import { IndexedMinHeap } from './indexedHeap.js';
 
 export interface Point {
     x: number;
     y: number;
 }
 
-export interface PathNode {
-    x: number;
-    y: number;
-    g: number; // Cost from start
-    h: number; // Heuristic cost to goal
-    f: number; // Total cost (g + h)
-    parent: PathNode | null;
-}
+/**
+ * What the planner minimises: the weighted distance, slope and terrain cost
+ * ('balanced'), metres over the ground, Wh from the rover energy model, or
+ * seconds of driving. Slope limits and blocked cells apply to all of them.
+ */
+export type PlannerObjective = 'balanced' | 'distance' | 'energy' | 'time';
+
+/**
+ * Search algorithm. Grid searches move between neighbouring cells; Theta* and
+ * Lazy Theta* let a cell take its parent's parent when the straight segment
+ * between them is drivable, giving any-angle paths. Lazy Theta* checks that
+ * segment only when the cell is expanded, not for every neighbour it is offered to.
+ */
+export type PlannerAlgorithm =
+    | 'astar'
+    | 'dijkstra'
+    | 'greedy'
+    | 'weightedAstar'
+    | 'bidirectionalAstar'
+    | 'jps'
+    | 'thetaStar'
+    | 'lazyThetaStar';
+
+export const PLANNER_ALGORITHMS: PlannerAlgorithm[] = [
+    'astar', 'dijkstra', 'greedy', 'weightedAstar', 'bidirectionalAstar', 'jps', 'thetaStar', 'lazyThetaStar'
+];
 
 export interface PathfindingOptions {
+    algorithm?: PlannerAlgorithm;
+    heuristicWeight?: number; // Inflation of the heuristic for weighted A*
+    objective?: PlannerObjective;
     maxSlope?: number; // Maximum allowed slope in degrees
+    maxClimb?: number | null; // Steepest uphill pitch in degrees (null = maxSlope)
+    maxDescent?: number | null; // Steepest downhill pitch in degrees (null = maxSlope)
+    maxCrossSlope?: number | null; // Steepest sideways tilt across the heading in degrees (null = maxSlope)
     diagonalMovement?: boolean; // Allow diagonal movement
     slopeWeight?: number; // Weight for slope penalty in cost calculation
     distanceWeight?: number; // Weight for distance in cost calculation
+    roughnessWeight?: number; // Extra cost per metre travelled per metre of RMS roughness
+    curvatureWeight?: number; // Extra cost per metre travelled per 1/m of |profile curvature|
+    planCurvatureWeight?: number; // Extra cost per metre travelled per 1/m of |plan curvature| (gullies, spurs)
+    aspectWeight?: number; // Extra cost per metre on slopes facing away from preferredAspect
+    preferredAspect?: number; // Compass degrees slopes should face (e.g. toward the sun)
+    traversability?: TraversabilityMap | null; // Rover hazard map: obstacles block, hazard adds cost
+    hazardWeight?: number; // Extra cost per metre travelled at hazard 1
+    roverRadius?: number; // Metres; point obstacles are grown by this much (0 = point robot)
+    energyEfficiency?: number; // Rover energy efficiency factor for the energy objective and path stats
+    speed?: number; // Rover rated speed in m/s for the time objective and path stats
+    nodeBudget?: number; // Stop after expanding this many nodes and return a partial path (0 = no limit)
+    timeBudget?: number; // Stop after this many ms and return a partial path (0 = no limit)
 }
 
 export interface PathfindingResult {
     path: Point[];
     cost: number;
     success: boolean;
+    partial: boolean; // A budget ran out; path leads from the start to the explored cell closest to the goal
     nodesExplored: number;
     executionTime: number;
 }
 
+/**
+ * Route from an incremental repair, see DStarLite.replan
+ */
+export interface ReplanResult {
+    path: Point[]; // Rover cell to goal; empty when the goal cannot be reached
+    cost: number;
+    nodesExpanded: number; // Cells expanded by this repair alone
+    executionTime: number;
+}
+
+/**
+ * Heights, rock mask and hazard map over a region, row by row, copied from an
+ * engine whose terrain was edited there to one holding its own copy
+ */
+export interface TerrainPatch {
+    region: CellRegion;
+    heights: Float32Array;
+    obstacleMask: Uint8Array | null;
+    hazard: Float32Array | null;
+    obstacles: Uint8Array | null;
+}
+
+/**
+ * How a running search is getting on, reported every PROGRESS_INTERVAL ms
+ */
+export interface SearchProgress {
+    nodesExplored: number;
+    bestF: number; // Priority of the node just expanded
+    elapsed: number; // ms since the search started
+}
+
+// What a search returns before findPath adds timing
+type SearchOutcome = Pick<PathfindingResult, 'path' | 'cost' | 'nodesExplored'> & { partial?: boolean };
+
+// Nodes between time budget and progress checks, and ms between progress reports
+const BUDGET_CHECK_NODES = 256;
+const PROGRESS_INTERVAL = 100;
+
+/**
+ * One algorithm's result in a side-by-side comparison
+ */
+export interface AlgorithmRun {
+    algorithm: PlannerAlgorithm;
+    ranAs?: PlannerAlgorithm; // Set when another algorithm had to run in its place
+    result: PathfindingResult;
+    stats: PathStats;
+}
+
+/**
+ * Predicted totals for driving a path
+ */
+export interface PathStats {
+    distance: number; // Metres over the ground
+    energy: number; // Wh
+    duration: number; // Seconds at the rover's rated speed
+    maxSlope: number; // Steepest terrain slope under the path in degrees
+    hazard: number; // Hazard exposure: metres driven weighted by hazard (0..1)
+}
+
+/**
+ * One route of a Pareto set, with the search that produced it
+ */
+export interface RouteAlternative {
+    label: string;
+    path: Point[];
+    stats: PathStats;
+}
+
+// Searches whose routes seed the Pareto set: single objectives, a hazard-averse
+// weighting, and distance searches with the slope limits tightened (ε-constraint)
+const ALTERNATIVE_SEARCHES: Array<{ label: string; options: Partial<PathfindingOptions>; slopeCap?: number }> = [
+    { label: 'Shortest', options: { objective: 'distance' } },
+    { label: 'Least energy', options: { objective: 'energy' } },
+    { label: 'Safest', options: { objective: 'balanced', distanceWeight: 1, slopeWeight: 1, hazardWeight: 25 } },
+    { label: 'Balanced', options: { objective: 'balanced' } },
+    { label: 'Gentle', options: { objective: 'distance' }, slopeCap: 0.75 },
+    { label: 'Gentlest', options: { objective: 'distance' }, slopeCap: 0.5 }
+];
+
+/**
+ * Messages exchanged with pathfindingWorker.ts
+ */
+export type PlanningKind = 'findPath' | 'findAlternatives' | 'compareAlgorithms' | 'replan';
+
+export type PlanningRequest =
+    | { type: 'init'; heightData: HeightData; options: PathfindingOptions }
+    | { type: 'options'; options: Partial<PathfindingOptions> }
+    | { type: 'obstacles'; cells: Point[] }
+    | { type: 'terrain'; patch: TerrainPatch }
+    | { type: 'endReplan' }
+    | { type: 'plan'; id: number; kind: PlanningKind; start: Point; goal: Point }
+    | { type: 'planFrom'; id: number; start: Point; goals: Point[] };
+
+export type PlanningResponse =
+    | { type: 'progress'; id: number; progress: SearchProgress }
+    | { type: 'done'; id: number; result: PathfindingResult | PathfindingResult[] | RouteAlternative[] | AlgorithmRun[] | ReplanResult }
+    | { type: 'error'; id: number; message: string };
+
+const FOUR_DIRECTIONS: Array<[number, number]> = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+const EIGHT_DIRECTIONS: Array<[number, number]> = [...FOUR_DIRECTIONS, [-1, -1], [1, -1], [1, 1], [-1, 1]];
+
+// The metrics a route is compared on; lower is better for all of them
+const PARETO_METRICS: Array<keyof PathStats> = ['distance', 'energy', 'maxSlope', 'hazard'];
+
 export class PathfindingEngine {
     private heightData: HeightData;
     private options: Required<PathfindingOptions>;
+    private cellSize: number; // Metres per grid cell
+    private verticalUnits: number; // Metres per height unit
+    private blockedMask: Uint8Array | null = null; // Built lazily from the masks and options
+    private limitCells: Uint8Array | null = null; // Slope-limit memo of the running jump point search
+    private progressCallback: ((progress: SearchProgress) => void) | null = null;
+    private searchStartTime = 0;
+    private lastProgressTime = 0;
     
     constructor(heightData: HeightData, options: PathfindingOptions = {}) {
         this.heightData = heightData;
+        this.cellSize = heightData.cellSize;
+        this.verticalUnits = heightData.verticalUnits;
         this.options = {
+            algorithm: options.algorithm ?? 'astar',
+            heuristicWeight: options.heuristicWeight ?? 1.5,
+            objective: options.objective ?? 'balanced',
             maxSlope: options.maxSlope ?? 30, // 30 degrees default
+            maxClimb: options.maxClimb ?? null,
+            maxDescent: options.maxDescent ?? null,
+            maxCrossSlope: options.maxCrossSlope ?? null,
             diagonalMovement: options.diagonalMovement ?? true,
             slopeWeight: options.slopeWeight ?? 2.0,
-            distanceWeight: options.distanceWeight ?? 1.0
+            distanceWeight: options.distanceWeight ?? 1.0,
+            roughnessWeight: options.roughnessWeight ?? 0,
+            curvatureWeight: options.curvatureWeight ?? 0,
+            planCurvatureWeight: options.planCurvatureWeight ?? 0,
+            aspectWeight: options.aspectWeight ?? 0,
+            preferredAspect: options.preferredAspect ?? 180,
+            traversability: options.traversability ?? null,
+            hazardWeight: options.hazardWeight ?? 4,
+            roverRadius: options.roverRadius ?? 0,
+            energyEfficiency: options.energyEfficiency ?? 1.0,
+            speed: options.speed ?? 0.07,
+            nodeBudget: options.nodeBudget ?? 0,
+            timeBudget: options.timeBudget ?? 0
         };
     }
     
     /**
-     * Find path using A* algorithm
+     * Find a path with the configured algorithm. All algorithms share the cost
+     * model, slope limits and blocked cells; they differ in what they expand.
      */
     findPath(start: Point, goal: Point): PathfindingResult {
         const startTime = performance.now();
+        this.searchStartTime = startTime;
+        this.lastProgressTime = startTime;
+        
+        if (!this.isValidPoint(start) || !this.isValidPoint(goal) || this.isBlocked(start) || this.isBlocked(goal)) {
+            return { path: [], cost: 0, success: false, partial: false, nodesExplored: 0, executionTime: performance.now() - startTime };
+        }
+        
+        let outcome: SearchOutcome;
+        switch (this.options.algorithm) {
+            case 'bidirectionalAstar':
+                outcome = this.searchBidirectional(start, goal);
+                break;
+            case 'jps':
+                // Jumps follow diagonals; on a 4-connected grid plain A* runs instead
+                outcome = this.options.diagonalMovement ? this.searchJumpPoints(start, goal) : this.searchBestFirst(start, goal);
+                break;
+            default:
+                outcome = this.searchBestFirst(start, goal);
+        }
+        const partial = outcome.partial ?? false;
+        return { ...outcome, success: outcome.path.length > 0 && !partial, partial, executionTime: performance.now() - startTime };
+    }
+    
+    /**
+     * Routes from one cell to several, from a single Dijkstra search that stops
+     * once every goal is settled (e.g. the legs out of one mission stop). Paths
+     * follow the grid whatever the configured algorithm. Goals that cannot be
+     * reached, or are not reached within the budgets, get an empty path.
+     */
+    findPathsFrom(start: Point, goals: Point[]): PathfindingResult[] {
+        const startTime = performance.now();
+        this.searchStartTime = startTime;
+        this.lastProgressTime = startTime;
+        
+        const width = this.heightData.width;
+        const total = width * this.heightData.height;
+        const gScore = new Float32Array(total).fill(Infinity);
+        const cameFrom = new Int32Array(total).fill(-1);
+        const closed = new Uint8Array(total);
+        const heap = new IndexedMinHeap(total);
+        
+        // Cells still to settle; unusable goals are never waited for
+        const waiting = new Set<number>();
+        for (const goal of goals) {
+            if (this.isValidPoint(goal) && !this.isBlocked(goal)) waiting.add(goal.y * width + goal.x);
+        }
+        let nodesExplored = 0;
+        let partial = false;
+        if (this.isValidPoint(start) && !this.isBlocked(start)) {
+            const startIdx = start.y * width + start.x;
+            gScore[startIdx] = 0;
+            heap.push(startIdx, 0);
+        }
         
-        if (!this.isValidPoint(start) || !this.isValidPoint(goal)) {
-            return { path: [], cost: 0, success: false, nodesExplored: 0, executionTime: performance.now() - startTime };
+        while (!heap.isEmpty() && waiting.size > 0) {
+            const g = heap.peekKey();
+            const cIdx = heap.pop();
+            const current = { x: cIdx % width, y: Math.floor(cIdx / width) };
+            closed[cIdx] = 1;
+            waiting.delete(cIdx);
+            nodesExplored++;
+            if (this.isOverBudget(nodesExplored, g)) {
+                partial = waiting.size > 0;
+                break;
+            }
+            
+            for (const neighbour of this.getNeighbours(current)) {
+                const nIdx = neighbour.y * width + neighbour.x;
+                if (closed[nIdx]) continue;
+                const tentativeG = g + this.getMovementCost(current, neighbour);
+                if (!(tentativeG < gScore[nIdx])) continue; // Too steep, or no better
+                gScore[nIdx] = tentativeG;
+                cameFrom[nIdx] = cIdx;
+                heap.push(nIdx, tentativeG);
+            }
         }
         
+        const executionTime = performance.now() - startTime;
+        return goals.map((goal) => {
+            const index = this.isValidPoint(goal) ? goal.y * width + goal.x : -1;
+            const reached = index >= 0 && closed[index] === 1;
+            return {
+                path: reached ? this.reconstructPath(cameFrom, index) : [],
+                cost: reached ? gScore[index] : 0,
+                success: reached,
+                partial: !reached && partial,
+                nodesExplored,
+                executionTime
+            };
+        });
+    }
+    
+    /**
+     * The algorithm findPath() actually runs with the current options
+     */
+    getSearchAlgorithm(): PlannerAlgorithm {
+        const { algorithm, diagonalMovement } = this.options;
+        return algorithm === 'jps' && !diagonalMovement ? 'astar' : algorithm;
+    }
+    
+    /**
+     * Receive progress reports from searches while they run (e.g. to relay from a worker)
+     */
+    setProgressCallback(callback: ((progress: SearchProgress) => void) | null): void {
+        this.progressCallback = callback;
+    }
+    
+    /**
+     * Report progress now and then, and tell the search whether a node or time
+     * budget has run out
+     */
+    private isOverBudget(nodesExplored: number, bestF: number): boolean {
+        const { nodeBudget, timeBudget } = this.options;
+        if (nodeBudget > 0 && nodesExplored >= nodeBudget) return true;
+        if (nodesExplored % BUDGET_CHECK_NODES !== 0) return false;
+        
+        const now = performance.now();
+        if (this.progressCallback && now - this.lastProgressTime >= PROGRESS_INTERVAL) {
+            this.lastProgressTime = now;
+            this.progressCallback({ nodesExplored, bestF, elapsed: now - this.searchStartTime });
+        }
+        return timeBudget > 0 && now - this.searchStartTime >= timeBudget;
+    }
+    
+    /**
+     * Run several algorithms on the same start and goal, e.g. to compare how
+     * much each one explores and what its path costs
+     */
+    compareAlgorithms(start: Point, goal: Point, algorithms: PlannerAlgorithm[] = PLANNER_ALGORITHMS): AlgorithmRun[] {
+        const saved = this.options;
+        try {
+            return algorithms.map((algorithm) => {
+                this.options = { ...saved, algorithm };
+                const result = this.findPath(start, goal);
+                const ranAs = this.getSearchAlgorithm();
+                return { algorithm, ...(ranAs !== algorithm && { ranAs }), result, stats: this.getPathStats(result.path) };
+            });
+        } finally {
+            this.options = saved;
+        }
+    }
+    
+    /**
+     * Best-first search over the grid, ordered by g + w·h: A* (w = 1), weighted
+     * A* (w > 1, faster but up to w times the optimum cost), Dijkstra (w = 0) and
+     * greedy best-first (h alone). Theta* and Lazy Theta* add any-angle shortcuts.
+     */
+    private searchBestFirst(start: Point, goal: Point): SearchOutcome {
         const width = this.heightData.width;
         const height = this.heightData.height;
         const indexOf = (x: number, y: number) => y * width + x;
         
         const total = width * height;
         const closed = new Uint8Array(total);
-        const inOpen = new Uint8Array(total);
         const gScore = new Float32Array(total);
         gScore.fill(Infinity);
         
@@ -67,109 +382,561 @@ export class PathfindingEngine {
         const cameFrom = new Int32Array(total);
         cameFrom.fill(-1);
         
-        const heap = new MinHeap<PathNode>((a, b) => a.f - b.f);
+        const heap = new IndexedMinHeap(total);
+        
+        const algorithm = this.options.algorithm;
+        const heuristicWeight = algorithm === 'dijkstra' ? 0 : algorithm === 'weightedAstar' ? this.options.heuristicWeight : 1;
+        const priority = (g: number, h: number) => algorithm === 'greedy' ? h : g + heuristicWeight * h;
+        const pointOf = (idx: number): Point => ({ x: idx % width, y: Math.floor(idx / width) });
         
         const startIdx = indexOf(start.x, start.y);
-        const startNode: PathNode = { x: start.x, y: start.y, g: 0, h: this.heuristic(start, goal), f: 0, parent: null };
-        startNode.f = startNode.g + startNode.h;
-        heap.push(startNode);
+        const goalIdx = indexOf(goal.x, goal.y);
+        const startH = this.heuristic(start, goal);
+        heap.push(startIdx, priority(0, startH));
         gScore[startIdx] = 0;
-        inOpen[startIdx] = 1;
         
         let nodesExplored = 0;
+        let closestIdx = startIdx; // Expanded cell nearest the goal, for partial results
+        let closestH = startH;
         
         while (!heap.isEmpty()) {
-            const current = heap.pop()!;
-            const cIdx = indexOf(current.x, current.y);
-            inOpen[cIdx] = 0;
+            const f = heap.peekKey();
+            const cIdx = heap.pop();
+            const current = pointOf(cIdx);
             closed[cIdx] = 1;
             nodesExplored++;
             
-            if (current.x === goal.x && current.y === goal.y) {
-                // Reconstruct path using cameFrom
-                const path: Point[] = [];
-                let idx = cIdx;
-                while (idx !== -1) {
-                    const x = idx % width;
-                    const y = Math.floor(idx / width);
-                    path.unshift({ x, y });
-                    idx = cameFrom[idx];
+            // Lazy Theta* took its parent on trust; price the segment properly now and
+            // keep it only if it is drivable and beats every expanded neighbour
+            if (algorithm === 'lazyThetaStar' && cameFrom[cIdx] !== -1) {
+                const parentIdx = cameFrom[cIdx];
+                let g = gScore[parentIdx] + this.getSegmentCost(pointOf(parentIdx), current);
+                for (const n of this.getNeighbours(current)) {
+                    const nIdx = indexOf(n.x, n.y);
+                    if (!closed[nIdx]) continue;
+                    const viaNeighbour = gScore[nIdx] + this.getMovementCost(n, current);
+                    if (viaNeighbour < g) {
+                        g = viaNeighbour;
+                        cameFrom[cIdx] = nIdx;
+                    }
                 }
-                return { path, cost: current.g, success: true, nodesExplored, executionTime: performance.now() - startTime };
+                gScore[cIdx] = g;
             }
+            const currentG = gScore[cIdx];
             
-            // Neighbor exploration (4 or 8 directions)
-            const dirs: Array<{ dx: number; dy: number }> = [
-                { dx: 0, dy: -1 }, { dx: 1, dy: 0 }, { dx: 0, dy: 1 }, { dx: -1, dy: 0 }
-            ];
-            if (this.options.diagonalMovement) {
-                dirs.push({ dx: -1, dy: -1 }, { dx: 1, dy: -1 }, { dx: 1, dy: 1 }, { dx: -1, dy: 1 });
+            if (cIdx === goalIdx) {
+                return { path: this.reconstructPath(cameFrom, cIdx), cost: currentG, nodesExplored };
+            }
+            const currentH = this.heuristic(current, goal);
+            if (currentH < closestH) {
+                closestH = currentH;
+                closestIdx = cIdx;
+            }
+            if (this.isOverBudget(nodesExplored, f)) {
+                return { path: this.reconstructPath(cameFrom, closestIdx), cost: gScore[closestIdx], nodesExplored, partial: true };
             }
             
-            for (const { dx, dy } of dirs) {
-                const nx = current.x + dx;
-                const ny = current.y + dy;
-                if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+            for (const { x: nx, y: ny } of this.getNeighbours(current)) {
                 const nIdx = indexOf(nx, ny);
                 if (closed[nIdx]) continue;
                 
                 const moveCost = this.getMovementCost(current, { x: nx, y: ny });
                 if (!isFinite(moveCost)) continue; // Too steep
                 
-                const tentativeG = current.g + moveCost;
+                let tentativeG = currentG + moveCost;
+                let parentIdx = cIdx;
+                
+                // Any-angle: go straight from the current cell's parent when that is cheaper
+                const grandparentIdx = cameFrom[cIdx];
+                if ((algorithm === 'thetaStar' || algorithm === 'lazyThetaStar') && grandparentIdx !== -1) {
+                    const grandparent = pointOf(grandparentIdx);
+                    // Lazy Theta* prices the segment from its end cells only; it is checked on expansion
+                    const segmentCost = algorithm === 'lazyThetaStar'
+                        ? this.getMovementCost(grandparent, { x: nx, y: ny })
+                        : this.getSegmentCost(grandparent, { x: nx, y: ny });
+                    if (gScore[grandparentIdx] + segmentCost <= tentativeG) {
+                        tentativeG = gScore[grandparentIdx] + segmentCost;
+                        parentIdx = grandparentIdx;
+                    }
+                }
                 if (tentativeG >= gScore[nIdx]) continue;
                 
                 // This path is better
-                cameFrom[nIdx] = cIdx;
+                cameFrom[nIdx] = parentIdx;
                 gScore[nIdx] = tentativeG;
-                const h = this.heuristic({ x: nx, y: ny }, goal);
-                const f = tentativeG + h;
+                heap.push(nIdx, priority(tentativeG, this.heuristic({ x: nx, y: ny }, goal)));
+            }
+        }
+        
+        return { path: [], cost: 0, nodesExplored };
+    }
+    
+    /**
+     * Bidirectional A*: one search from the start, one backwards from the goal
+     * (pricing each move in the direction the rover drives it), alternating on
+     * the lower f. Stops once either frontier cannot beat the best meeting.
+     */
+    private searchBidirectional(start: Point, goal: Point): SearchOutcome {
+        if (start.x === goal.x && start.y === goal.y) return { path: [start], cost: 0, nodesExplored: 0 };
+        
+        const width = this.heightData.width;
+        const total = width * this.heightData.height;
+        const indexOf = (x: number, y: number) => y * width + x;
+        
+        const makeSide = (origin: Point, target: Point, forward: boolean) => {
+            const gScore = new Float32Array(total);
+            gScore.fill(Infinity);
+            const cameFrom = new Int32Array(total);
+            cameFrom.fill(-1);
+            const heap = new IndexedMinHeap(total);
+            heap.push(indexOf(origin.x, origin.y), this.heuristic(origin, target));
+            gScore[indexOf(origin.x, origin.y)] = 0;
+            return { target, forward, gScore, cameFrom, heap, closed: new Uint8Array(total) };
+        };
+        const sides = [makeSide(start, goal, true), makeSide(goal, start, false)];
+        
+        let bestCost = Infinity;
+        let meeting = -1;
+        let nodesExplored = 0;
+        let closestIdx = indexOf(start.x, start.y); // Forward cell nearest the goal, for partial results
+        let closestH = Infinity;
+        let partial = false;
+        
+        while (!sides[0].heap.isEmpty() && !sides[1].heap.isEmpty()) {
+            const forwardTop = sides[0].heap.peekKey();
+            const backwardTop = sides[1].heap.peekKey();
+            if (Math.max(forwardTop, backwardTop) >= bestCost) break;
+            
+            const side = forwardTop <= backwardTop ? sides[0] : sides[1];
+            const other = side === sides[0] ? sides[1] : sides[0];
+            const f = side.heap.peekKey();
+            const cIdx = side.heap.pop();
+            const current = { x: cIdx % width, y: Math.floor(cIdx / width) };
+            side.closed[cIdx] = 1;
+            nodesExplored++;
+            if (side.forward) {
+                const h = this.heuristic(current, goal);
+                if (h < closestH) {
+                    closestH = h;
+                    closestIdx = cIdx;
+                }
+            }
+            if (this.isOverBudget(nodesExplored, f)) {
+                partial = true;
+                break;
+            }
+            
+            for (const neighbour of this.getNeighbours(current)) {
+                const nIdx = indexOf(neighbour.x, neighbour.y);
+                if (side.closed[nIdx]) continue;
+                
+                const moveCost = side.forward
+                    ? this.getMovementCost(current, neighbour)
+                    : this.getMovementCost(neighbour, current);
+                if (!isFinite(moveCost)) continue; // Too steep
                 
-                if (inOpen[nIdx]) {
-                    heap.decreaseIfBetter((node) => node.x === nx && node.y === ny, (node) => {
-                        node.g = tentativeG; node.h = h; node.f = f; node.parent = current; return node;
-                    });
-                } else {
-                    heap.push({ x: nx, y: ny, g: tentativeG, h, f, parent: current });
-                    inOpen[nIdx] = 1;
+                const tentativeG = side.gScore[cIdx] + moveCost;
+                if (tentativeG >= side.gScore[nIdx]) continue;
+                
+                side.cameFrom[nIdx] = cIdx;
+                side.gScore[nIdx] = tentativeG;
+                if (tentativeG + other.gScore[nIdx] < bestCost) {
+                    bestCost = tentativeG + other.gScore[nIdx];
+                    meeting = nIdx;
                 }
+                
+                side.heap.push(nIdx, tentativeG + this.heuristic(neighbour, side.target));
             }
         }
         
-        return { path: [], cost: 0, success: false, nodesExplored, executionTime: performance.now() - startTime };
+        // Out of budget before the frontiers met: the forward tree's closest approach
+        if (meeting === -1) {
+            return partial
+                ? { path: this.reconstructPath(sides[0].cameFrom, closestIdx), cost: sides[0].gScore[closestIdx], nodesExplored, partial }
+                : { path: [], cost: 0, nodesExplored };
+        }
+        
+        // Start → meeting from the forward tree, then meeting → goal from the backward one.
+        // A route found before the budget ran out reaches the goal, so it is not partial,
+        // though it may not be the cheapest.
+        const path = this.reconstructPath(sides[0].cameFrom, meeting);
+        for (let idx = sides[1].cameFrom[meeting]; idx !== -1; idx = sides[1].cameFrom[idx]) {
+            path.push({ x: idx % width, y: Math.floor(idx / width) });
+        }
+        return { path, cost: bestCost, nodesExplored };
     }
     
+    /**
+     * Jump Point Search: A* that skips along straight lines and diagonals,
+     * expanding only cells where the route may need to turn; 8-connected only. Its pruning assumes
+     * every open cell costs the same, so on sloped or hazardous ground the path is
+     * not always the cheapest. Jumps stop on any cell with a move that breaks a
+     * slope limit and expand all its neighbours, so steep ground does not hide routes.
+     */
+    private searchJumpPoints(start: Point, goal: Point): SearchOutcome {
+        const width = this.heightData.width;
+        const total = width * this.heightData.height;
+        const indexOf = (x: number, y: number) => y * width + x;
+        
+        const closed = new Uint8Array(total);
+        const gScore = new Float32Array(total);
+        gScore.fill(Infinity);
+        const cameFrom = new Int32Array(total);
+        cameFrom.fill(-1);
+        // Jump points next to a slope limit; all their neighbours are expanded
+        const expandAll = new Uint8Array(total);
+        // Per cell: 0 not yet checked, 1 every move in and out is within limits, 2 not
+        this.limitCells = new Uint8Array(total);
+        
+        const heap = new IndexedMinHeap(total);
+        const startIdx = indexOf(start.x, start.y);
+        const startH = this.heuristic(start, goal);
+        heap.push(startIdx, startH);
+        gScore[startIdx] = 0;
+        
+        let nodesExplored = 0;
+        let closestIdx = startIdx; // Expanded jump point nearest the goal, for partial results
+        let closestH = startH;
+        
+        while (!heap.isEmpty()) {
+            const f = heap.peekKey();
+            const cIdx = heap.pop();
+            const current = { x: cIdx % width, y: Math.floor(cIdx / width) };
+            closed[cIdx] = 1;
+            nodesExplored++;
+            
+            if (current.x === goal.x && current.y === goal.y) {
+                this.limitCells = null;
+                return { path: this.reconstructPath(cameFrom, cIdx), cost: gScore[cIdx], nodesExplored };
+            }
+            const currentH = this.heuristic(current, goal);
+            if (currentH < closestH) {
+                closestH = currentH;
+                closestIdx = cIdx;
+            }
+            if (this.isOverBudget(nodesExplored, f)) {
+                this.limitCells = null;
+                return { path: this.reconstructPath(cameFrom, closestIdx), cost: gScore[closestIdx], nodesExplored, partial: true };
+            }
+            
+            const parentIdx = cameFrom[cIdx];
+            const directions = parentIdx === -1 || expandAll[cIdx]
+                ? EIGHT_DIRECTIONS
+                : this.getPrunedDirections(current, Math.sign(current.x - parentIdx % width), Math.sign(current.y - Math.floor(parentIdx / width)));
+            
+            for (const [dx, dy] of directions) {
+                const jump = this.jump(current, dx, dy, goal);
+                if (!jump) continue;
+                const nIdx = indexOf(jump.point.x, jump.point.y);
+                if (closed[nIdx]) continue;
+                
+                const tentativeG = gScore[cIdx] + jump.cost;
+                if (tentativeG >= gScore[nIdx]) continue;
+                
+                cameFrom[nIdx] = cIdx;
+                gScore[nIdx] = tentativeG;
+                expandAll[nIdx] = jump.stalled ? 1 : 0;
+                heap.push(nIdx, tentativeG + this.heuristic(jump.point, goal));
+            }
+        }
+        
+        this.limitCells = null;
+        return { path: [], cost: 0, nodesExplored };
+    }
     
     /**
-     * Calculate movement cost between two nodes
+     * Whether an open cell has a move to or from a neighbour that breaks a slope
+     * limit, memoised for the current jump point search
      */
-    private getMovementCost(from: Point, to: Point): number {
+    private isAtLimit(x: number, y: number): boolean {
+        const index = y * this.heightData.width + x;
+        if (this.limitCells && this.limitCells[index]) return this.limitCells[index] === 2;
+        
+        let atLimit = false;
+        for (const [dx, dy] of EIGHT_DIRECTIONS) {
+            const neighbour = { x: x + dx, y: y + dy };
+            if (!this.isValidPoint(neighbour) || this.isBlocked(neighbour)) continue;
+            if (!isFinite(this.getMovementCost({ x, y }, neighbour)) || !isFinite(this.getMovementCost(neighbour, { x, y }))) {
+                atLimit = true;
+                break;
+            }
+        }
+        if (this.limitCells) this.limitCells[index] = atLimit ? 2 : 1;
+        return atLimit;
+    }
+    
+    /**
+     * Directions worth following from a jump point reached moving (dx, dy):
+     * straight on, the diagonal's components, and forced turns around blocked
+     * cells. A point rover may cut corners diagonally, as in grid A*; a rover
+     * with a radius may not, which changes where turns are forced.
+     */
+    private getPrunedDirections(point: Point, dx: number, dy: number): Array<[number, number]> {
+        const free = (x: number, y: number) => this.isValidPoint({ x, y }) && !this.isBlocked({ x, y });
+        const cutCorners = this.options.roverRadius === 0;
+        const { x, y } = point;
+        const directions: Array<[number, number]> = [];
+        if (dx !== 0 && dy !== 0) {
+            directions.push([dx, 0], [0, dy], [dx, dy]);
+            if (cutCorners) {
+                if (!free(x - dx, y)) directions.push([-dx, dy]);
+                if (!free(x, y - dy)) directions.push([dx, -dy]);
+            }
+        } else if (dx !== 0) {
+            directions.push([dx, 0]);
+            for (const side of [-1, 1]) {
+                if (cutCorners ? !free(x, y + side) : !free(x - dx, y + side)) {
+                    directions.push([dx, side]);
+                    if (!cutCorners) directions.push([0, side]);
+                }
+            }
+        } else {
+            directions.push([0, dy]);
+            for (const side of [-1, 1]) {
+                if (cutCorners ? !free(x + side, y) : !free(x + side, y - dy)) {
+                    directions.push([side, dy]);
+                    if (!cutCorners) directions.push([side, 0]);
+                }
+            }
+        }
+        return directions;
+    }
+    
+    /**
+     * Follow one direction from a cell until the goal, a forced neighbour, or a
+     * cell at a slope limit (stalled); null when nothing is reachable
+     */
+    private jump(from: Point, dx: number, dy: number, goal: Point): { point: Point; cost: number; stalled: boolean } | null {
+        const free = (x: number, y: number) => this.isValidPoint({ x, y }) && !this.isBlocked({ x, y });
+        const cutCorners = this.options.roverRadius === 0;
+        let x = from.x;
+        let y = from.y;
+        let cost = 0;
+        
+        while (true) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (!free(nx, ny)) break;
+            if (dx !== 0 && dy !== 0 && !cutCorners && (!free(nx, y) || !free(x, ny))) break;
+            const moveCost = this.getMovementCost({ x, y }, { x: nx, y: ny });
+            if (!isFinite(moveCost)) break; // Too steep this way
+            x = nx;
+            y = ny;
+            cost += moveCost;
+            
+            if (x === goal.x && y === goal.y) return { point: { x, y }, cost, stalled: false };
+            if (this.isAtLimit(x, y)) return { point: { x, y }, cost, stalled: true };
+            
+            let forced: boolean;
+            if (dx !== 0 && dy !== 0) {
+                forced = cutCorners &&
+                    ((!free(x - dx, y) && free(x - dx, y + dy)) || (!free(x, y - dy) && free(x + dx, y - dy)));
+                // A diagonal also stops where a straight jump from it finds something
+                forced ||= this.jump({ x, y }, dx, 0, goal) !== null || this.jump({ x, y }, 0, dy, goal) !== null;
+            } else if (dx !== 0) {
+                forced = cutCorners
+                    ? (!free(x, y - 1) && free(x + dx, y - 1)) || (!free(x, y + 1) && free(x + dx, y + 1))
+                    : (!free(x - dx, y - 1) && free(x, y - 1)) || (!free(x - dx, y + 1) && free(x, y + 1));
+            } else {
+                forced = cutCorners
+                    ? (!free(x - 1, y) && free(x - 1, y + dy)) || (!free(x + 1, y) && free(x + 1, y + dy))
+                    : (!free(x - 1, y - dy) && free(x - 1, y)) || (!free(x + 1, y - dy) && free(x + 1, y));
+            }
+            if (forced) return { point: { x, y }, cost, stalled: false };
+        }
+        return null;
+    }
+    
+    /**
+     * Cells from the search's origin to the given cell, following cameFrom
+     */
+    private reconstructPath(cameFrom: Int32Array, endIdx: number): Point[] {
+        const width = this.heightData.width;
+        const path: Point[] = [];
+        for (let idx = endIdx; idx !== -1; idx = cameFrom[idx]) {
+            path.push({ x: idx % width, y: Math.floor(idx / width) });
+        }
+        return path.reverse();
+    }
+    
+    /**
+     * Cells reachable in one move (4 or 8 directions) that are not blocked
+     */
+    getNeighbours(point: Point): Point[] {
+        const { width, height } = this.heightData;
+        const neighbours: Point[] = [];
+        for (const [dx, dy] of this.options.diagonalMovement ? EIGHT_DIRECTIONS : FOUR_DIRECTIONS) {
+            const x = point.x + dx;
+            const y = point.y + dy;
+            if (x < 0 || x >= width || y < 0 || y >= height) continue;
+            if (this.isBlocked({ x, y })) continue; // No elevation data, rock or rover hazard
+            if (dx !== 0 && dy !== 0 && this.isCornerCut(point, { x, y })) continue;
+            neighbours.push({ x, y });
+        }
+        return neighbours;
+    }
+    
+    /**
+     * A rover with width cannot squeeze diagonally between two blocked cells
+     */
+    private isCornerCut(from: Point, to: Point): boolean {
+        return this.options.roverRadius > 0 &&
+            (this.isBlocked({ x: to.x, y: from.y }) || this.isBlocked({ x: from.x, y: to.y }));
+    }
+    
+    /**
+     * Cost of driving straight from one cell to another, or Infinity when the
+     * segment crosses a blocked cell or breaks a slope limit (line of sight).
+     * The cells on the line are priced as grid moves, scaled to the straight length.
+     */
+    private getSegmentCost(from: Point, to: Point): number {
+        let cost = 0;
+        let stepLength = 0;
+        let previous = from;
+        for (const cell of this.getLineCells(from, to)) {
+            if (this.isBlocked(cell)) return Infinity;
+            if (cell.x !== previous.x && cell.y !== previous.y && this.isCornerCut(previous, cell)) return Infinity;
+            const moveCost = this.getMovementCost(previous, cell);
+            if (!isFinite(moveCost)) return Infinity;
+            cost += moveCost;
+            stepLength += this.getDistance(previous, cell);
+            previous = cell;
+        }
+        return stepLength > 0 ? cost * this.getDistance(from, to) / stepLength : 0;
+    }
+    
+    /**
+     * Cells on the straight line between two cells (Bresenham), excluding the first
+     */
+    private getLineCells(from: Point, to: Point): Point[] {
+        const cells: Point[] = [];
+        const dx = Math.abs(to.x - from.x);
+        const dy = Math.abs(to.y - from.y);
+        const sx = to.x > from.x ? 1 : -1;
+        const sy = to.y > from.y ? 1 : -1;
+        let error = dx - dy;
+        let { x, y } = from;
+        while (x !== to.x || y !== to.y) {
+            const error2 = 2 * error;
+            if (error2 > -dy) { error -= dy; x += sx; }
+            if (error2 < dx) { error += dx; y += sy; }
+            cells.push({ x, y });
+        }
+        return cells;
+    }
+    
+    /**
+     * Cost of a move between neighbouring cells under the current objective;
+     * Infinity when it breaks a climb, descent or cross-slope limit
+     */
+    getMovementCost(from: Point, to: Point): number {
         const distance = this.getDistance(from, to);
-        const slope = this.calculateSlope(from, to);
+        const pitch = this.calculateSlope(from, to); // Signed: positive uphill
+        const crossSlope = this.calculateCrossSlope(from, to);
+        const maxClimb = this.options.maxClimb ?? this.options.maxSlope;
+        const maxDescent = this.options.maxDescent ?? this.options.maxSlope;
+        const maxCrossSlope = this.options.maxCrossSlope ?? this.options.maxSlope;
         
-        // Check if slope exceeds maximum allowed
-        if (slope > this.options.maxSlope) {
+        // Check the limits for this heading
+        if (pitch > maxClimb || -pitch > maxDescent || crossSlope > maxCrossSlope) {
             return Infinity; // Impossible to traverse
         }
         
-        // Calculate cost: distance + slope penalty
-        const distanceCost = distance * this.options.distanceWeight;
-        const slopeCost = (slope / this.options.maxSlope) * this.options.slopeWeight;
+        const metres = distance * this.cellSize;
+        if (this.options.objective !== 'balanced') {
+            const rise = this.getRise(from, to);
+            const ground = Math.hypot(metres, rise);
+            if (this.options.objective === 'energy') return EnergyModel.moveEnergy(ground, rise, this.options.energyEfficiency);
+            if (this.options.objective === 'time') return EnergyModel.moveTime(ground, rise, this.options.speed);
+            return ground;
+        }
+        
+        // Calculate cost per metre: distance + climb, descent and tilt penalties.
+        // Descending is cheaper than climbing but never cheaper than flat ground.
+        const pitchPenalty = pitch >= 0 ? pitch / maxClimb : 0.5 * (-pitch / maxDescent);
+        const tiltPenalty = crossSlope / maxCrossSlope;
+        const slopeCost = (pitchPenalty + tiltPenalty) * this.options.slopeWeight * metres;
+        
+        return metres * this.options.distanceWeight + slopeCost + this.getTerrainCost(to) * metres;
+    }
+    
+    /**
+     * Sideways tilt in degrees when driving from one cell to the next: the part of
+     * the ground gradient (central differences, averaged over both cells) across the heading
+     */
+    private calculateCrossSlope(from: Point, to: Point): number {
+        const a = this.getGradient(from);
+        const b = this.getGradient(to);
+        const dx = to.x - from.x;
+        const dy = to.y - from.y;
+        const length = Math.sqrt(dx * dx + dy * dy);
+        // Unit vector to the left of the heading
+        const across = ((a.x + b.x) / 2) * (-dy / length) + ((a.y + b.y) / 2) * (dx / length);
+        return Math.atan(Math.abs(across)) * (180 / Math.PI);
+    }
+    
+    /**
+     * Height gradient at a cell in metres per metre
+     */
+    private getGradient(point: Point): Point {
+        const { data, width, height } = this.heightData;
+        const x0 = Math.max(0, point.x - 1);
+        const x1 = Math.min(width - 1, point.x + 1);
+        const y0 = Math.max(0, point.y - 1);
+        const y1 = Math.min(height - 1, point.y + 1);
+        const row = point.y * width;
+        return {
+            x: x1 > x0 ? (data[row + x1] - data[row + x0]) * this.verticalUnits / ((x1 - x0) * this.cellSize) : 0,
+            y: y1 > y0 ? (data[y1 * width + point.x] - data[y0 * width + point.x]) * this.verticalUnits / ((y1 - y0) * this.cellSize) : 0
+        };
+    }
+    
+    /**
+     * Per-metre penalty from the terrain analysis layers at a cell; layers are
+     * only computed when their weight is non-zero
+     */
+    private getTerrainCost(point: Point): number {
+        const { roughnessWeight, curvatureWeight, planCurvatureWeight, aspectWeight, preferredAspect, traversability, hazardWeight } = this.options;
+        const index = point.y * this.heightData.width + point.x;
+        let cost = traversability ? traversability.hazard[index] * hazardWeight : 0;
         
-        return distanceCost + slopeCost;
+        if (roughnessWeight > 0) {
+            cost += TerrainAnalysis.getLayer(this.heightData, 'roughness')[index] * roughnessWeight;
+        }
+        if (curvatureWeight > 0) {
+            cost += Math.abs(TerrainAnalysis.getLayer(this.heightData, 'profileCurvature')[index]) * curvatureWeight;
+        }
+        if (planCurvatureWeight > 0) {
+            cost += Math.abs(TerrainAnalysis.getLayer(this.heightData, 'planCurvature')[index]) * planCurvatureWeight;
+        }
+        if (aspectWeight > 0) {
+            const aspect = TerrainAnalysis.getLayer(this.heightData, 'aspect')[index];
+            if (aspect !== FLAT_ASPECT) {
+                // 0 when facing the preferred direction, 1 when facing directly away
+                const misalignment = (1 - Math.cos((aspect - preferredAspect) * Math.PI / 180)) / 2;
+                const steepness = Math.min(1, TerrainAnalysis.getLayer(this.heightData, 'slope')[index] / this.options.maxSlope);
+                cost += misalignment * steepness * aspectWeight;
+            }
+        }
+        return cost;
     }
     
     /**
      * Calculate slope between two points
      */
     private calculateSlope(from: Point, to: Point): number {
-        const heightFrom = this.heightData.data[from.y][from.x];
-        const heightTo = this.heightData.data[to.y][to.x];
         const distance = this.getDistance(from, to);
         
-        // Use signed height difference to distinguish uphill/downhill
-        const heightDiff = heightTo - heightFrom;
-        return Math.atan(heightDiff / distance) * (180 / Math.PI);
+        // Use signed height difference in metres to distinguish uphill/downhill
+        return Math.atan(this.getRise(from, to) / (distance * this.cellSize)) * (180 / Math.PI);
+    }
+    
+    /**
+     * Signed height change in metres from one cell to another
+     */
+    private getRise(from: Point, to: Point): number {
+        const { data, width } = this.heightData;
+        return (data[to.y * width + to.x] - data[from.y * width + from.x]) * this.verticalUnits;
     }
     
     /**
@@ -182,10 +949,168 @@ export class PathfindingEngine {
     }
     
     /**
-     * Heuristic function (Euclidean distance)
+     * Heuristic function: straight-line metres priced at the cheapest rate the
+     * objective allows, so it never overestimates
+     */
+    heuristic(from: Point, to: Point): number {
+        const metres = this.getDistance(from, to) * this.cellSize;
+        switch (this.options.objective) {
+            case 'distance':
+                return metres;
+            case 'energy':
+                return metres * EnergyModel.minEnergyPerMetre(this.options.maxDescent ?? this.options.maxSlope, this.options.energyEfficiency);
+            case 'time':
+                return metres / this.options.speed;
+            default:
+                return metres * this.options.distanceWeight;
+        }
+    }
+    
+    /**
+     * Check if a cell cannot be entered: no elevation data in the source DEM,
+     * a rock too small for the grid sits in it, or the rover hazard map rules it out
      */
-    private heuristic(from: Point, to: Point): number {
-        return this.getDistance(from, to) * this.options.distanceWeight;
+    private isBlocked(point: Point): boolean {
+        return this.getBlockedMask()[point.y * this.heightData.width + point.x] === 1;
+    }
+    
+    /**
+     * Cells the rover centre may not occupy. Nodata and rocks are grown by the
+     * rover radius (configuration space), so gaps narrower than the rover close;
+     * traversability obstacles already describe the whole footprint and are used as is.
+     */
+    getBlockedMask(): Uint8Array {
+        if (this.blockedMask) return this.blockedMask;
+        
+        const { width, height, noDataMask, obstacleMask } = this.heightData;
+        const blocked = new Uint8Array(width * height);
+        const kernel = this.getRoverKernel();
+        
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const index = y * width + x;
+                if (!noDataMask?.[index] && !obstacleMask?.[index]) continue;
+                for (const [dx, dy] of kernel) {
+                    const nx = x + dx;
+                    const ny = y + dy;
+                    if (nx >= 0 && nx < width && ny >= 0 && ny < height) blocked[ny * width + nx] = 1;
+                }
+            }
+        }
+        
+        const obstacles = this.options.traversability?.obstacles;
+        if (obstacles) {
+            for (let i = 0; i < blocked.length; i++) blocked[i] |= obstacles[i];
+        }
+        
+        this.blockedMask = blocked;
+        return blocked;
+    }
+    
+    /**
+     * Record newly found rocks in the height data's obstacle mask and grow them
+     * into the blocked mask in place; returns the cells that became blocked, so
+     * an incremental planner can repair just those
+     */
+    addObstacles(cells: Point[]): Point[] {
+        const { width, height } = this.heightData;
+        this.heightData.obstacleMask ??= new Uint8Array(width * height);
+        const obstacleMask = this.heightData.obstacleMask;
+        const blocked = this.getBlockedMask();
+        const kernel = this.getRoverKernel();
+        const changed: Point[] = [];
+        
+        for (const cell of cells) {
+            if (!this.isValidPoint(cell)) continue;
+            obstacleMask[cell.y * width + cell.x] = 1;
+            for (const [dx, dy] of kernel) {
+                const x = cell.x + dx;
+                const y = cell.y + dy;
+                if (x < 0 || x >= width || y < 0 || y >= height || blocked[y * width + x]) continue;
+                blocked[y * width + x] = 1;
+                changed.push({ x, y });
+            }
+        }
+        return changed;
+    }
+    
+    /**
+     * Rebuild the blocked mask in place where the masks or the traversability
+     * map changed in a region (e.g. terrain the rover has just seen). Rocks
+     * block cells a rover radius away, so the region grows by that much;
+     * returns the cells that were rebuilt.
+     */
+    refreshRegion(region: CellRegion): CellRegion {
+        const { width, height, noDataMask, obstacleMask } = this.heightData;
+        const kernel = this.getRoverKernel();
+        const reach = kernel.reduce((most, [dx, dy]) => Math.max(most, Math.abs(dx), Math.abs(dy)), 0);
+        const x0 = Math.max(0, region.x - reach);
+        const y0 = Math.max(0, region.y - reach);
+        const x1 = Math.min(width, region.x + region.width + reach);
+        const y1 = Math.min(height, region.y + region.height + reach);
+        const grown = { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+        if (!this.blockedMask) return grown; // Built from scratch when first needed
+        
+        const blocked = this.blockedMask;
+        const obstacles = this.options.traversability?.obstacles;
+        for (let y = y0; y < y1; y++) {
+            for (let x = x0; x < x1; x++) {
+                const index = y * width + x;
+                let value = obstacles?.[index] ?? 0;
+                // The kernel is symmetric: a cell is blocked when a masked cell lies within it
+                for (let k = 0; k < kernel.length && !value; k++) {
+                    const nx = x + kernel[k][0];
+                    const ny = y + kernel[k][1];
+                    if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+                    const n = ny * width + nx;
+                    if (noDataMask?.[n] || obstacleMask?.[n]) value = 1;
+                }
+                blocked[index] = value;
+            }
+        }
+        return grown;
+    }
+    
+    /**
+     * Copy a patch taken from another engine's terrain into this one's, then
+     * bring the analysis layers and blocked mask up to date there; returns the
+     * cells that were rebuilt, as refreshRegion does
+     */
+    applyTerrainPatch(patch: TerrainPatch): CellRegion {
+        const { region, heights, obstacleMask, hazard, obstacles } = patch;
+        const { width, height } = this.heightData;
+        const map = this.options.traversability;
+        if (obstacleMask) this.heightData.obstacleMask ??= new Uint8Array(width * height);
+        
+        for (let row = 0; row < region.height; row++) {
+            const from = row * region.width;
+            const to = (region.y + row) * width + region.x;
+            this.heightData.data.set(heights.subarray(from, from + region.width), to);
+            if (obstacleMask) this.heightData.obstacleMask!.set(obstacleMask.subarray(from, from + region.width), to);
+            if (map && hazard && obstacles) {
+                map.hazard.set(hazard.subarray(from, from + region.width), to);
+                map.obstacles.set(obstacles.subarray(from, from + region.width), to);
+            }
+        }
+        TerrainAnalysis.updateRegion(this.heightData, region);
+        return this.refreshRegion(region);
+    }
+    
+    /**
+     * Offsets of the cells whose squares the rover disc overlaps when centred on a cell
+     */
+    private getRoverKernel(): Array<[number, number]> {
+        const radius = this.options.roverRadius / this.cellSize;
+        const reach = Math.ceil(radius + 0.5);
+        const kernel: Array<[number, number]> = [];
+        for (let dy = -reach; dy <= reach; dy++) {
+            for (let dx = -reach; dx <= reach; dx++) {
+                const gapX = Math.max(0, Math.abs(dx) - 0.5);
+                const gapY = Math.max(0, Math.abs(dy) - 0.5);
+                if (Math.hypot(gapX, gapY) < radius || (dx === 0 && dy === 0)) kernel.push([dx, dy]);
+            }
+        }
+        return kernel;
     }
     
     /**
@@ -202,7 +1127,11 @@ export class PathfindingEngine {
      * Update pathfinding options
      */
     updateOptions(newOptions: Partial<PathfindingOptions>): void {
+        const previous = this.options;
         this.options = { ...this.options, ...newOptions };
+        if (this.options.roverRadius !== previous.roverRadius || this.options.traversability !== previous.traversability) {
+            this.blockedMask = null;
+        }
     }
     
     /**
@@ -213,56 +1142,110 @@ export class PathfindingEngine {
     }
     
     /**
-     * Calculate slope at a specific point
+     * Height data the engine plans over
      */
-    getSlopeAt(point: Point): number {
-        if (!this.isValidPoint(point)) return 0;
+    getHeightData(): HeightData {
+        return this.heightData;
+    }
+    
+    /**
+     * Routes between two cells that trade distance, energy, steepness and hazard
+     * against each other: several searches with different objectives and slope
+     * caps, keeping only routes no other route beats on every metric
+     */
+    findAlternatives(start: Point, goal: Point, maxRoutes = 5): RouteAlternative[] {
+        const saved = this.options;
+        const found: Array<{ label: string; path: Point[] }> = [];
+        try {
+            for (const search of ALTERNATIVE_SEARCHES) {
+                this.options = { ...saved, ...search.options };
+                let label = search.label;
+                if (search.slopeCap !== undefined) {
+                    const cap = (limit: number | null) => (limit ?? saved.maxSlope) * search.slopeCap!;
+                    this.options.maxClimb = cap(saved.maxClimb);
+                    this.options.maxDescent = cap(saved.maxDescent);
+                    this.options.maxCrossSlope = cap(saved.maxCrossSlope);
+                    label += ` (≤${Math.round(this.options.maxClimb)}° climb)`;
+                }
+                const result = this.findPath(start, goal);
+                if (result.success) found.push({ label, path: result.path });
+            }
+        } finally {
+            this.options = saved;
+        }
         
-        const { x, y } = point;
-        const centerHeight = this.heightData.data[y][x];
-        let maxSlope = 0;
-        
-        // Check slopes to all adjacent cells
-        const directions = [
-            { dx: -1, dy: 0 }, { dx: 1, dy: 0 },
-            { dx: 0, dy: -1 }, { dx: 0, dy: 1 },
-            { dx: -1, dy: -1 }, { dx: 1, dy: -1 },
-            { dx: -1, dy: 1 }, { dx: 1, dy: 1 }
-        ];
-        
-        for (const { dx, dy } of directions) {
-            const newX = x + dx;
-            const newY = y + dy;
-            
-            if (newX >= 0 && newX < this.heightData.width && 
-                newY >= 0 && newY < this.heightData.height) {
-                
-                const neighborHeight = this.heightData.data[newY][newX];
-                const distance = Math.sqrt(dx * dx + dy * dy);
-                const slope = Math.atan(Math.abs(centerHeight - neighborHeight) / distance) * (180 / Math.PI);
-                
-                maxSlope = Math.max(maxSlope, slope);
+        const candidates: RouteAlternative[] = [];
+        for (const { label, path } of found) {
+            const stats = this.getPathStats(path);
+            // Searches that land on the same route share one entry
+            const same = candidates.find((other) => PARETO_METRICS.every((key) => Math.abs(other.stats[key] - stats[key]) < 1e-6));
+            if (same) {
+                same.label += ` / ${label}`;
+            } else {
+                candidates.push({ label, path, stats });
             }
         }
         
-        return maxSlope;
+        const dominates = (a: PathStats, b: PathStats) =>
+            PARETO_METRICS.every((key) => a[key] <= b[key]) && PARETO_METRICS.some((key) => a[key] < b[key]);
+        return candidates
+            .filter((route) => !candidates.some((other) => dominates(other.stats, route.stats)))
+            .sort((a, b) => a.stats.distance - b.stats.distance)
+            .slice(0, maxRoutes);
     }
     
     /**
-     * Generate slope map for visualization
+     * Distance, energy, driving time, steepest slope and hazard exposure of a
+     * path, whichever objective found it. Without a hazard map, slope as a
+     * fraction of maxSlope stands in for hazard.
      */
-    generateSlopeMap(): number[][] {
-        const slopeMap: number[][] = [];
+    getPathStats(path: Point[]): PathStats {
+        const stats: PathStats = { distance: 0, energy: 0, duration: 0, maxSlope: 0, hazard: 0 };
+        const slope = TerrainAnalysis.getLayer(this.heightData, 'slope');
+        const hazard = this.options.traversability?.hazard;
+        const width = this.heightData.width;
+        if (path.length > 0) stats.maxSlope = slope[path[0].y * width + path[0].x];
         
-        for (let y = 0; y < this.heightData.height; y++) {
-            const row: number[] = [];
-            for (let x = 0; x < this.heightData.width; x++) {
-                row.push(this.getSlopeAt({ x, y }));
+        // Any-angle segments are walked cell by cell, scaled to their straight length
+        for (let i = 1; i < path.length; i++) {
+            const cells = this.getLineCells(path[i - 1], path[i]);
+            let stepLength = 0;
+            let previous = path[i - 1];
+            for (const cell of cells) {
+                stepLength += this.getDistance(previous, cell);
+                previous = cell;
+            }
+            const scale = this.getDistance(path[i - 1], path[i]) / stepLength;
+            
+            previous = path[i - 1];
+            for (const cell of cells) {
+                const index = cell.y * width + cell.x;
+                const rise = this.getRise(previous, cell);
+                const ground = Math.hypot(this.getDistance(previous, cell) * scale * this.cellSize, rise);
+                stats.distance += ground;
+                stats.energy += EnergyModel.moveEnergy(ground, rise, this.options.energyEfficiency);
+                stats.duration += EnergyModel.moveTime(ground, rise, this.options.speed);
+                stats.maxSlope = Math.max(stats.maxSlope, slope[index]);
+                stats.hazard += ground * (hazard ? hazard[index] : Math.min(1, slope[index] / this.options.maxSlope));
+                previous = cell;
             }
-            slopeMap.push(row);
         }
-        
-        return slopeMap;
+        return stats;
+    }
+    
+    /**
+     * Calculate slope at a specific point
+     */
+    getSlopeAt(point: Point): number {
+        if (!this.isValidPoint(point)) return 0;
+        return TerrainAnalysis.slopeAt(this.heightData, point.x, point.y);
+    }
+    
+    /**
+     * Generate slope map for visualization
+     */
+    generateSlopeMap(): Float32Array {
+        return TerrainAnalysis.getLayer(this.heightData, 'slope').slice();
     }
     
     /**
@@ -300,7 +1283,7 @@ export class PathfindingEngine {
             const x = Math.round(from.x + (to.x - from.x) * t);
             const y = Math.round(from.y + (to.y - from.y) * t);
             
-            if (!this.isValidPoint({ x, y })) return false;
+            if (!this.isValidPoint({ x, y }) || this.isBlocked({ x, y })) return false;
             
             const slope = this.getSlopeAt({ x, y });
             if (slope > this.options.maxSlope) return false;
@@ -309,48 +1292,3 @@ export class PathfindingEngine {
         return true;
     }
 }
-
-class MinHeap<T> {
-    private data: T[] = [];
-    private compare: (a: T, b: T) => number;
-    constructor(compare: (a: T, b: T) => number) { this.compare = compare; }
-    isEmpty(): boolean { return this.data.length === 0; }
-    push(item: T): void { this.data.push(item); this.bubbleUp(this.data.length - 1); }
-    pop(): T | undefined {
-        if (this.data.length === 0) return undefined;
-        const top = this.data[0];
-        const end = this.data.pop()!;
-        if (this.data.length > 0) { this.data[0] = end; this.bubbleDown(0); }
-        return top;
-    }
-    decreaseIfBetter(match: (n: T) => boolean, update: (n: T) => T): void {
-        const idx = this.data.findIndex(match);
-        if (idx >= 0) {
-            this.data[idx] = update(this.data[idx]);
-            this.bubbleUp(idx);
-        }
-    }
-    private bubbleUp(idx: number): void {
-        while (idx > 0) {
-            const parent = Math.floor((idx - 1) / 2);
-            if (this.compare(this.data[idx], this.data[parent]) < 0) {
-                [this.data[idx], this.data[parent]] = [this.data[parent], this.data[idx]];
-                idx = parent;
-            } else break;
-        }
-    }
-    private bubbleDown(idx: number): void {
-        const length = this.data.length;
-        while (true) {
-            const left = 2 * idx + 1;
-            const right = 2 * idx + 2;
-            let smallest = idx;
-            if (left < length && this.compare(this.data[left], this.data[smallest]) < 0) smallest = left;
-            if (right < length && this.compare(this.data[right], this.data[smallest]) < 0) smallest = right;
-            if (smallest !== idx) {
-                [this.data[idx], this.data[smallest]] = [this.data[smallest], this.data[idx]];
-                idx = smallest;
-            } else break;
-        }
-    }
-}
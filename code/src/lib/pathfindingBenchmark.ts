@@ -0,0 +1,286 @@
+/**
+ * Pathfinding Benchmark - Times the planner's open list on procedural maps of
+ * several sizes. The same A* runs over the same terrain twice: once with the
+ * original object heap (PathNode objects, linear-scan decrease-key) and once
+ * with IndexedMinHeap, so the difference is the open list alone. The full
+ * PathfindingEngine.findPath time is listed alongside for context. The legacy
+ * heap takes minutes on the largest maps, so runInWorker() keeps that off the
+ * page's thread.
+ */
+
+import { HeightData, TerrainLoader } from './terrainLoader.js';
+import { IndexedMinHeap } from './indexedHeap.js';
+import { PathfindingEngine } from './pathfinding.js';
+
+export interface BenchmarkRow {
+    size: number; // Map side in cells
+    nodesExplored: number; // Expansions of the reference A*
+    legacyMs: number; // Reference A* with the object heap
+    indexedMs: number; // Reference A* with IndexedMinHeap
+    speedup: number; // legacyMs / indexedMs
+    engineMs: number; // PathfindingEngine.findPath, A* with default options
+}
+
+/**
+ * Messages exchanged with pathfindingBenchmarkWorker.ts
+ */
+export interface BenchmarkRequest {
+    sizes?: number[];
+    repeats?: number;
+}
+
+export type BenchmarkResponse =
+    | { type: 'row'; row: BenchmarkRow }
+    | { type: 'done'; rows: BenchmarkRow[] }
+    | { type: 'error'; message: string };
+
+// Penalty per unit of grade in the reference search's move cost
+const SLOPE_WEIGHT = 2;
+
+// From this map side up the legacy heap is timed once, not best of `repeats`
+const LEGACY_SINGLE_RUN_SIZE = 1024;
+
+const DIRECTIONS: ReadonlyArray<[number, number]> = [
+    [-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]
+];
+
+/**
+ * The open list the planner used before IndexedMinHeap, kept as the baseline
+ */
+interface LegacyNode {
+    x: number;
+    y: number;
+    g: number;
+    h: number;
+    f: number;
+    parent: LegacyNode | null;
+}
+
+class LegacyMinHeap {
+    private data: LegacyNode[] = [];
+    isEmpty(): boolean { return this.data.length === 0; }
+    push(item: LegacyNode): void { this.data.push(item); this.bubbleUp(this.data.length - 1); }
+    pop(): LegacyNode | undefined {
+        if (this.data.length === 0) return undefined;
+        const top = this.data[0];
+        const end = this.data.pop()!;
+        if (this.data.length > 0) { this.data[0] = end; this.bubbleDown(0); }
+        return top;
+    }
+    decreaseIfBetter(match: (n: LegacyNode) => boolean, update: (n: LegacyNode) => LegacyNode): void {
+        const idx = this.data.findIndex(match);
+        if (idx >= 0) {
+            this.data[idx] = update(this.data[idx]);
+            this.bubbleUp(idx);
+        }
+    }
+    private bubbleUp(idx: number): void {
+        while (idx > 0) {
+            const parent = Math.floor((idx - 1) / 2);
+            if (this.data[idx].f < this.data[parent].f) {
+                [this.data[idx], this.data[parent]] = [this.data[parent], this.data[idx]];
+                idx = parent;
+            } else break;
+        }
+    }
+    private bubbleDown(idx: number): void {
+        const length = this.data.length;
+        while (true) {
+            const left = 2 * idx + 1;
+            const right = 2 * idx + 2;
+            let smallest = idx;
+            if (left < length && this.data[left].f < this.data[smallest].f) smallest = left;
+            if (right < length && this.data[right].f < this.data[smallest].f) smallest = right;
+            if (smallest !== idx) {
+                [this.data[idx], this.data[smallest]] = [this.data[smallest], this.data[idx]];
+                idx = smallest;
+            } else break;
+        }
+    }
+}
+
+export class PathfindingBenchmark {
+    /**
+     * Time both open lists on square maps of the given sizes, corner to corner;
+     * each figure is the best of `repeats` runs, except the legacy heap on maps
+     * of 1024² and up, which runs once. onRow hears each size as it finishes.
+     */
+    static run(sizes: number[] = [128, 256, 512, 1024], repeats = 3, onRow?: (row: BenchmarkRow) => void): BenchmarkRow[] {
+        return sizes.map((size) => {
+            const heightData = TerrainLoader.generateProceduralTerrain(size, size, {
+                seed: 42,
+                noiseScale: 0.02,
+                cellSize: 2,
+                verticalUnits: 30
+            });
+            const goal = size - 2;
+            const legacy = this.time(size >= LEGACY_SINGLE_RUN_SIZE ? 1 : repeats, () => this.searchLegacy(heightData, goal));
+            const indexed = this.time(repeats, () => this.searchIndexed(heightData, goal));
+            const engine = new PathfindingEngine(heightData, { maxSlope: 90 });
+            const engineRun = this.time(repeats, () => engine.findPath({ x: 1, y: 1 }, { x: goal, y: goal }).nodesExplored);
+
+            const row = {
+                size,
+                nodesExplored: indexed.nodesExplored,
+                legacyMs: legacy.ms,
+                indexedMs: indexed.ms,
+                speedup: legacy.ms / Math.max(indexed.ms, 1e-3),
+                engineMs: engineRun.ms
+            };
+            onRow?.(row);
+            return row;
+        });
+    }
+
+    /**
+     * Run the benchmark in pathfindingBenchmarkWorker.ts, or on this thread
+     * when workers are unavailable
+     */
+    static runInWorker(request: BenchmarkRequest = {}, onRow?: (row: BenchmarkRow) => void): Promise<BenchmarkRow[]> {
+        if (typeof Worker === 'undefined') {
+            return Promise.resolve(this.run(request.sizes, request.repeats, onRow));
+        }
+
+        return new Promise((resolve, reject) => {
+            const worker = new Worker(new URL('./pathfindingBenchmarkWorker.ts', import.meta.url), { type: 'module' });
+            worker.onmessage = (event: MessageEvent<BenchmarkResponse>) => {
+                const message = event.data;
+                if (message.type === 'row') {
+                    onRow?.(message.row);
+                    return;
+                }
+                worker.terminate();
+                if (message.type === 'done') resolve(message.rows);
+                else reject(new Error(message.message));
+            };
+            worker.onerror = (event) => {
+                worker.terminate();
+                reject(new Error(event.message || 'Benchmark worker failed'));
+            };
+            worker.postMessage(request);
+        });
+    }
+
+    /**
+     * Plain-text table of benchmark rows, for the console
+     */
+    static format(rows: BenchmarkRow[]): string {
+        const header = 'size       nodes   legacy ms  indexed ms  speedup  engine ms';
+        const lines = rows.map((row) => [
+            `${row.size}²`.padEnd(6),
+            row.nodesExplored.toString().padStart(10),
+            row.legacyMs.toFixed(1).padStart(11),
+            row.indexedMs.toFixed(1).padStart(11),
+            `${row.speedup.toFixed(1)}×`.padStart(8),
+            row.engineMs.toFixed(1).padStart(10)
+        ].join(' '));
+        return [header, ...lines].join('\n');
+    }
+
+    private static time(repeats: number, search: () => number): { ms: number; nodesExplored: number } {
+        let best = Infinity;
+        let nodesExplored = 0;
+        for (let i = 0; i < Math.max(1, repeats); i++) {
+            const start = performance.now();
+            nodesExplored = search();
+            best = Math.min(best, performance.now() - start);
+        }
+        return { ms: best, nodesExplored };
+    }
+
+    /**
+     * Metres of a move between neighbouring cells, plus a penalty for its grade
+     */
+    private static moveCost(heightData: HeightData, from: number, to: number, diagonal: boolean): number {
+        const run = (diagonal ? Math.SQRT2 : 1) * heightData.cellSize;
+        const rise = Math.abs(heightData.data[to] - heightData.data[from]) * heightData.verticalUnits;
+        return run * (1 + SLOPE_WEIGHT * rise / run);
+    }
+
+    private static heuristic(heightData: HeightData, x: number, y: number, goal: number): number {
+        return Math.hypot(goal - x, goal - y) * heightData.cellSize;
+    }
+
+    /**
+     * Reference A* from (1, 1) to (goal, goal) with the legacy open list; returns expansions
+     */
+    private static searchLegacy(heightData: HeightData, goal: number): number {
+        const { width, height } = heightData;
+        const closed = new Uint8Array(width * height);
+        const inOpen = new Uint8Array(width * height);
+        const gScore = new Float32Array(width * height).fill(Infinity);
+        const heap = new LegacyMinHeap();
+        const h0 = this.heuristic(heightData, 1, 1, goal);
+        heap.push({ x: 1, y: 1, g: 0, h: h0, f: h0, parent: null });
+        gScore[width + 1] = 0;
+        inOpen[width + 1] = 1;
+        let nodesExplored = 0;
+
+        while (!heap.isEmpty()) {
+            const current = heap.pop()!;
+            const cIdx = current.y * width + current.x;
+            inOpen[cIdx] = 0;
+            closed[cIdx] = 1;
+            nodesExplored++;
+            if (current.x === goal && current.y === goal) break;
+
+            for (const [dx, dy] of DIRECTIONS) {
+                const nx = current.x + dx;
+                const ny = current.y + dy;
+                if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+                const nIdx = ny * width + nx;
+                if (closed[nIdx]) continue;
+                const tentativeG = current.g + this.moveCost(heightData, cIdx, nIdx, dx !== 0 && dy !== 0);
+                if (tentativeG >= gScore[nIdx]) continue;
+                gScore[nIdx] = tentativeG;
+                const h = this.heuristic(heightData, nx, ny, goal);
+                const f = tentativeG + h;
+                if (inOpen[nIdx]) {
+                    heap.decreaseIfBetter((node) => node.x === nx && node.y === ny, (node) => {
+                        node.g = tentativeG; node.h = h; node.f = f; node.parent = current; return node;
+                    });
+                } else {
+                    heap.push({ x: nx, y: ny, g: tentativeG, h, f, parent: current });
+                    inOpen[nIdx] = 1;
+                }
+            }
+        }
+        return nodesExplored;
+    }
+
+    /**
+     * The same search with IndexedMinHeap over cell indices
+     */
+    private static searchIndexed(heightData: HeightData, goal: number): number {
+        const { width, height } = heightData;
+        const closed = new Uint8Array(width * height);
+        const gScore = new Float32Array(width * height).fill(Infinity);
+        const heap = new IndexedMinHeap(width * height);
+        const goalIdx = goal * width + goal;
+        heap.push(width + 1, this.heuristic(heightData, 1, 1, goal));
+        gScore[width + 1] = 0;
+        let nodesExplored = 0;
+
+        while (!heap.isEmpty()) {
+            const cIdx = heap.pop();
+            closed[cIdx] = 1;
+            nodesExplored++;
+            if (cIdx === goalIdx) break;
+
+            const x = cIdx % width;
+            const y = Math.floor(cIdx / width);
+            for (const [dx, dy] of DIRECTIONS) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+                const nIdx = ny * width + nx;
+                if (closed[nIdx]) continue;
+                const tentativeG = gScore[cIdx] + this.moveCost(heightData, cIdx, nIdx, dx !== 0 && dy !== 0);
+                if (tentativeG >= gScore[nIdx]) continue;
+                gScore[nIdx] = tentativeG;
+                heap.push(nIdx, tentativeG + this.heuristic(heightData, nx, ny, goal));
+            }
+        }
+        return nodesExplored;
+    }
+}
@@ -0,0 +1,20 @@
+/**
+ * Pathfinding Benchmark Worker - Runs PathfindingBenchmark off the main thread
+ * and reports each map size as it finishes
+ */
+
+import { BenchmarkRequest, BenchmarkResponse, PathfindingBenchmark } from './pathfindingBenchmark.js';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<BenchmarkRequest>) => {
+    const post = (message: BenchmarkResponse) => ctx.postMessage(message);
+
+    try {
+        const { sizes, repeats } = event.data;
+        const rows = PathfindingBenchmark.run(sizes, repeats, (row) => post({ type: 'row', row }));
+        post({ type: 'done', rows });
+    } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,317 @@
+/**
+ * Pathfinding Client - Runs PathfindingEngine searches in pathfindingWorker.ts
+ * so large maps do not freeze rendering. The terrain is copied to the worker
+ * once (as transferred typed arrays) and patched where it changes later;
+ * cancelling terminates the worker, and the next search starts a fresh one.
+ */
+
+import { CellRegion, HeightData } from './terrainLoader.js';
+import {
+    AlgorithmRun,
+    PathfindingEngine,
+    PathfindingOptions,
+    PathfindingResult,
+    PlanningKind,
+    PlanningRequest,
+    PlanningResponse,
+    Point,
+    ReplanResult,
+    RouteAlternative,
+    SearchProgress,
+    TerrainPatch
+} from './pathfinding.js';
+import { DStarLite } from './dStarLite.js';
+
+type ProgressCallback = (progress: SearchProgress) => void;
+type PlanningResult = PathfindingResult | PathfindingResult[] | RouteAlternative[] | AlgorithmRun[] | ReplanResult;
+
+interface PendingSearch {
+    resolve: (result: PlanningResult) => void;
+    reject: (error: Error) => void;
+    onProgress?: ProgressCallback;
+}
+
+export class PathfindingClient {
+    private heightData: HeightData;
+    private options: PathfindingOptions;
+    private worker: Worker | null = null;
+    private localEngine: PathfindingEngine | null = null; // Used where workers are unavailable
+    private localReplanner: DStarLite | null = null;
+    private pending: Map<number, PendingSearch> = new Map();
+    private nextId = 1;
+
+    constructor(heightData: HeightData, options: PathfindingOptions = {}) {
+        this.heightData = heightData;
+        this.options = { ...options };
+    }
+
+    /**
+     * Update search options for the following searches
+     */
+    updateOptions(options: Partial<PathfindingOptions>): void {
+        this.options = { ...this.options, ...options };
+        this.localEngine?.updateOptions(options);
+        this.localReplanner = null;
+        if (this.worker) this.post({ type: 'options', options });
+    }
+
+    /**
+     * Rocks found after the terrain was sent, see PathfindingEngine.addObstacles.
+     * A worker started later copies them from the height data.
+     */
+    addObstacles(cells: Point[]): void {
+        const changed = this.localEngine?.addObstacles(cells);
+        if (changed) this.localReplanner?.updateCells(changed);
+        if (this.worker) this.post({ type: 'obstacles', cells });
+    }
+    
+    /**
+     * Heights, masks or the traversability map were edited in place over a
+     * region (e.g. the rover saw more of the terrain); the worker's copy is
+     * patched there, and the replan search repaired rather than dropped
+     */
+    updateRegion(region: CellRegion): void {
+        const refreshed = this.localEngine?.refreshRegion(region);
+        if (refreshed) this.localReplanner?.updateRegion(refreshed);
+        if (this.worker) this.post({ type: 'terrain', patch: this.takePatch(region) });
+    }
+    
+    /**
+     * Find a path; rejects with an 'AbortError' DOMException when the signal fires
+     */
+    findPath(start: Point, goal: Point, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<PathfindingResult> {
+        return this.run('findPath', start, goal, onProgress, signal) as Promise<PathfindingResult>;
+    }
+
+    /**
+     * Pareto set of route alternatives, see PathfindingEngine.findAlternatives
+     */
+    findAlternatives(start: Point, goal: Point, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<RouteAlternative[]> {
+        return this.run('findAlternatives', start, goal, onProgress, signal) as Promise<RouteAlternative[]>;
+    }
+
+    /**
+     * Every algorithm on the same start and goal, see PathfindingEngine.compareAlgorithms
+     */
+    compareAlgorithms(start: Point, goal: Point, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<AlgorithmRun[]> {
+        return this.run('compareAlgorithms', start, goal, onProgress, signal) as Promise<AlgorithmRun[]>;
+    }
+
+    /**
+     * Routes from one cell to several from a single search, see
+     * PathfindingEngine.findPathsFrom
+     */
+    findPathsFrom(start: Point, goals: Point[], onProgress?: ProgressCallback, signal?: AbortSignal): Promise<PathfindingResult[]> {
+        return this.send(
+            (id) => ({ type: 'planFrom', id, start, goals }),
+            () => this.runOnLocalEngine(onProgress, (engine) => engine.findPathsFrom(start, goals)),
+            onProgress,
+            signal
+        ) as Promise<PathfindingResult[]>;
+    }
+
+    /**
+     * Route from the rover's cell to the goal by D* Lite, see DStarLite.replan.
+     * The search stays in the worker between calls, following the obstacles and
+     * terrain regions sent meanwhile; a new goal or new options start it afresh.
+     */
+    replan(start: Point, goal: Point, signal?: AbortSignal): Promise<ReplanResult> {
+        return this.run('replan', start, goal, undefined, signal) as Promise<ReplanResult>;
+    }
+
+    /**
+     * Free the search kept for replan, e.g. once the route is done with
+     */
+    endReplan(): void {
+        this.localReplanner = null;
+        if (this.worker) this.post({ type: 'endReplan' });
+    }
+
+    /**
+     * Stop the worker; searches still running are rejected
+     */
+    dispose(): void {
+        this.stopWorker(new Error('Pathfinding client disposed'));
+    }
+
+    private run(
+        kind: PlanningKind,
+        start: Point,
+        goal: Point,
+        onProgress?: ProgressCallback,
+        signal?: AbortSignal
+    ): Promise<PlanningResult> {
+        return this.send(
+            (id) => ({ type: 'plan', id, kind, start, goal }),
+            () => this.runLocally(kind, start, goal, onProgress),
+            onProgress,
+            signal
+        );
+    }
+
+    /**
+     * Post a search to the worker and wait for its result, or run it here
+     * where workers are unavailable
+     */
+    private send(
+        request: (id: number) => PlanningRequest,
+        local: () => PlanningResult,
+        onProgress?: ProgressCallback,
+        signal?: AbortSignal
+    ): Promise<PlanningResult> {
+        if (signal?.aborted) {
+            return Promise.reject(new DOMException('Pathfinding cancelled', 'AbortError'));
+        }
+        if (typeof Worker === 'undefined') {
+            return Promise.resolve(local());
+        }
+
+        return new Promise((resolve, reject) => {
+            const id = this.nextId++;
+            const abort = () => this.stopWorker(new DOMException('Pathfinding cancelled', 'AbortError'));
+            signal?.addEventListener('abort', abort, { once: true });
+            this.pending.set(id, {
+                resolve: (result) => {
+                    signal?.removeEventListener('abort', abort);
+                    resolve(result);
+                },
+                reject: (error) => {
+                    signal?.removeEventListener('abort', abort);
+                    reject(error);
+                },
+                onProgress
+            });
+            this.ensureWorker();
+            this.post(request(id));
+        });
+    }
+
+    /**
+     * Start the worker if needed and send it the terrain and current options
+     */
+    private ensureWorker(): void {
+        if (this.worker) return;
+
+        const worker = new Worker(new URL('./pathfindingWorker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<PlanningResponse>) => {
+            const message = event.data;
+            const search = this.pending.get(message.id);
+            if (!search) return;
+            if (message.type === 'progress') {
+                search.onProgress?.(message.progress);
+                return;
+            }
+            this.pending.delete(message.id);
+            if (message.type === 'done') {
+                search.resolve(message.result);
+            } else {
+                search.reject(new Error(message.message));
+            }
+        };
+        worker.onerror = (event) => {
+            this.stopWorker(new Error(event.message || 'Pathfinding worker failed'));
+        };
+        this.worker = worker;
+
+        const { data, noDataMask, obstacleMask } = this.heightData;
+        const heightData: HeightData = {
+            ...this.heightData,
+            data: data.slice(),
+            noDataMask: noDataMask?.slice(),
+            obstacleMask: obstacleMask?.slice()
+        };
+        this.post({ type: 'init', heightData, options: this.options });
+    }
+
+    /**
+     * Post to the worker, transferring copies of the grids so this thread keeps its own
+     */
+    private post(message: PlanningRequest): void {
+        if (!this.worker) return;
+        const transfer: Transferable[] = [];
+
+        if (message.type === 'init') {
+            const { data, noDataMask, obstacleMask } = message.heightData;
+            transfer.push(data.buffer);
+            if (noDataMask) transfer.push(noDataMask.buffer);
+            if (obstacleMask) transfer.push(obstacleMask.buffer);
+        }
+        if (message.type === 'terrain') {
+            const { heights, obstacleMask, hazard, obstacles } = message.patch;
+            for (const grid of [heights, obstacleMask, hazard, obstacles]) if (grid) transfer.push(grid.buffer);
+        }
+        if (message.type === 'init' || message.type === 'options') {
+            const map = message.options.traversability;
+            if (map) {
+                const copy = { ...map, hazard: map.hazard.slice(), obstacles: map.obstacles.slice() };
+                message = { ...message, options: { ...message.options, traversability: copy } } as PlanningRequest;
+                transfer.push(copy.hazard.buffer, copy.obstacles.buffer);
+            }
+        }
+        this.worker.postMessage(message, transfer);
+    }
+
+    /**
+     * Copy the region's rows out of the terrain and hazard map for the worker
+     */
+    private takePatch(region: CellRegion): TerrainPatch {
+        const { width, data, obstacleMask } = this.heightData;
+        const map = this.options.traversability;
+        const size = region.width * region.height;
+        const patch: TerrainPatch = {
+            region,
+            heights: new Float32Array(size),
+            obstacleMask: obstacleMask ? new Uint8Array(size) : null,
+            hazard: map ? new Float32Array(size) : null,
+            obstacles: map ? new Uint8Array(size) : null
+        };
+        for (let row = 0; row < region.height; row++) {
+            const from = (region.y + row) * width + region.x;
+            const to = row * region.width;
+            patch.heights.set(data.subarray(from, from + region.width), to);
+            patch.obstacleMask?.set(obstacleMask!.subarray(from, from + region.width), to);
+            patch.hazard?.set(map!.hazard.subarray(from, from + region.width), to);
+            patch.obstacles?.set(map!.obstacles.subarray(from, from + region.width), to);
+        }
+        return patch;
+    }
+
+    /**
+     * Terminate the worker and reject every search waiting on it
+     */
+    private stopWorker(error: Error): void {
+        this.worker?.terminate();
+        this.worker = null;
+        const searches = [...this.pending.values()];
+        this.pending.clear();
+        searches.forEach((search) => search.reject(error));
+    }
+
+    /**
+     * Same searches on this thread, for environments without workers
+     */
+    private runLocally(kind: PlanningKind, start: Point, goal: Point, onProgress?: ProgressCallback): PlanningResult {
+        return this.runOnLocalEngine(onProgress, (engine) => {
+            if (kind === 'replan') {
+                this.localReplanner = DStarLite.reuse(this.localReplanner, engine, start, goal);
+                return this.localReplanner.replan();
+            }
+            if (kind === 'findAlternatives') return engine.findAlternatives(start, goal);
+            if (kind === 'compareAlgorithms') return engine.compareAlgorithms(start, goal);
+            return engine.findPath(start, goal);
+        });
+    }
+
+    /**
+     * Run a search on this thread's engine, reporting its progress
+     */
+    private runOnLocalEngine(onProgress: ProgressCallback | undefined, search: (engine: PathfindingEngine) => PlanningResult): PlanningResult {
+        this.localEngine ??= new PathfindingEngine(this.heightData, this.options);
+        this.localEngine.setProgressCallback(onProgress ?? null);
+        try {
+            return search(this.localEngine);
+        } finally {
+            this.localEngine.setProgressCallback(null);
+        }
+    }
+}
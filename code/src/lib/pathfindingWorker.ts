@@ -0,0 +1,82 @@
+/**
+ * Pathfinding Worker - Runs PathfindingEngine searches off the main thread and
+ * streams progress; the terrain is sent once and kept between searches, as is
+ * the D* Lite search behind replans, which is repaired as the terrain changes
+ */
+
+import { PathfindingEngine, PlanningRequest, PlanningResponse } from './pathfinding.js';
+import { DStarLite } from './dStarLite.js';
+
+const ctx = self as unknown as Worker;
+let engine: PathfindingEngine | null = null;
+let replanner: DStarLite | null = null;
+
+ctx.onmessage = (event: MessageEvent<PlanningRequest>) => {
+    const post = (message: PlanningResponse) => ctx.postMessage(message);
+    const message = event.data;
+
+    switch (message.type) {
+        case 'init':
+            engine = new PathfindingEngine(message.heightData, message.options);
+            replanner = null;
+            return;
+        case 'options':
+            engine?.updateOptions(message.options);
+            replanner = null; // Its costs no longer match
+            return;
+        case 'obstacles': {
+            const changed = engine?.addObstacles(message.cells);
+            if (changed) replanner?.updateCells(changed);
+            return;
+        }
+        case 'terrain': {
+            const refreshed = engine?.applyTerrainPatch(message.patch);
+            if (refreshed) replanner?.updateRegion(refreshed);
+            return;
+        }
+        case 'endReplan':
+            replanner = null;
+            return;
+        case 'planFrom': {
+            const { id, start, goals } = message;
+            if (!engine) {
+                post({ type: 'error', id, message: 'Pathfinding worker has no terrain' });
+                return;
+            }
+            try {
+                engine.setProgressCallback((progress) => post({ type: 'progress', id, progress }));
+                post({ type: 'done', id, result: engine.findPathsFrom(start, goals) });
+            } catch (error) {
+                post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+            } finally {
+                engine.setProgressCallback(null);
+            }
+            return;
+        }
+        case 'plan': {
+            const { id, kind, start, goal } = message;
+            if (!engine) {
+                post({ type: 'error', id, message: 'Pathfinding worker has no terrain' });
+                return;
+            }
+            try {
+                engine.setProgressCallback((progress) => post({ type: 'progress', id, progress }));
+                if (kind === 'replan') {
+                    replanner = DStarLite.reuse(replanner, engine, start, goal);
+                    post({ type: 'done', id, result: replanner.replan() });
+                    return;
+                }
+                const result = kind === 'findAlternatives'
+                    ? engine.findAlternatives(start, goal)
+                    : kind === 'compareAlgorithms'
+                        ? engine.compareAlgorithms(start, goal)
+                        : engine.findPath(start, goal);
+                post({ type: 'done', id, result });
+            } catch (error) {
+                post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+            } finally {
+                engine.setProgressCallback(null);
+            }
+        }
+    }
+};
@@ -0,0 +1,28 @@
+// @vitest-environment jsdom
+// PDS4 labels are XML; Node has no DOMParser, so this runs under jsdom
+import { describe, expect, it } from 'vitest';
+import { PDSLoader } from './pdsLoader.js';
+
+describe('PDSLoader.parsePDS4Label', () => {
+    it('reads the array layout, scaling and map resolution', () => {
+        const layout = PDSLoader.parsePDS4Label(`<?xml version="1.0"?>
+<Product_Observational xmlns="http://pds.nasa.gov/pds4/pds/v1" xmlns:cart="http://pds.nasa.gov/pds4/cart/v1">
+  <Identification_Area><logical_identifier>urn:nasa:pds:test:dtm</logical_identifier></Identification_Area>
+  <cart:pixel_resolution_x unit="km/pixel">0.001</cart:pixel_resolution_x>
+  <File_Area_Observational>
+    <File><file_name>dtm.img</file_name></File>
+    <Array_2D_Image>
+      <offset unit="byte">512</offset>
+      <Axis_Array><axis_name>Line</axis_name><elements>10</elements></Axis_Array>
+      <Axis_Array><axis_name>Sample</axis_name><elements>20</elements></Axis_Array>
+      <Element_Array><data_type>IEEE754LSBSingle</data_type><scaling_factor>0.5</scaling_factor></Element_Array>
+      <Special_Constants><missing_constant>-3.4028227e+38</missing_constant></Special_Constants>
+    </Array_2D_Image>
+  </File_Area_Observational>
+</Product_Observational>`);
+        expect(layout).toMatchObject({
+            lines: 10, lineSamples: 20, sampleType: 'float32', littleEndian: true, dataFileName: 'dtm.img',
+            imageOffset: 512, scalingFactor: 0.5, mapScale: 1, productId: 'urn:nasa:pds:test:dtm'
+        });
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { PDSLoader } from './pdsLoader.js';
+
+const RECORD_BYTES = 256;
+
+/**
+ * Hand-build a PDS3 product with its label attached: two label records,
+ * then 2 lines × 3 samples of little-endian float32, each line with a
+ * 2-byte prefix
+ */
+function buildAttachedPDS3(samples: number[]): File {
+    const label = [
+        'PDS_VERSION_ID = PDS3',
+        `RECORD_BYTES = ${RECORD_BYTES}`,
+        '^IMAGE = 3',
+        'PRODUCT_ID = "DTEEC_TEST"',
+        'OBJECT = IMAGE_MAP_PROJECTION',
+        '  MAP_SCALE = 0.002 <KM/PIXEL>',
+        'END_OBJECT = IMAGE_MAP_PROJECTION',
+        'OBJECT = IMAGE',
+        '  LINES = 2',
+        '  LINE_SAMPLES = 3',
+        '  SAMPLE_TYPE = PC_REAL',
+        '  SAMPLE_BITS = 32',
+        '  LINE_PREFIX_BYTES = 2',
+        '  SCALING_FACTOR = 2',
+        '  OFFSET = -100',
+        '  MISSING_CONSTANT = 16#FF7FFFFB#',
+        'END_OBJECT = IMAGE',
+        'END'
+    ].join('\r\n');
+    const bytes = new Uint8Array(2 * RECORD_BYTES + 2 * (2 + 3 * 4));
+    bytes.set(new TextEncoder().encode(label.padEnd(2 * RECORD_BYTES)));
+    const view = new DataView(bytes.buffer);
+    samples.forEach((sample, i) => {
+        const line = Math.floor(i / 3);
+        const at = 2 * RECORD_BYTES + line * 14 + 2 + (i % 3) * 4;
+        if (isNaN(sample)) view.setUint32(at, 0xFF7FFFFB, true);
+        else view.setFloat32(at, sample, true);
+    });
+    return new File([bytes], 'DTEEC_TEST.IMG');
+}
+
+describe('PDSLoader', () => {
+    it('parses a PDS3 label with a record pointer, radix constant and map scale', () => {
+        const layout = PDSLoader.parsePDS3Label(
+            'PDS_VERSION_ID = PDS3\nRECORD_BYTES = 100\n^IMAGE = ("DTM.IMG", 5)\n' +
+            'OBJECT = IMAGE\nLINES = 4\nLINE_SAMPLES = 8\nSAMPLE_TYPE = MSB_INTEGER\nSAMPLE_BITS = 16\n' +
+            'MISSING_CONSTANT = -32768\n/* comment */\nEND_OBJECT = IMAGE\nMAP_SCALE = 1.5 <METERS/PIXEL>\nEND\n'
+        );
+        expect(layout).toMatchObject({
+            lines: 4, lineSamples: 8, sampleType: 'int16', littleEndian: false,
+            dataFileName: 'DTM.IMG', imageOffset: 400, missingConstant: -32768, mapScale: 1.5
+        });
+    });
+
+    it('reads an attached-label product, scaling samples and masking the missing constant', async () => {
+        const grid = await PDSLoader.load([buildAttachedPDS3([60, 50.5, NaN, 0, 1, 2])]);
+
+        expect(grid).toMatchObject({ width: 3, height: 2, cellSize: 2 });
+        expect(Array.from(grid.values)).toEqual([20, 1, NaN, -100, -98, -96]);
+    });
+
+    it('reads only the requested region', async () => {
+        const file = buildAttachedPDS3([1, 2, 3, 4, 5, 6]);
+        const layout = PDSLoader.parsePDS3Label(await file.slice(0, 2 * RECORD_BYTES).text());
+        const grid = await PDSLoader.readImage(file, layout, { region: { x: 1, y: 0, width: 2, height: 2 } });
+
+        expect(Array.from(grid.values)).toEqual([-96, -94, -90, -88]);
+    });
+
+    it('asks for the data file a detached label names', async () => {
+        const label = new File(['PDS_VERSION_ID = PDS3\n^IMAGE = "DTM.IMG"\nOBJECT = IMAGE\nLINES = 1\nLINE_SAMPLES = 1\nEND_OBJECT = IMAGE\nEND\n'], 'DTM.LBL');
+        await expect(PDSLoader.load([label])).rejects.toThrow(/DTM\.IMG/);
+    });
+});
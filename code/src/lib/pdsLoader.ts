@@ -0,0 +1,396 @@
+/**
+ * PDS Loader - Reads NASA Planetary Data System DTMs (PDS3 ODL labels and
+ * PDS4 XML labels), e.g. HiRISE and CTX stereo products
+ */
+
+import { DEMLoader, RasterGrid, RasterRegion, RawSampleType } from './demLoader.js';
+
+/**
+ * Everything needed to decode the image array of a labelled product
+ */
+export interface PDSImageLayout {
+    lines: number;
+    lineSamples: number;
+    sampleType: RawSampleType;
+    littleEndian: boolean;
+    dataFileName?: string; // Detached data file named by the label, if any
+    imageOffset: number; // Byte offset of the first sample in the data file
+    linePrefixBytes: number;
+    lineSuffixBytes: number;
+    scalingFactor: number;
+    offset: number;
+    missingConstant?: number;
+    mapScale?: number; // Metres per pixel
+    productId?: string;
+}
+
+export interface PDSLoadOptions {
+    region?: RasterRegion; // Source pixels to import; whole image when omitted
+    maxSize?: number; // Downsample so neither side exceeds this many cells
+}
+
+// Attached PDS3 labels are read from this much of the file head
+const LABEL_PROBE_BYTES = 256 * 1024;
+
+// HiRISE/CTX DTMs commonly use this float32 bit pattern as MISSING_CONSTANT
+const PDS_CORE_NULL_BITS = 0xFF7FFFFB;
+
+export class PDSLoader {
+    /**
+     * Load a PDS DTM from its label and data files. Only the rows covering the
+     * region of interest are read, so large products stay out of memory.
+     */
+    static async load(files: File[], options: PDSLoadOptions = {}): Promise<RasterGrid> {
+        const extensionOf = (file: File) => file.name.split('.').pop()?.toLowerCase() ?? '';
+        const xmlLabel = files.find((file) => extensionOf(file) === 'xml');
+        const odlLabel = files.find((file) => extensionOf(file) === 'lbl');
+
+        let layout: PDSImageLayout;
+        let labelFile: File | undefined;
+        if (xmlLabel) {
+            layout = this.parsePDS4Label(await xmlLabel.text());
+            labelFile = xmlLabel;
+        } else if (odlLabel) {
+            layout = this.parsePDS3Label(await odlLabel.text());
+            labelFile = odlLabel;
+        } else {
+            // Attached label at the head of the .IMG
+            const image = files.find((file) => extensionOf(file) === 'img');
+            if (!image) {
+                throw new Error('No PDS label found. Provide a .LBL or .xml label, or an .IMG with an attached label.');
+            }
+            const head = await image.slice(0, LABEL_PROBE_BYTES).text();
+            if (!this.isPDS3Label(head)) {
+                throw new Error(`${image.name} has no attached PDS3 label. Provide its detached .LBL or .xml label.`);
+            }
+            layout = this.parsePDS3Label(head);
+            labelFile = image;
+        }
+
+        const dataFile = this.findDataFile(files, layout, labelFile);
+        return this.readImage(dataFile, layout, options);
+    }
+
+    /**
+     * Whether text starts with a PDS3 ODL label
+     */
+    static isPDS3Label(text: string): boolean {
+        return /^\s*(PDS_VERSION_ID|CCSD3ZF)/.test(text);
+    }
+
+    /**
+     * Parse a PDS3 ODL label describing an IMAGE object
+     */
+    static parsePDS3Label(text: string): PDSImageLayout {
+        const values = this.parseODL(text);
+        const image = (key: string) => values.get(`IMAGE.${key}`);
+        const anywhere = (key: string) => {
+            for (const [path, value] of values) {
+                if (path === key || path.endsWith(`.${key}`)) return value;
+            }
+            return undefined;
+        };
+
+        const lines = this.odlNumber(image('LINES'));
+        const lineSamples = this.odlNumber(image('LINE_SAMPLES'));
+        if (!lines || !lineSamples) {
+            throw new Error('PDS3 label has no IMAGE object with LINES and LINE_SAMPLES.');
+        }
+
+        const sampleTypeName = this.odlString(image('SAMPLE_TYPE') ?? 'MSB_INTEGER').toUpperCase();
+        const sampleBits = this.odlNumber(image('SAMPLE_BITS')) ?? 8;
+        const { sampleType, littleEndian } = this.pds3SampleType(sampleTypeName, sampleBits);
+
+        // ^IMAGE = n | n <BYTES> | ("FILE.IMG", n) | ("FILE.IMG", n <BYTES>) | "FILE.IMG"
+        const recordBytes = this.odlNumber(values.get('RECORD_BYTES')) ?? 1;
+        const pointer = values.get('^IMAGE') ?? '';
+        const fileMatch = pointer.match(/"([^"]+)"/);
+        const startMatch = pointer.replace(/"[^"]*"/, '').match(/(\d+)\s*(<BYTES>)?/i);
+        let imageOffset = 0;
+        if (startMatch) {
+            const start = parseInt(startMatch[1], 10);
+            imageOffset = startMatch[2] ? start - 1 : (start - 1) * recordBytes;
+        }
+
+        const missing = image('MISSING_CONSTANT') ?? image('CORE_NULL');
+        const mapScale = anywhere('MAP_SCALE');
+
+        return {
+            lines,
+            lineSamples,
+            sampleType,
+            littleEndian,
+            dataFileName: fileMatch?.[1],
+            imageOffset,
+            linePrefixBytes: this.odlNumber(image('LINE_PREFIX_BYTES')) ?? 0,
+            lineSuffixBytes: this.odlNumber(image('LINE_SUFFIX_BYTES')) ?? 0,
+            scalingFactor: this.odlNumber(image('SCALING_FACTOR')) ?? 1,
+            offset: this.odlNumber(image('OFFSET')) ?? 0,
+            missingConstant: missing !== undefined ? this.odlConstant(missing, sampleType) : undefined,
+            mapScale: mapScale !== undefined ? this.odlMetresPerPixel(mapScale) : undefined,
+            productId: values.has('PRODUCT_ID') ? this.odlString(values.get('PRODUCT_ID')!) : undefined
+        };
+    }
+
+    /**
+     * Parse a PDS4 XML label describing an Array_2D_Image
+     */
+    static parsePDS4Label(text: string): PDSImageLayout {
+        const doc = new DOMParser().parseFromString(text, 'application/xml');
+        if (doc.getElementsByTagName('parsererror').length > 0) {
+            throw new Error('PDS4 label is not well-formed XML.');
+        }
+
+        const first = (parent: Document | Element, name: string) => parent.getElementsByTagNameNS('*', name)[0];
+        const textOf = (parent: Document | Element, name: string) => first(parent, name)?.textContent?.trim();
+
+        const array = first(doc, 'Array_2D_Image') ?? first(doc, 'Array_2D_Map') ?? first(doc, 'Array_2D');
+        if (!array) {
+            throw new Error('PDS4 label has no Array_2D_Image.');
+        }
+
+        let lines = 0;
+        let lineSamples = 0;
+        for (const axis of Array.from(array.getElementsByTagNameNS('*', 'Axis_Array'))) {
+            const name = (textOf(axis, 'axis_name') ?? '').toLowerCase();
+            const elements = parseInt(textOf(axis, 'elements') ?? '0', 10);
+            if (name === 'line') lines = elements;
+            else if (name === 'sample') lineSamples = elements;
+        }
+        if (!lines || !lineSamples) {
+            throw new Error('PDS4 Array_2D_Image must have Line and Sample axes.');
+        }
+
+        const elementArray = first(array, 'Element_Array');
+        const dataType = textOf(elementArray ?? array, 'data_type') ?? '';
+        const { sampleType, littleEndian } = this.pds4SampleType(dataType);
+
+        const missing = textOf(array, 'missing_constant');
+        const resolution = first(doc, 'pixel_resolution_x') ?? first(doc, 'map_scale');
+        let mapScale: number | undefined;
+        if (resolution?.textContent) {
+            const unit = (resolution.getAttribute('unit') ?? 'm/pixel').toLowerCase();
+            mapScale = parseFloat(resolution.textContent) * (unit.startsWith('km') ? 1000 : 1);
+        }
+
+        return {
+            lines,
+            lineSamples,
+            sampleType,
+            littleEndian,
+            dataFileName: textOf(doc, 'file_name'),
+            imageOffset: parseInt(textOf(array, 'offset') ?? '0', 10),
+            linePrefixBytes: 0,
+            lineSuffixBytes: 0,
+            scalingFactor: parseFloat(textOf(elementArray ?? array, 'scaling_factor') ?? '1'),
+            offset: parseFloat(textOf(elementArray ?? array, 'value_offset') ?? '0'),
+            missingConstant: missing !== undefined ? this.odlConstant(missing, sampleType) : undefined,
+            mapScale: mapScale !== undefined && isFinite(mapScale) && mapScale > 0 ? mapScale : undefined,
+            productId: textOf(doc, 'logical_identifier')
+        };
+    }
+
+    /**
+     * Decode the region of interest from the data file
+     */
+    static async readImage(file: Blob, layout: PDSImageLayout, options: PDSLoadOptions = {}): Promise<RasterGrid> {
+        const region = DEMLoader.clampRegion(options.region, layout.lineSamples, layout.lines);
+        const bytesPerSample = DEMLoader.sampleSize(layout.sampleType);
+        const lineBytes = layout.linePrefixBytes + layout.lineSamples * bytesPerSample + layout.lineSuffixBytes;
+
+        const start = layout.imageOffset + region.y * lineBytes;
+        const end = start + region.height * lineBytes;
+        if (end > file.size) {
+            throw new Error(`PDS data file is ${file.size} bytes but the label describes at least ${end}.`);
+        }
+
+        const view = new DataView(await file.slice(start, end).arrayBuffer());
+        const values = new Float32Array(region.width * region.height);
+        for (let y = 0; y < region.height; y++) {
+            const rowStart = y * lineBytes + layout.linePrefixBytes;
+            for (let x = 0; x < region.width; x++) {
+                const at = rowStart + (region.x + x) * bytesPerSample;
+                const raw = DEMLoader.readSample(view, at, layout.sampleType, layout.littleEndian);
+                values[y * region.width + x] = this.isMissing(raw, layout)
+                    ? NaN
+                    : raw * layout.scalingFactor + layout.offset;
+            }
+        }
+
+        const cropped: RasterGrid = {
+            width: region.width,
+            height: region.height,
+            values,
+            cellSize: layout.mapScale
+        };
+        return DEMLoader.cropAndResample(cropped, undefined, options.maxSize);
+    }
+
+    /**
+     * Pick the file holding the image samples
+     */
+    private static findDataFile(files: File[], layout: PDSImageLayout, labelFile: File): File {
+        if (layout.dataFileName) {
+            const wanted = layout.dataFileName.toLowerCase();
+            const match = files.find((file) => file.name.toLowerCase() === wanted);
+            if (match) return match;
+            if (!/\.(lbl|xml)$/i.test(labelFile.name)) return labelFile;
+            throw new Error(`The label refers to data file "${layout.dataFileName}"; drop it together with the label.`);
+        }
+        if (!/\.(lbl|xml)$/i.test(labelFile.name)) {
+            return labelFile;
+        }
+        const image = files.find((file) => /\.(img|dat)$/i.test(file.name));
+        if (!image) {
+            throw new Error('No .IMG data file was provided with the PDS label.');
+        }
+        return image;
+    }
+
+    /**
+     * Whether a raw sample marks missing data
+     */
+    private static isMissing(raw: number, layout: PDSImageLayout): boolean {
+        if (!isFinite(raw)) return true;
+        if (layout.missingConstant === undefined) return false;
+        if (layout.sampleType === 'float32') {
+            // Compare at float32 precision; HiRISE uses -3.4028227e+38
+            return Math.fround(raw) === Math.fround(layout.missingConstant) || raw <= -3.4e38;
+        }
+        return raw === layout.missingConstant;
+    }
+
+    /**
+     * Flatten an ODL label into "OBJECT.KEY" -> raw value entries
+     */
+    private static parseODL(text: string): Map<string, string> {
+        const values = new Map<string, string>();
+        const objects: string[] = [];
+        // Strip comments, then join parenthesised/quoted values spanning lines
+        const lines = text.replace(/\/\*[\s\S]*?\*\//g, '').split(/\r?\n/);
+
+        for (let i = 0; i < lines.length; i++) {
+            let line = lines[i].trim();
+            if (line === 'END') break;
+            const match = line.match(/^(\^?[A-Z0-9_:]+)\s*=\s*(.*)$/i);
+            if (!match) continue;
+
+            const key = match[1].toUpperCase();
+            let value = match[2];
+            while (this.isOpenODLValue(value) && i + 1 < lines.length) {
+                line = lines[++i].trim();
+                value += ' ' + line;
+            }
+            value = value.trim();
+
+            if (key === 'OBJECT' || key === 'GROUP') {
+                objects.push(value.toUpperCase());
+            } else if (key === 'END_OBJECT' || key === 'END_GROUP') {
+                objects.pop();
+            } else {
+                const path = objects.length > 0 ? `${objects[objects.length - 1]}.${key}` : key;
+                if (!values.has(path)) values.set(path, value);
+            }
+        }
+
+        return values;
+    }
+
+    /**
+     * Whether a value has unbalanced quotes or brackets and continues on the next line
+     */
+    private static isOpenODLValue(value: string): boolean {
+        const quotes = (value.match(/"/g) ?? []).length;
+        const opens = (value.match(/[({]/g) ?? []).length;
+        const closes = (value.match(/[)}]/g) ?? []).length;
+        return quotes % 2 === 1 || opens > closes;
+    }
+
+    /**
+     * Numeric part of an ODL value, ignoring any <UNIT>
+     */
+    private static odlNumber(value: string | undefined): number | undefined {
+        if (value === undefined) return undefined;
+        const number = parseFloat(value.replace(/<[^>]*>/g, '').replace(/"/g, ''));
+        return isFinite(number) ? number : undefined;
+    }
+
+    /**
+     * String part of an ODL value, without quotes
+     */
+    private static odlString(value: string): string {
+        return value.replace(/^["']|["']$/g, '').trim();
+    }
+
+    /**
+     * Decode an ODL constant, including radix form such as 16#FF7FFFFB#
+     */
+    private static odlConstant(value: string, sampleType: RawSampleType): number | undefined {
+        const radix = value.match(/(\d+)#([0-9A-F]+)#/i);
+        if (radix) {
+            const bits = parseInt(radix[2], parseInt(radix[1], 10)) >>> 0;
+            if (sampleType === 'float32') {
+                const view = new DataView(new ArrayBuffer(4));
+                view.setUint32(0, bits);
+                return view.getFloat32(0);
+            }
+            return bits;
+        }
+        if (sampleType === 'float32' && /CORE_NULL/i.test(value)) {
+            return this.odlConstant(`16#${PDS_CORE_NULL_BITS.toString(16)}#`, sampleType);
+        }
+        return this.odlNumber(value);
+    }
+
+    /**
+     * Convert a MAP_SCALE value to metres per pixel
+     */
+    private static odlMetresPerPixel(value: string): number | undefined {
+        const number = this.odlNumber(value);
+        if (number === undefined || number <= 0) return undefined;
+        return /<\s*KM/i.test(value) ? number * 1000 : number;
+    }
+
+    /**
+     * Map PDS3 SAMPLE_TYPE + SAMPLE_BITS to a sample type and byte order
+     */
+    private static pds3SampleType(name: string, bits: number): { sampleType: RawSampleType; littleEndian: boolean } {
+        const littleEndian = /^(PC_|LSB_|VAX_)/.test(name);
+        const kind = name.includes('REAL') ? 'float' : name.includes('UNSIGNED') || bits === 8 ? 'uint' : 'int';
+        const sampleType = `${kind}${bits}` as RawSampleType;
+        if (!['int8', 'uint8', 'int16', 'uint16', 'int32', 'uint32', 'float32', 'float64'].includes(sampleType)) {
+            throw new Error(`Unsupported PDS3 SAMPLE_TYPE ${name} with ${bits} bits.`);
+        }
+        if (name.startsWith('VAX_REAL')) {
+            throw new Error('VAX floating point samples are not supported.');
+        }
+        return { sampleType, littleEndian };
+    }
+
+    /**
+     * Map a PDS4 data_type to a sample type and byte order
+     */
+    private static pds4SampleType(dataType: string): { sampleType: RawSampleType; littleEndian: boolean } {
+        const types: Record<string, [RawSampleType, boolean]> = {
+            SignedByte: ['int8', false],
+            UnsignedByte: ['uint8', false],
+            SignedLSB2: ['int16', true],
+            SignedMSB2: ['int16', false],
+            UnsignedLSB2: ['uint16', true],
+            UnsignedMSB2: ['uint16', false],
+            SignedLSB4: ['int32', true],
+            SignedMSB4: ['int32', false],
+            UnsignedLSB4: ['uint32', true],
+            UnsignedMSB4: ['uint32', false],
+            IEEE754LSBSingle: ['float32', true],
+            IEEE754MSBSingle: ['float32', false],
+            IEEE754LSBDouble: ['float64', true],
+            IEEE754MSBDouble: ['float64', false]
+        };
+        const entry = types[dataType];
+        if (!entry) {
+            throw new Error(`Unsupported PDS4 data_type "${dataType}".`);
+        }
+        return { sampleType: entry[0], littleEndian: entry[1] };
+    }
+}
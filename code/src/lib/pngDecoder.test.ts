@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { PNGDecoder } from './pngDecoder.js';
+
+async function deflate(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+    const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+    // The decoder does not check CRCs, so they are left zero
+    const out = new Uint8Array(12 + data.length);
+    new DataView(out.buffer).setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+    out.set(data, 8);
+    return out;
+}
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Hand-build a PNG from raw scanline bytes, filtering row y with filters[y]
+ */
+async function buildPNG(
+    width: number, height: number, bitDepth: number, colorType: number, rows: number[][],
+    filters: number[], interlace = 0
+): Promise<ArrayBuffer> {
+    const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType]!;
+    const bpp = Math.max(1, (channels * bitDepth) / 8);
+    const stride = rows[0].length;
+    const filtered = new Uint8Array(height * (stride + 1));
+    rows.forEach((row, y) => {
+        const filter = filters[y % filters.length];
+        filtered[y * (stride + 1)] = filter;
+        for (let i = 0; i < stride; i++) {
+            const left = i >= bpp ? row[i - bpp] : 0;
+            const up = y > 0 ? rows[y - 1][i] : 0;
+            const upLeft = y > 0 && i >= bpp ? rows[y - 1][i - bpp] : 0;
+            const predicted = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter];
+            filtered[y * (stride + 1) + 1 + i] = (row[i] - predicted) & 0xff;
+        }
+    });
+
+    const ihdr = new Uint8Array(13);
+    const view = new DataView(ihdr.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    ihdr.set([bitDepth, colorType, 0, 0, interlace], 8);
+
+    const parts = [
+        new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+        chunk('IHDR', ihdr),
+        chunk('IDAT', await deflate(filtered)),
+        chunk('IEND', new Uint8Array(0))
+    ];
+    const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        png.set(part, offset);
+        offset += part.length;
+    }
+    return png.buffer;
+}
+
+describe('PNGDecoder', () => {
+    it('decodes 16-bit grayscale through every scanline filter', async () => {
+        const heights = [
+            [0, 1000, 65535],
+            [300, 299, 65000],
+            [12345, 54321, 7],
+            [1, 2, 3],
+            [40000, 0, 40000]
+        ];
+        const rows = heights.map((row) => row.flatMap((value) => [value >> 8, value & 0xff]));
+        const png = await PNGDecoder.decode(await buildPNG(3, 5, 16, 0, rows, [0, 1, 2, 3, 4]));
+
+        expect(png).toMatchObject({ width: 3, height: 5, channels: 1, bitDepth: 16 });
+        expect(Array.from(png.samples)).toEqual(heights.flat());
+    });
+
+    it('decodes 8-bit RGB with interleaved channels', async () => {
+        const rows = [[10, 20, 30, 40, 50, 60], [200, 100, 0, 255, 128, 1]];
+        const png = await PNGDecoder.decode(await buildPNG(2, 2, 8, 2, rows, [4, 3]));
+
+        expect(png.channels).toBe(3);
+        expect(Array.from(png.samples)).toEqual(rows.flat());
+    });
+
+    it('rejects palette and interlaced images', async () => {
+        await expect(PNGDecoder.decode(await buildPNG(1, 1, 8, 3, [[0]], [0]))).rejects.toThrow(/color type 3/);
+        await expect(PNGDecoder.decode(await buildPNG(1, 1, 8, 0, [[0]], [0], 1))).rejects.toThrow(/Interlaced/);
+    });
+
+    it('rejects files without the PNG signature', async () => {
+        await expect(PNGDecoder.decode(new Uint8Array(16).buffer)).rejects.toThrow(/signature/);
+    });
+});
@@ -0,0 +1,164 @@
+/**
+ * PNG Decoder - Parses PNG files directly so 16-bit samples are not truncated
+ * to 8 bits the way canvas getImageData() does
+ */
+
+import { inflateZlib } from './compression.js';
+
+export interface DecodedPNG {
+    width: number;
+    height: number;
+    channels: number;
+    bitDepth: number;
+    samples: Uint16Array; // Row-major, channels interleaved, full precision
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Samples per pixel for each supported PNG color type
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = {
+    0: 1, // Grayscale
+    2: 3, // RGB
+    4: 2, // Grayscale + alpha
+    6: 4  // RGBA
+};
+
+export class PNGDecoder {
+    /**
+     * Decode a PNG file into raw samples
+     */
+    static async decode(buffer: ArrayBuffer): Promise<DecodedPNG> {
+        const bytes = new Uint8Array(buffer);
+        const view = new DataView(buffer);
+
+        for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+            if (bytes[i] !== PNG_SIGNATURE[i]) {
+                throw new Error('Not a PNG file (bad signature).');
+            }
+        }
+
+        let width = 0;
+        let height = 0;
+        let bitDepth = 0;
+        let colorType = -1;
+        let interlace = 0;
+        const idatChunks: Uint8Array[] = [];
+
+        // Walk the chunk list: [length][type][data][crc]
+        let offset = PNG_SIGNATURE.length;
+        while (offset + 8 <= bytes.length) {
+            const length = view.getUint32(offset);
+            const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+            const dataStart = offset + 8;
+
+            if (dataStart + length > bytes.length) {
+                throw new Error(`Truncated PNG chunk "${type}".`);
+            }
+
+            if (type === 'IHDR') {
+                width = view.getUint32(dataStart);
+                height = view.getUint32(dataStart + 4);
+                bitDepth = bytes[dataStart + 8];
+                colorType = bytes[dataStart + 9];
+                interlace = bytes[dataStart + 12];
+            } else if (type === 'IDAT') {
+                idatChunks.push(bytes.subarray(dataStart, dataStart + length));
+            } else if (type === 'IEND') {
+                break;
+            }
+
+            offset = dataStart + length + 4;
+        }
+
+        const channels = CHANNELS_BY_COLOR_TYPE[colorType];
+        if (!channels) {
+            throw new Error(`Unsupported PNG color type ${colorType}. Use grayscale or RGB(A) without a palette.`);
+        }
+        if (bitDepth !== 8 && bitDepth !== 16) {
+            throw new Error(`Unsupported PNG bit depth ${bitDepth}. Only 8 and 16 bits per sample are supported.`);
+        }
+        if (interlace !== 0) {
+            throw new Error('Interlaced PNGs are not supported. Re-export the heightmap without interlacing.');
+        }
+        if (width === 0 || height === 0 || idatChunks.length === 0) {
+            throw new Error('PNG has no image data.');
+        }
+
+        // Concatenate IDAT payloads into a single zlib stream
+        const compressedLength = idatChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+        const compressed = new Uint8Array(compressedLength);
+        let writeOffset = 0;
+        for (const chunk of idatChunks) {
+            compressed.set(chunk, writeOffset);
+            writeOffset += chunk.length;
+        }
+
+        const inflated = await inflateZlib(compressed);
+        const bytesPerPixel = (channels * bitDepth) / 8;
+        const stride = width * bytesPerPixel;
+        const pixels = this.unfilter(inflated, height, stride, bytesPerPixel);
+
+        const samples = new Uint16Array(width * height * channels);
+        if (bitDepth === 16) {
+            for (let i = 0; i < samples.length; i++) {
+                samples[i] = (pixels[i * 2] << 8) | pixels[i * 2 + 1];
+            }
+        } else {
+            samples.set(pixels);
+        }
+
+        return { width, height, channels, bitDepth, samples };
+    }
+
+    /**
+     * Reverse the per-scanline PNG filters
+     */
+    private static unfilter(data: Uint8Array, height: number, stride: number, bytesPerPixel: number): Uint8Array {
+        if (data.length < height * (stride + 1)) {
+            throw new Error('PNG image data is shorter than its declared size.');
+        }
+
+        const out = new Uint8Array(height * stride);
+
+        for (let y = 0; y < height; y++) {
+            const filter = data[y * (stride + 1)];
+            const src = y * (stride + 1) + 1;
+            const dst = y * stride;
+            const prev = dst - stride;
+
+            for (let i = 0; i < stride; i++) {
+                const raw = data[src + i];
+                const left = i >= bytesPerPixel ? out[dst + i - bytesPerPixel] : 0;
+                const up = y > 0 ? out[prev + i] : 0;
+                const upLeft = y > 0 && i >= bytesPerPixel ? out[prev + i - bytesPerPixel] : 0;
+
+                let value: number;
+                switch (filter) {
+                    case 0: value = raw; break;
+                    case 1: value = raw + left; break;
+                    case 2: value = raw + up; break;
+                    case 3: value = raw + ((left + up) >> 1); break;
+                    case 4: value = raw + this.paeth(left, up, upLeft); break;
+                    default:
+                        throw new Error(`Invalid PNG filter type ${filter} on row ${y}.`);
+                }
+                out[dst + i] = value & 0xff;
+            }
+        }
+
+        return out;
+    }
+
+    /**
+     * Paeth predictor from the PNG specification
+     */
+    private static paeth(a: number, b: number, c: number): number {
+        const p = a + b - c;
+        const pa = Math.abs(p - a);
+        const pb = Math.abs(p - b);
+        const pc = Math.abs(p - c);
+        if (pa <= pb && pa <= pc) return a;
+        if (pb <= pc) return b;
+        return c;
+    }
+}
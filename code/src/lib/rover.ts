@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { Point } from './pathfinding.js';
+import { EnergyModel } from './energyModel.js';
 
 export interface RoverOptions {
     size?: number;
@@ -9,6 +10,13 @@ export interface RoverOptions {
     antennaHeight?: number;
     type?: 'standard' | 'scout' | 'heavy' | 'scientific';
     maxSlope?: number;
+    maxClimb?: number; // Degrees uphill
+    maxDescent?: number; // Degrees downhill
+    maxCrossSlope?: number; // Degrees of sideways tilt
+    maxStep?: number; // Metres; tallest ledge the wheels can climb
+    groundClearance?: number; // Metres under the chassis
+    sensorRange?: number; // Metres the hazard cameras can see rocks at
+    sensorFov?: number; // Degrees across the navigation cameras' view of the terrain ahead
     energyCapacity?: number;
     energyEfficiency?: number;
 }
@@ -26,15 +34,21 @@ export interface RoverState {
     lastPosition: THREE.Vector3;
 }
 
+// How much faster everything runs in demo mode, for judges
+const DEMO_SPEED_MULTIPLIER = 50;
+
 export class Rover {
     private mesh: THREE.Group;
     private options: Required<RoverOptions>;
     private state: RoverState;
     private path: Point[];
     private terrainHeightFunction: (x: number, z: number) => number;
+    private terrainElevationFunction: (x: number, z: number) => number; // Metres
+    private worldUnitsPerMetre: number = 1;
     private animationMixer: THREE.AnimationMixer | null = null;
     private headlight: THREE.SpotLight | null = null;
     private isDemoMode: boolean = false;
+    private holdRemaining = 0; // Seconds left of a stop, e.g. working at a waypoint
     
     constructor(options: RoverOptions = {}) {
         // Apply rover type presets
@@ -48,6 +62,13 @@ export class Rover {
             antennaHeight: options.antennaHeight ?? typePresets.antennaHeight!,
             type: options.type ?? 'standard',
             maxSlope: options.maxSlope ?? typePresets.maxSlope!,
+            maxClimb: options.maxClimb ?? typePresets.maxClimb!,
+            maxDescent: options.maxDescent ?? typePresets.maxDescent!,
+            maxCrossSlope: options.maxCrossSlope ?? typePresets.maxCrossSlope!,
+            maxStep: options.maxStep ?? typePresets.maxStep!,
+            groundClearance: options.groundClearance ?? typePresets.groundClearance!,
+            sensorRange: options.sensorRange ?? typePresets.sensorRange!,
+            sensorFov: options.sensorFov ?? typePresets.sensorFov!,
             energyCapacity: options.energyCapacity ?? typePresets.energyCapacity!,
             energyEfficiency: options.energyEfficiency ?? typePresets.energyEfficiency!
         };
@@ -67,6 +88,7 @@ export class Rover {
         
         this.path = [];
         this.terrainHeightFunction = () => 0;
+        this.terrainElevationFunction = () => 0;
         
         this.mesh = this.createRoverMesh();
     }
@@ -84,6 +106,13 @@ export class Rover {
                     wheelCount: 4,
                     antennaHeight: 1.0,
                     maxSlope: 20,
+                    maxClimb: 20,
+                    maxDescent: 25,
+                    maxCrossSlope: 15,
+                    maxStep: 0.2,
+                    groundClearance: 0.25,
+                    sensorRange: 40,
+                    sensorFov: 90,
                     energyCapacity: 2000, // Realistic Wh capacity
                     energyEfficiency: 1.5
                 };
@@ -95,6 +124,13 @@ export class Rover {
                     wheelCount: 8,
                     antennaHeight: 2.0,
                     maxSlope: 45,
+                    maxClimb: 45,
+                    maxDescent: 35,
+                    maxCrossSlope: 30,
+                    maxStep: 0.5,
+                    groundClearance: 0.6,
+                    sensorRange: 20,
+                    sensorFov: 100,
                     energyCapacity: 5000, // Realistic Wh capacity
                     energyEfficiency: 0.6
                 };
@@ -106,6 +142,13 @@ export class Rover {
                     wheelCount: 6,
                     antennaHeight: 2.5,
                     maxSlope: 25,
+                    maxClimb: 25,
+                    maxDescent: 20,
+                    maxCrossSlope: 15,
+                    maxStep: 0.3,
+                    groundClearance: 0.4,
+                    sensorRange: 35,
+                    sensorFov: 150,
                     energyCapacity: 3000, // Realistic Wh capacity
                     energyEfficiency: 1.2
                 };
@@ -117,6 +160,13 @@ export class Rover {
                     wheelCount: 6,
                     antennaHeight: 1.5,
                     maxSlope: 30,
+                    maxClimb: 30,
+                    maxDescent: 25,
+                    maxCrossSlope: 20,
+                    maxStep: 0.4,
+                    groundClearance: 0.5,
+                    sensorRange: 30,
+                    sensorFov: 120,
                     energyCapacity: 2500, // Realistic Wh capacity
                     energyEfficiency: 1.0
                 };
@@ -254,6 +304,20 @@ export class Rover {
         this.terrainHeightFunction = heightFunction;
     }
     
+    /**
+     * Set the terrain elevation function (metres) used for energy and distance
+     */
+    setTerrainElevationFunction(elevationFunction: (x: number, z: number) => number): void {
+        this.terrainElevationFunction = elevationFunction;
+    }
+    
+    /**
+     * Set how many world units make up one metre of terrain
+     */
+    setWorldScale(unitsPerMetre: number): void {
+        this.worldUnitsPerMetre = unitsPerMetre;
+    }
+    
     /**
      * Set rover position and update terrain height
      */
@@ -318,6 +382,16 @@ export class Rover {
         this.state.isMoving = false;
     }
     
+    /**
+     * Swap in a new path mid-drive: the rover heads from where it is now to the
+     * new path's second point and keeps going, mission totals intact
+     */
+    reroute(path: Point[]): void {
+        this.path = [{ x: this.state.position.x, y: this.state.position.z }, ...path.slice(1)];
+        this.state.currentPathIndex = 0;
+        this.state.isMoving = this.path.length > 1;
+    }
+    
     /**
      * Start rover movement along the path
      */
@@ -325,6 +399,7 @@ export class Rover {
         if (this.path.length === 0) return;
         
         this.state.isMoving = true;
+        this.holdRemaining = 0;
         this.state.currentPathIndex = 0;
         this.state.missionStartTime = performance.now();
         this.state.distanceTraveled = 0;
@@ -340,12 +415,34 @@ export class Rover {
      */
     stopMovement(): void {
         this.state.isMoving = false;
+        this.holdRemaining = 0;
+    }
+    
+    /**
+     * Stand still for a while (demo mode speeds this up like driving); keep
+     * calling update() until isHolding() turns false
+     */
+    hold(seconds: number): void {
+        this.state.isMoving = false;
+        this.holdRemaining = Math.max(0, seconds);
+    }
+    
+    /**
+     * Whether the rover is sitting out a hold()
+     */
+    isHolding(): boolean {
+        return this.holdRemaining > 0;
     }
     
     /**
      * Update rover animation
      */
     update(deltaTime: number): void {
+        if (this.holdRemaining > 0) {
+            this.holdRemaining = Math.max(0, this.holdRemaining - deltaTime * (this.isDemoMode ? DEMO_SPEED_MULTIPLIER : 1));
+            this.state.currentSpeed = 0;
+            return;
+        }
         if (!this.state.isMoving || this.path.length === 0) {
             this.state.currentSpeed = 0;
             return;
@@ -375,9 +472,15 @@ export class Rover {
             const targetRotation = Math.atan2(direction.x, direction.z);
             this.setRotation(targetRotation);
             
-            // Move towards next point - apply demo mode speed multiplier
-            const speedMultiplier = this.isDemoMode ? 50.0 : 1.0; // 50x faster in demo mode for judges
-            const moveDistance = this.options.speed * speedMultiplier * deltaTime;
+            // Move towards next point - apply demo mode speed multiplier. The speed is
+            // along the ground and drops on grades; only its horizontal part moves us on the map.
+            const speedMultiplier = this.isDemoMode ? DEMO_SPEED_MULTIPLIER : 1.0;
+            const segmentHorizontal = Math.hypot(nextPoint.x - currentPoint.x, nextPoint.y - currentPoint.y) / this.worldUnitsPerMetre;
+            const segmentRise = this.terrainElevationFunction(nextPoint.x, nextPoint.y) - this.terrainElevationFunction(currentPoint.x, currentPoint.y);
+            const segmentGround = Math.hypot(segmentHorizontal, segmentRise);
+            const groundSpeed = this.options.speed * EnergyModel.speedFactor(segmentGround, segmentRise);
+            const horizontalShare = segmentGround > 0 ? segmentHorizontal / segmentGround : 1;
+            const moveDistance = groundSpeed * horizontalShare * speedMultiplier * deltaTime * this.worldUnitsPerMetre;
             const distanceToNext = Math.sqrt(
                 Math.pow(nextPoint.x - this.state.position.x, 2) + 
                 Math.pow(nextPoint.y - this.state.position.z, 2)
@@ -408,8 +511,8 @@ export class Rover {
             return;
         }
         
-        // Update tracking metrics
-        const distanceMoved = this.state.position.distanceTo(prevPosition);
+        // Update tracking metrics (metres)
+        const distanceMoved = this.getGroundDistance(prevPosition.x, prevPosition.z, this.state.position.x, this.state.position.z);
         this.state.distanceTraveled += distanceMoved;
         this.state.currentSpeed = distanceMoved / deltaTime;
         this.state.lastPosition.copy(this.state.position);
@@ -419,30 +522,21 @@ export class Rover {
     }
     
     /**
-     * Calculate energy cost for movement between two points (realistic Mars rover values)
+     * Energy in Wh to drive between two points, from the shared energy model
      */
     private calculateEnergyCost(from: Point, to: Point): number {
-        const distance = Math.sqrt(
-            Math.pow(to.x - from.x, 2) + Math.pow(to.y - from.y, 2)
-        );
-        
-        // Base energy cost per unit distance (Wh per meter on Mars)
-        let energyCost = distance * 2.0; // Higher cost due to Mars conditions
-        
-        // Additional cost for elevation changes (uphill is much more expensive)
-        const heightDiff = this.terrainHeightFunction(to.x, to.y) - this.terrainHeightFunction(from.x, from.y);
-        if (heightDiff > 0) {
-            // Uphill movement - significantly more expensive
-            energyCost += heightDiff * 10.0;
-        } else {
-            // Downhill movement - some energy recovery
-            energyCost += Math.abs(heightDiff) * -2.0;
-        }
-        
-        // Energy efficiency factor
-        energyCost /= this.options.energyEfficiency;
-        
-        return Math.max(0, energyCost);
+        const distance = this.getGroundDistance(from.x, from.y, to.x, to.y);
+        const heightDiff = this.terrainElevationFunction(to.x, to.y) - this.terrainElevationFunction(from.x, from.y);
+        return EnergyModel.moveEnergy(distance, heightDiff, this.options.energyEfficiency);
+    }
+    
+    /**
+     * Distance in metres over the terrain surface between two world positions
+     */
+    private getGroundDistance(fromX: number, fromZ: number, toX: number, toZ: number): number {
+        const horizontal = Math.hypot(toX - fromX, toZ - fromZ) / this.worldUnitsPerMetre;
+        const vertical = this.terrainElevationFunction(toX, toZ) - this.terrainElevationFunction(fromX, fromZ);
+        return Math.hypot(horizontal, vertical);
     }
     
     /**
@@ -588,14 +682,21 @@ export class Rover {
     }
 
     /**
-     * Get distance traveled
+     * Get terrain elevation in metres under the rover
+     */
+    getElevation(): number {
+        return this.terrainElevationFunction(this.state.position.x, this.state.position.z);
+    }
+
+    /**
+     * Get distance traveled in metres
      */
     getDistanceTraveled(): number {
         return this.state.distanceTraveled;
     }
 
     /**
-     * Get current speed
+     * Get current speed in metres per second
      */
     getCurrentSpeed(): number {
         return this.state.currentSpeed;
@@ -609,9 +710,7 @@ export class Rover {
         
         const startPoint = this.path[0];
         const endPoint = this.path[this.path.length - 1];
-        const optimalDistance = Math.sqrt(
-            Math.pow(endPoint.x - startPoint.x, 2) + Math.pow(endPoint.y - startPoint.y, 2)
-        );
+        const optimalDistance = this.getGroundDistance(startPoint.x, startPoint.y, endPoint.x, endPoint.y);
         
         if (optimalDistance === 0) return 100;
         return Math.min(100, (optimalDistance / Math.max(this.state.distanceTraveled, optimalDistance)) * 100);
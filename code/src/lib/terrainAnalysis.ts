@@ -0,0 +1,228 @@
+/**
+ * Terrain Analysis - Per-cell slope, aspect, roughness and curvature grids,
+ * all in true metres, shared by terrain shading and the path planner
+ */
+
+import { CellRegion, HeightData } from './terrainLoader.js';
+
+export type TerrainLayer = 'slope' | 'aspect' | 'roughness' | 'profileCurvature' | 'planCurvature';
+
+// Computed layers per height data object; dropped with the data
+const layerCache: WeakMap<HeightData, Map<TerrainLayer, Float32Array>> = new WeakMap();
+
+// Aspect of cells with no measurable gradient
+export const FLAT_ASPECT = -1;
+
+export class TerrainAnalysis {
+    /**
+     * A layer grid (row-major, one value per cell), computed on first use and cached.
+     * Treat the result as read-only.
+     */
+    static getLayer(heightData: HeightData, layer: TerrainLayer): Float32Array {
+        let layers = layerCache.get(heightData);
+        if (!layers) {
+            layers = new Map();
+            layerCache.set(heightData, layers);
+        }
+        let grid = layers.get(layer);
+        if (!grid) {
+            grid = new Float32Array(heightData.width * heightData.height);
+            this.computeLayer(heightData, layer, grid, { x: 0, y: 0, width: heightData.width, height: heightData.height });
+            layers.set(layer, grid);
+        }
+        return grid;
+    }
+
+    /**
+     * Forget cached layers after heights were edited in place
+     */
+    static invalidate(heightData: HeightData): void {
+        layerCache.delete(heightData);
+    }
+
+    /**
+     * Recompute cached layers in place after the heights in a region changed.
+     * Every layer reads a 3×3 window, so the region grows by a cell on each
+     * side; returns the cells whose values were recomputed.
+     */
+    static updateRegion(heightData: HeightData, region: CellRegion): CellRegion {
+        const x0 = Math.max(0, region.x - 1);
+        const y0 = Math.max(0, region.y - 1);
+        const x1 = Math.min(heightData.width, region.x + region.width + 1);
+        const y1 = Math.min(heightData.height, region.y + region.height + 1);
+        const grown = { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+        const layers = layerCache.get(heightData);
+        if (layers) {
+            for (const [layer, grid] of layers) this.computeLayer(heightData, layer, grid, grown);
+        }
+        return grown;
+    }
+
+    /**
+     * Steepest slope in degrees from a cell to any of its 8 neighbours
+     */
+    static slopeAt(heightData: HeightData, x: number, y: number): number {
+        const { width, height, data, cellSize, verticalUnits } = heightData;
+        const center = data[y * width + x];
+        let maxSlope = 0;
+
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if ((dx === 0 && dy === 0) || nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+                const rise = Math.abs(data[ny * width + nx] - center) * verticalUnits;
+                const run = Math.sqrt(dx * dx + dy * dy) * cellSize;
+                maxSlope = Math.max(maxSlope, Math.atan(rise / run) * (180 / Math.PI));
+            }
+        }
+        return maxSlope;
+    }
+
+    /**
+     * Fill a layer grid over a region of cells
+     */
+    private static computeLayer(heightData: HeightData, layer: TerrainLayer, grid: Float32Array, region: CellRegion): void {
+        switch (layer) {
+            case 'slope':
+                return this.computeSlope(heightData, grid, region);
+            case 'aspect':
+                return this.computeAspect(heightData, grid, region);
+            case 'roughness':
+                return this.computeRoughness(heightData, grid, region);
+            case 'profileCurvature':
+                return this.computeCurvature(heightData, 'profile', grid, region);
+            case 'planCurvature':
+                return this.computeCurvature(heightData, 'plan', grid, region);
+        }
+    }
+
+    private static computeSlope(heightData: HeightData, slope: Float32Array, region: CellRegion): void {
+        const { width } = heightData;
+        for (let y = region.y; y < region.y + region.height; y++) {
+            for (let x = region.x; x < region.x + region.width; x++) {
+                slope[y * width + x] = this.slopeAt(heightData, x, y);
+            }
+        }
+    }
+
+    /**
+     * Compass direction each cell faces (downhill), in degrees: 0 = north (-y),
+     * 90 = east (+x); FLAT_ASPECT where the ground is level. Horn's 3×3 gradient.
+     */
+    private static computeAspect(heightData: HeightData, aspect: Float32Array, region: CellRegion): void {
+        const { width } = heightData;
+        const window = new Float64Array(9);
+
+        for (let y = region.y; y < region.y + region.height; y++) {
+            for (let x = region.x; x < region.x + region.width; x++) {
+                this.readWindow(heightData, x, y, window);
+                const [z1, z2, z3, z4, , z6, z7, z8, z9] = window;
+                const dzdx = (z3 + 2 * z6 + z9) - (z1 + 2 * z4 + z7);
+                const dzdy = (z7 + 2 * z8 + z9) - (z1 + 2 * z2 + z3);
+                if (Math.abs(dzdx) < 1e-9 && Math.abs(dzdy) < 1e-9) {
+                    aspect[y * width + x] = FLAT_ASPECT;
+                    continue;
+                }
+                // Downhill points along -gradient; north is -y
+                const degrees = Math.atan2(-dzdx, dzdy) * (180 / Math.PI);
+                aspect[y * width + x] = (degrees + 360) % 360;
+            }
+        }
+    }
+
+    /**
+     * RMS height residual in metres after removing the best-fit plane over the
+     * 3×3 neighbourhood; flat or evenly sloping ground scores 0
+     */
+    private static computeRoughness(heightData: HeightData, roughness: Float32Array, region: CellRegion): void {
+        const { width } = heightData;
+        const window = new Float64Array(9);
+
+        for (let y = region.y; y < region.y + region.height; y++) {
+            for (let x = region.x; x < region.x + region.width; x++) {
+                this.readWindow(heightData, x, y, window);
+                // Least-squares plane z = a + b·u + c·v on the symmetric u, v ∈ {-1, 0, 1} grid
+                let sum = 0;
+                let sumU = 0;
+                let sumV = 0;
+                for (let i = 0; i < 9; i++) {
+                    const u = (i % 3) - 1;
+                    const v = Math.floor(i / 3) - 1;
+                    sum += window[i];
+                    sumU += u * window[i];
+                    sumV += v * window[i];
+                }
+                const a = sum / 9;
+                const b = sumU / 6;
+                const c = sumV / 6;
+                let residual = 0;
+                for (let i = 0; i < 9; i++) {
+                    const diff = window[i] - (a + b * ((i % 3) - 1) + c * (Math.floor(i / 3) - 1));
+                    residual += diff * diff;
+                }
+                roughness[y * width + x] = Math.sqrt(residual / 9);
+            }
+        }
+    }
+
+    /**
+     * Zevenbergen & Thorne curvature in 1/m. Profile curvature is along the
+     * fall line (positive = convex break in slope, e.g. a crest); plan curvature
+     * is across it (positive = spreading spur, negative = converging gully).
+     */
+    private static computeCurvature(heightData: HeightData, kind: 'profile' | 'plan', curvature: Float32Array, region: CellRegion): void {
+        const { width, cellSize } = heightData;
+        const window = new Float64Array(9);
+        const spacing2 = cellSize * cellSize;
+
+        for (let y = region.y; y < region.y + region.height; y++) {
+            for (let x = region.x; x < region.x + region.width; x++) {
+                this.readWindow(heightData, x, y, window);
+                const [z1, z2, z3, z4, z5, z6, z7, z8, z9] = window;
+                const d = ((z4 + z6) / 2 - z5) / spacing2;
+                const e = ((z2 + z8) / 2 - z5) / spacing2;
+                const f = (-z1 + z3 + z7 - z9) / (4 * spacing2);
+                const g = (z6 - z4) / (2 * cellSize);
+                const h = (z2 - z8) / (2 * cellSize);
+                const gradient2 = g * g + h * h;
+                if (gradient2 < 1e-12) {
+                    curvature[y * width + x] = 0;
+                    continue;
+                }
+
+                curvature[y * width + x] = kind === 'profile'
+                    ? -2 * (d * g * g + e * h * h + f * g * h) / gradient2
+                    : -2 * (d * h * h + e * g * g - f * g * h) / gradient2;
+            }
+        }
+    }
+
+    /**
+     * 3×3 neighbourhood in metres, row by row from the north-west corner;
+     * edge cells repeat the nearest row or column
+     */
+    private static readWindow(heightData: HeightData, x: number, y: number, window: Float64Array): void {
+        const { width, height, data, verticalUnits } = heightData;
+        let i = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+            const ny = Math.min(height - 1, Math.max(0, y + dy));
+            for (let dx = -1; dx <= 1; dx++) {
+                const nx = Math.min(width - 1, Math.max(0, x + dx));
+                window[i++] = data[ny * width + nx] * verticalUnits;
+            }
+        }
+    }
+
+    /**
+     * Value below which the given fraction of the grid lies, for legend ranges
+     * that ignore a few extreme cells
+     */
+    static percentile(grid: Float32Array, fraction: number): number {
+        const step = Math.max(1, Math.floor(grid.length / 20000));
+        const sample: number[] = [];
+        for (let i = 0; i < grid.length; i += step) sample.push(grid[i]);
+        sample.sort((a, b) => a - b);
+        return sample[Math.min(sample.length - 1, Math.floor(fraction * sample.length))] ?? 0;
+    }
+}
@@ -0,0 +1,332 @@
+/**
+ * Terrain Erosion - Thermal (angle-of-repose) and particle-based hydraulic
+ * erosion of metric heightmaps, run in a Web Worker
+ */
+
+import { HeightData } from './terrainLoader.js';
+import { TerrainFeatures } from './terrainFeatures.js';
+
+export interface ErosionOptions {
+    seed?: number;
+    thermalIterations?: number; // Relaxation passes (0 = off)
+    talusAngle?: number; // Angle of repose in degrees; steeper slopes slump
+    hydraulicDroplets?: number; // Simulated raindrops (0 = off)
+    strength?: number; // 0-1, scales how much material each pass moves
+}
+
+export type ErosionProgress = (stage: 'thermal' | 'hydraulic', fraction: number) => void;
+
+/**
+ * Messages exchanged with erosionWorker.ts
+ */
+export interface ErosionRequest {
+    heights: Float32Array;
+    width: number;
+    height: number;
+    cellSize: number;
+    options: ErosionOptions;
+}
+
+export type ErosionResponse =
+    | { type: 'progress'; stage: 'thermal' | 'hydraulic'; fraction: number }
+    | { type: 'done'; heights: Float32Array }
+    | { type: 'error'; message: string };
+
+// Droplet simulation constants (heights in cell units, i.e. metres / cellSize)
+const DROPLET_INERTIA = 0.05;
+const DROPLET_CAPACITY = 4;
+const DROPLET_MIN_CAPACITY = 0.01;
+const DROPLET_DEPOSIT_RATE = 0.3;
+const DROPLET_ERODE_RATE = 0.3;
+const DROPLET_EVAPORATION = 0.01;
+const DROPLET_GRAVITY = 4;
+const DROPLET_MAX_STEPS = 64;
+const EROSION_RADIUS = 2;
+
+// Neighbour offsets with their ground distance in cells
+const NEIGHBORS = [
+    { dx: -1, dy: 0, dist: 1 }, { dx: 1, dy: 0, dist: 1 },
+    { dx: 0, dy: -1, dist: 1 }, { dx: 0, dy: 1, dist: 1 },
+    { dx: -1, dy: -1, dist: Math.SQRT2 }, { dx: 1, dy: -1, dist: Math.SQRT2 },
+    { dx: -1, dy: 1, dist: Math.SQRT2 }, { dx: 1, dy: 1, dist: Math.SQRT2 }
+];
+
+export class TerrainErosion {
+    /**
+     * Erode height data off the main thread. Returns new height data in metres;
+     * rejects with an 'AbortError' DOMException when the signal fires.
+     */
+    static erode(
+        heightData: HeightData,
+        options: ErosionOptions,
+        onProgress?: ErosionProgress,
+        signal?: AbortSignal
+    ): Promise<HeightData> {
+        const { width, height, cellSize, verticalUnits } = heightData;
+        const heights = heightData.data.map((value) => value * verticalUnits);
+        const request: ErosionRequest = { heights, width, height, cellSize, options };
+
+        return this.runInWorker(request, onProgress, signal)
+            .then((eroded) => this.toHeightData(heightData, eroded));
+    }
+
+    /**
+     * Run the erosion passes in place on a row-major metric grid
+     */
+    static run(request: ErosionRequest, onProgress?: ErosionProgress): Float32Array {
+        const { heights, width, height, cellSize, options } = request;
+        const strength = Math.max(0, Math.min(1, options.strength ?? 0.5));
+
+        if ((options.thermalIterations ?? 0) > 0) {
+            this.thermal(heights, width, height, cellSize, options.thermalIterations!,
+                options.talusAngle ?? 33, strength, onProgress);
+        }
+        if ((options.hydraulicDroplets ?? 0) > 0) {
+            this.hydraulic(heights, width, height, cellSize, options.hydraulicDroplets!,
+                strength, options.seed ?? 0, onProgress);
+        }
+        return heights;
+    }
+
+    /**
+     * Move material downhill wherever the slope exceeds the angle of repose
+     */
+    static thermal(
+        heights: Float32Array,
+        width: number,
+        height: number,
+        cellSize: number,
+        iterations: number,
+        talusAngle: number,
+        strength: number,
+        onProgress?: ErosionProgress
+    ): void {
+        const talus = Math.tan(talusAngle * Math.PI / 180) * cellSize;
+        const delta = new Float32Array(heights.length);
+        const reportEvery = Math.max(1, Math.floor(iterations / 50));
+
+        for (let iter = 0; iter < iterations; iter++) {
+            delta.fill(0);
+
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const index = y * width + x;
+                    const h = heights[index];
+                    let totalExcess = 0;
+                    let maxExcess = 0;
+
+                    for (const { dx, dy, dist } of NEIGHBORS) {
+                        const nx = x + dx;
+                        const ny = y + dy;
+                        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+                        const excess = h - heights[ny * width + nx] - talus * dist;
+                        if (excess > 0) {
+                            totalExcess += excess;
+                            maxExcess = Math.max(maxExcess, excess);
+                        }
+                    }
+                    if (totalExcess === 0) continue;
+
+                    // Shed half the worst excess, shared in proportion to each drop
+                    const moved = maxExcess * 0.5 * strength;
+                    delta[index] -= moved;
+                    for (const { dx, dy, dist } of NEIGHBORS) {
+                        const nx = x + dx;
+                        const ny = y + dy;
+                        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+                        const excess = h - heights[ny * width + nx] - talus * dist;
+                        if (excess > 0) delta[ny * width + nx] += moved * excess / totalExcess;
+                    }
+                }
+            }
+
+            for (let i = 0; i < heights.length; i++) heights[i] += delta[i];
+            if (onProgress && (iter + 1) % reportEvery === 0) onProgress('thermal', (iter + 1) / iterations);
+        }
+    }
+
+    /**
+     * Simulate raindrops that pick up sediment on steep descents and drop it
+     * where they slow down, carving channels and filling basins
+     */
+    static hydraulic(
+        heights: Float32Array,
+        width: number,
+        height: number,
+        cellSize: number,
+        droplets: number,
+        strength: number,
+        seed: number,
+        onProgress?: ErosionProgress
+    ): void {
+        // Work in cell units so the droplet constants do not depend on resolution
+        for (let i = 0; i < heights.length; i++) heights[i] /= cellSize;
+
+        const random = TerrainFeatures.createRandom(seed ^ 0x9E3779B9);
+        const brush = this.createBrush(EROSION_RADIUS);
+        const erodeRate = DROPLET_ERODE_RATE * strength;
+        const reportEvery = Math.max(1, Math.floor(droplets / 50));
+
+        for (let d = 0; d < droplets; d++) {
+            let posX = random() * (width - 1);
+            let posY = random() * (height - 1);
+            let dirX = 0;
+            let dirY = 0;
+            let speed = 1;
+            let water = 1;
+            let sediment = 0;
+
+            for (let step = 0; step < DROPLET_MAX_STEPS; step++) {
+                const cellX = Math.floor(posX);
+                const cellY = Math.floor(posY);
+                const offsetX = posX - cellX;
+                const offsetY = posY - cellY;
+                const here = this.sampleGradient(heights, width, posX, posY);
+
+                // Blend the downhill direction with the current heading
+                dirX = dirX * DROPLET_INERTIA - here.gradX * (1 - DROPLET_INERTIA);
+                dirY = dirY * DROPLET_INERTIA - here.gradY * (1 - DROPLET_INERTIA);
+                const len = Math.hypot(dirX, dirY);
+                if (len === 0) break;
+                dirX /= len;
+                dirY /= len;
+                posX += dirX;
+                posY += dirY;
+
+                if (posX < 0 || posX >= width - 1 || posY < 0 || posY >= height - 1) break;
+
+                const deltaHeight = this.sampleGradient(heights, width, posX, posY).height - here.height;
+                const capacity = Math.max(-deltaHeight * speed * water * DROPLET_CAPACITY, DROPLET_MIN_CAPACITY);
+
+                if (sediment > capacity || deltaHeight > 0) {
+                    // Uphill: fill the pit behind; otherwise drop the surplus
+                    const deposit = deltaHeight > 0
+                        ? Math.min(deltaHeight, sediment)
+                        : (sediment - capacity) * DROPLET_DEPOSIT_RATE;
+                    sediment -= deposit;
+                    const base = cellY * width + cellX;
+                    heights[base] += deposit * (1 - offsetX) * (1 - offsetY);
+                    heights[base + 1] += deposit * offsetX * (1 - offsetY);
+                    heights[base + width] += deposit * (1 - offsetX) * offsetY;
+                    heights[base + width + 1] += deposit * offsetX * offsetY;
+                } else {
+                    // Never dig deeper than the drop just descended
+                    const amount = Math.min((capacity - sediment) * erodeRate, -deltaHeight);
+                    for (const { dx, dy, weight } of brush) {
+                        const bx = cellX + dx;
+                        const by = cellY + dy;
+                        if (bx < 0 || bx >= width || by < 0 || by >= height) continue;
+                        const index = by * width + bx;
+                        const removed = amount * weight;
+                        heights[index] -= removed;
+                        sediment += removed;
+                    }
+                }
+
+                speed = Math.sqrt(Math.max(0, speed * speed + deltaHeight * -DROPLET_GRAVITY));
+                water *= 1 - DROPLET_EVAPORATION;
+            }
+
+            if (onProgress && (d + 1) % reportEvery === 0) onProgress('hydraulic', (d + 1) / droplets);
+        }
+
+        for (let i = 0; i < heights.length; i++) heights[i] *= cellSize;
+    }
+
+    /**
+     * Bilinear height and gradient at a fractional cell position
+     */
+    private static sampleGradient(heights: Float32Array, width: number, x: number, y: number): { height: number; gradX: number; gradY: number } {
+        const cellX = Math.floor(x);
+        const cellY = Math.floor(y);
+        const u = x - cellX;
+        const v = y - cellY;
+        const index = cellY * width + cellX;
+        const nw = heights[index];
+        const ne = heights[index + 1];
+        const sw = heights[index + width];
+        const se = heights[index + width + 1];
+
+        return {
+            height: nw * (1 - u) * (1 - v) + ne * u * (1 - v) + sw * (1 - u) * v + se * u * v,
+            gradX: (ne - nw) * (1 - v) + (se - sw) * v,
+            gradY: (sw - nw) * (1 - u) + (se - ne) * u
+        };
+    }
+
+    /**
+     * Cells within `radius` of a droplet with weights falling off linearly, summing to 1
+     */
+    private static createBrush(radius: number): Array<{ dx: number; dy: number; weight: number }> {
+        const brush: Array<{ dx: number; dy: number; weight: number }> = [];
+        let total = 0;
+        for (let dy = -radius; dy <= radius; dy++) {
+            for (let dx = -radius; dx <= radius; dx++) {
+                const weight = 1 - Math.hypot(dx, dy) / (radius + 1);
+                if (weight <= 0) continue;
+                brush.push({ dx, dy, weight });
+                total += weight;
+            }
+        }
+        brush.forEach((entry) => { entry.weight /= total; });
+        return brush;
+    }
+
+    /**
+     * Run a request in erosionWorker.ts, or on this thread when workers are unavailable
+     */
+    private static runInWorker(request: ErosionRequest, onProgress?: ErosionProgress, signal?: AbortSignal): Promise<Float32Array> {
+        if (typeof Worker === 'undefined') {
+            return Promise.resolve(this.run(request, onProgress));
+        }
+
+        return new Promise((resolve, reject) => {
+            const worker = new Worker(new URL('./erosionWorker.ts', import.meta.url), { type: 'module' });
+            const abort = () => {
+                worker.terminate();
+                reject(new DOMException('Erosion cancelled', 'AbortError'));
+            };
+            if (signal?.aborted) {
+                abort();
+                return;
+            }
+            signal?.addEventListener('abort', abort, { once: true });
+
+            worker.onmessage = (event: MessageEvent<ErosionResponse>) => {
+                const message = event.data;
+                if (message.type === 'progress') {
+                    onProgress?.(message.stage, message.fraction);
+                    return;
+                }
+                signal?.removeEventListener('abort', abort);
+                worker.terminate();
+                if (message.type === 'done') {
+                    resolve(message.heights);
+                } else {
+                    reject(new Error(message.message));
+                }
+            };
+            worker.onerror = (event) => {
+                signal?.removeEventListener('abort', abort);
+                worker.terminate();
+                reject(new Error(event.message || 'Erosion worker failed'));
+            };
+            worker.postMessage(request, [request.heights.buffer]);
+        });
+    }
+
+    /**
+     * Wrap an eroded metric grid back into height data, keeping the masks
+     */
+    private static toHeightData(source: HeightData, heights: Float32Array): HeightData {
+        let minHeight = Infinity;
+        let maxHeight = -Infinity;
+
+        for (let i = 0; i < heights.length; i++) {
+            minHeight = Math.min(minHeight, heights[i]);
+            maxHeight = Math.max(maxHeight, heights[i]);
+        }
+
+        return { ...source, data: heights, minHeight, maxHeight, verticalUnits: 1 };
+    }
+}
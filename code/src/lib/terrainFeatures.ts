@@ -0,0 +1,262 @@
+/**
+ * Terrain Features - Synthesizes impact craters, boulder fields and dune
+ * fields on top of a base heightmap, in metres
+ */
+
+import { HeightData } from './terrainLoader.js';
+
+export interface TerrainFeatureOptions {
+    seed?: number;
+    craterDensity?: number; // Craters at least craterMinDiameter wide per km²
+    craterMinDiameter?: number; // Metres (default 3 cells)
+    craterMaxDiameter?: number; // Metres (default a third of the map)
+    craterSlope?: number; // Exponent b of the cumulative size-frequency N(>D) ∝ D^-b
+    boulderDensity?: number; // Boulders at least boulderMinSize wide per hectare
+    boulderMinSize?: number; // Metres; smaller rocks are ignored
+    boulderMaxSize?: number; // Metres
+    duneAmplitude?: number; // Crest height in metres (0 = no dunes)
+    duneWavelength?: number; // Crest spacing in metres
+    duneDirection?: number; // Wind azimuth in degrees, 0 = +x, 90 = +y
+    duneCoverage?: number; // Fraction of the map, lowest ground first, covered by dunes
+}
+
+// Fresh simple craters: depth and rim height as fractions of the diameter
+const CRATER_DEPTH_RATIO = 0.2;
+const CRATER_RIM_RATIO = 0.04;
+// Ejecta blanket reaches this many crater radii from the centre
+const EJECTA_EXTENT = 3;
+// Boulders are half as tall as they are wide
+const BOULDER_ASPECT = 0.5;
+// Upper bounds that keep synthesis fast on large maps
+const MAX_CRATERS = 2000;
+const MAX_BOULDERS = 20000;
+
+export class TerrainFeatures {
+    /**
+     * Seeded PRNG (mulberry32) returning floats in [0, 1); identical in every JS engine
+     */
+    static createRandom(seed: number): () => number {
+        let state = seed >>> 0;
+        return () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+
+    /**
+     * Add features to a heightmap. Returns new height data in metres
+     * (verticalUnits 1); rocks smaller than a cell go into obstacleMask.
+     */
+    static apply(heightData: HeightData, options: TerrainFeatureOptions = {}): HeightData {
+        const { width, height, cellSize, verticalUnits } = heightData;
+        const random = this.createRandom(options.seed ?? 0);
+        const metres = heightData.data.map((value) => value * verticalUnits);
+        const obstacleMask = heightData.obstacleMask ? heightData.obstacleMask.slice() : new Uint8Array(width * height);
+
+        // Dunes first so craters and boulders sit on top of them
+        if ((options.duneAmplitude ?? 0) > 0) {
+            this.addDunes(metres, width, height, cellSize, options, random);
+        }
+        if ((options.craterDensity ?? 0) > 0) {
+            this.addCraters(metres, width, height, cellSize, options, random);
+        }
+        if ((options.boulderDensity ?? 0) > 0) {
+            this.addBoulders(metres, width, height, obstacleMask, cellSize, options, random);
+        }
+
+        let minHeight = Infinity;
+        let maxHeight = -Infinity;
+        for (let i = 0; i < metres.length; i++) {
+            minHeight = Math.min(minHeight, metres[i]);
+            maxHeight = Math.max(maxHeight, metres[i]);
+        }
+
+        return {
+            ...heightData,
+            data: metres,
+            minHeight,
+            maxHeight,
+            verticalUnits: 1,
+            obstacleMask: obstacleMask.some((value) => value === 1) ? obstacleMask : undefined
+        };
+    }
+
+    /**
+     * Stamp bowl + raised rim + ejecta craters drawn from a power-law size-frequency distribution
+     */
+    private static addCraters(
+        data: Float32Array,
+        width: number,
+        height: number,
+        cellSize: number,
+        options: TerrainFeatureOptions,
+        random: () => number
+    ): void {
+        const areaKm2 = (width * cellSize * height * cellSize) / 1e6;
+        const minDiameter = options.craterMinDiameter ?? cellSize * 3;
+        const maxDiameter = Math.max(minDiameter, options.craterMaxDiameter ?? Math.min(width, height) * cellSize / 3);
+        const slope = options.craterSlope ?? 2;
+        const count = Math.min(MAX_CRATERS, this.poissonCount(options.craterDensity! * areaKm2, random));
+
+        // Largest first, so small fresh craters overprint big old ones
+        const diameters: number[] = [];
+        for (let i = 0; i < count; i++) {
+            diameters.push(this.samplePowerLaw(minDiameter, maxDiameter, slope, random));
+        }
+        diameters.sort((a, b) => b - a);
+
+        for (const diameter of diameters) {
+            const cx = random() * width;
+            const cy = random() * height;
+            // Older craters are infilled and eroded: shallower bowl, lower rim
+            const freshness = 0.3 + 0.7 * random();
+            const depth = diameter * CRATER_DEPTH_RATIO * freshness;
+            const rim = diameter * CRATER_RIM_RATIO * freshness;
+            const radiusCells = diameter / 2 / cellSize;
+            const reach = Math.ceil(radiusCells * EJECTA_EXTENT);
+
+            for (let y = Math.max(0, Math.floor(cy - reach)); y <= Math.min(height - 1, Math.ceil(cy + reach)); y++) {
+                for (let x = Math.max(0, Math.floor(cx - reach)); x <= Math.min(width - 1, Math.ceil(cx + reach)); x++) {
+                    const r = Math.hypot(x - cx, y - cy) / radiusCells;
+                    if (r >= EJECTA_EXTENT) continue;
+                    data[y * width + x] += this.craterProfile(r, depth, rim);
+                }
+            }
+        }
+    }
+
+    /**
+     * Crater height offset at r crater radii from the centre
+     */
+    private static craterProfile(r: number, depth: number, rim: number): number {
+        if (r < 1) {
+            // Parabolic bowl rising from the floor to the rim crest
+            return -depth + (depth + rim) * r * r;
+        }
+        // Ejecta thins with the inverse cube of distance and ends at EJECTA_EXTENT
+        const tail = Math.pow(EJECTA_EXTENT, -3);
+        return rim * (Math.pow(r, -3) - tail) / (1 - tail);
+    }
+
+    /**
+     * Scatter rocks: those spanning a few cells become height bumps,
+     * smaller ones mark their cell as an obstacle
+     */
+    private static addBoulders(
+        data: Float32Array,
+        width: number,
+        height: number,
+        obstacleMask: Uint8Array,
+        cellSize: number,
+        options: TerrainFeatureOptions,
+        random: () => number
+    ): void {
+        const areaHa = (width * cellSize * height * cellSize) / 1e4;
+        const minSize = options.boulderMinSize ?? 0.5;
+        const maxSize = Math.max(minSize, options.boulderMaxSize ?? 4);
+        const count = Math.min(MAX_BOULDERS, this.poissonCount(options.boulderDensity! * areaHa, random));
+
+        for (let i = 0; i < count; i++) {
+            const size = this.samplePowerLaw(minSize, maxSize, 2.5, random);
+            const cx = random() * width;
+            const cy = random() * height;
+
+            if (size < cellSize * 1.5) {
+                obstacleMask[Math.floor(cy) * width + Math.floor(cx)] = 1;
+                continue;
+            }
+
+            // Half-ellipsoid bump
+            const radiusCells = size / 2 / cellSize;
+            const peak = size * BOULDER_ASPECT;
+            for (let y = Math.max(0, Math.floor(cy - radiusCells)); y <= Math.min(height - 1, Math.ceil(cy + radiusCells)); y++) {
+                for (let x = Math.max(0, Math.floor(cx - radiusCells)); x <= Math.min(width - 1, Math.ceil(cx + radiusCells)); x++) {
+                    const r = Math.hypot(x - cx, y - cy) / radiusCells;
+                    if (r < 1) data[y * width + x] += peak * Math.sqrt(1 - r * r);
+                }
+            }
+        }
+    }
+
+    /**
+     * Add transverse dunes (gentle stoss, steep lee) in the lowest parts of the map
+     */
+    private static addDunes(
+        data: Float32Array,
+        width: number,
+        height: number,
+        cellSize: number,
+        options: TerrainFeatureOptions,
+        random: () => number
+    ): void {
+        const amplitude = options.duneAmplitude!;
+        const wavelength = Math.max(cellSize * 2, options.duneWavelength ?? cellSize * 12);
+        const azimuth = (options.duneDirection ?? 0) * Math.PI / 180;
+        const coverage = Math.max(0, Math.min(1, options.duneCoverage ?? 0.5));
+        const dirX = Math.cos(azimuth);
+        const dirY = Math.sin(azimuth);
+
+        // Sand pools in lows: find the elevation below which `coverage` of the map lies
+        const sorted = data.slice().sort();
+        const fillLevel = sorted[Math.min(sorted.length - 1, Math.floor(coverage * sorted.length))];
+        const fadeBand = Math.max(1e-6, (sorted[sorted.length - 1] - sorted[0]) * 0.1);
+
+        // Crests meander slightly instead of running perfectly straight
+        const wobblePhase = random() * Math.PI * 2;
+        const wobbleLength = wavelength * (5 + random() * 5);
+        const stossFraction = 0.75;
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const mask = this.smoothstep((fillLevel - data[y * width + x]) / fadeBand + 0.5);
+                if (mask <= 0) continue;
+
+                const along = (x * dirX + y * dirY) * cellSize;
+                const across = (-x * dirY + y * dirX) * cellSize;
+                const phase = along / wavelength + 0.15 * Math.sin(across / wobbleLength * Math.PI * 2 + wobblePhase);
+                const t = phase - Math.floor(phase);
+                const profile = t < stossFraction ? t / stossFraction : (1 - t) / (1 - stossFraction);
+
+                data[y * width + x] += amplitude * this.smoothstep(profile) * mask;
+            }
+        }
+    }
+
+    /**
+     * Draw a size from a truncated power law with cumulative N(>D) ∝ D^-b
+     */
+    private static samplePowerLaw(min: number, max: number, exponent: number, random: () => number): number {
+        const tail = Math.pow(max / min, -exponent);
+        return min * Math.pow(1 - random() * (1 - tail), -1 / exponent);
+    }
+
+    /**
+     * Draw a Poisson-distributed count (normal approximation for large means)
+     */
+    private static poissonCount(mean: number, random: () => number): number {
+        if (mean <= 0) return 0;
+        if (mean > 50) {
+            const gaussian = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+            return Math.max(0, Math.round(mean + gaussian * Math.sqrt(mean)));
+        }
+        const limit = Math.exp(-mean);
+        let count = 0;
+        let product = random();
+        while (product > limit) {
+            count++;
+            product *= random();
+        }
+        return count;
+    }
+
+    /**
+     * Hermite ease from 0 to 1, clamped
+     */
+    private static smoothstep(t: number): number {
+        const c = Math.max(0, Math.min(1, t));
+        return c * c * (3 - 2 * c);
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * Terrain Knowledge - What the rover knows of the ground it plans over. It
+ * starts from a coarse orbital prior (the true heights averaged over blocks of
+ * cells and smoothed back onto the grid, as an orbiter's DEM would show them);
+ * cells the rover's cameras see take the true heights and rocks from then on.
+ */
+
+import { CellRegion, HeightData } from './terrainLoader.js';
+
+export interface SensorView {
+    x: number; // Rover position in cells (fractional)
+    y: number;
+    heading: number; // Rover yaw in radians: facing (sin, cos) in grid x, y
+    range: number; // Metres the cameras see to
+    fov: number; // Degrees across the cameras' view
+}
+
+// Orbital prior cells per side of one averaged block
+const DEFAULT_PRIOR_FACTOR = 8;
+
+// Metres around the rover seen whatever the heading (hazard cameras look down on all sides)
+const NEAR_FIELD = 3;
+
+export class TerrainKnowledge {
+    readonly belief: HeightData; // Prior heights with the seen cells filled in; plan over this
+    readonly known: Uint8Array; // 1 where the true heights have been seen
+    private truth: HeightData;
+    private knownCount = 0;
+
+    constructor(truth: HeightData, priorFactor = DEFAULT_PRIOR_FACTOR) {
+        this.truth = truth;
+        this.known = new Uint8Array(truth.width * truth.height);
+        this.belief = {
+            ...truth,
+            data: this.createPrior(Math.max(1, Math.round(priorFactor))),
+            noDataMask: truth.noDataMask?.slice(),
+            obstacleMask: undefined // Rocks are too small to see from orbit
+        };
+    }
+
+    /**
+     * Reveal the true terrain within the cameras' range and field of view;
+     * returns the bounding box of the cells seen for the first time, or null
+     * when there are none
+     */
+    sense(view: SensorView): CellRegion | null {
+        const { width, height, cellSize, data, obstacleMask } = this.truth;
+        const range = view.range / cellSize;
+        const near = NEAR_FIELD / cellSize;
+        const halfFov = view.fov / 2 * Math.PI / 180;
+        const facingX = Math.sin(view.heading);
+        const facingY = Math.cos(view.heading);
+        const x0 = Math.max(0, Math.floor(view.x - range));
+        const y0 = Math.max(0, Math.floor(view.y - range));
+        const x1 = Math.min(width - 1, Math.ceil(view.x + range));
+        const y1 = Math.min(height - 1, Math.ceil(view.y + range));
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+        for (let y = y0; y <= y1; y++) {
+            for (let x = x0; x <= x1; x++) {
+                const index = y * width + x;
+                if (this.known[index]) continue;
+                const dx = x - view.x;
+                const dy = y - view.y;
+                const distance = Math.hypot(dx, dy);
+                if (distance > range) continue;
+                if (distance > near && Math.acos(Math.max(-1, Math.min(1, (dx * facingX + dy * facingY) / distance))) > halfFov) continue;
+
+                this.known[index] = 1;
+                this.knownCount++;
+                this.belief.data[index] = data[index];
+                if (obstacleMask?.[index]) {
+                    this.belief.obstacleMask ??= new Uint8Array(width * height);
+                    this.belief.obstacleMask[index] = 1;
+                }
+                minX = Math.min(minX, x);
+                minY = Math.min(minY, y);
+                maxX = Math.max(maxX, x);
+                maxY = Math.max(maxY, y);
+            }
+        }
+        if (minX > maxX) return null;
+        return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+    }
+
+    /**
+     * Fraction of the map seen so far, 0 to 1
+     */
+    getKnownFraction(): number {
+        return this.knownCount / this.known.length;
+    }
+
+    /**
+     * Mean height of each factor × factor block (nodata cells left out),
+     * interpolated bilinearly between block centres back onto the full grid
+     */
+    private createPrior(factor: number): Float32Array {
+        const { width, height, data, noDataMask, minHeight } = this.truth;
+        const blocksX = Math.ceil(width / factor);
+        const blocksY = Math.ceil(height / factor);
+        const sums = new Float64Array(blocksX * blocksY);
+        const counts = new Uint32Array(blocksX * blocksY);
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const index = y * width + x;
+                if (noDataMask?.[index]) continue;
+                const block = Math.floor(y / factor) * blocksX + Math.floor(x / factor);
+                sums[block] += data[index];
+                counts[block]++;
+            }
+        }
+        const means = new Float32Array(blocksX * blocksY);
+        for (let i = 0; i < means.length; i++) means[i] = counts[i] > 0 ? sums[i] / counts[i] : minHeight;
+
+        const prior = new Float32Array(width * height);
+        for (let y = 0; y < height; y++) {
+            const v = Math.min(blocksY - 1, Math.max(0, (y + 0.5) / factor - 0.5));
+            const by = Math.floor(v);
+            const by1 = Math.min(blocksY - 1, by + 1);
+            const fy = v - by;
+            for (let x = 0; x < width; x++) {
+                const u = Math.min(blocksX - 1, Math.max(0, (x + 0.5) / factor - 0.5));
+                const bx = Math.floor(u);
+                const bx1 = Math.min(blocksX - 1, bx + 1);
+                const fx = u - bx;
+                const top = means[by * blocksX + bx] * (1 - fx) + means[by * blocksX + bx1] * fx;
+                const bottom = means[by1 * blocksX + bx] * (1 - fx) + means[by1 * blocksX + bx1] * fx;
+                prior[y * width + x] = top * (1 - fy) + bottom * fy;
+            }
+        }
+        return prior;
+    }
+}
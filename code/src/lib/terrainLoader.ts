@@ -2,18 +2,52 @@
  * Terrain Loader - Handles loading heightmap data from various sources
  */
 
+import { PNGDecoder } from './pngDecoder.js';
+import { DEMLoader, RasterGrid, RasterRegion } from './demLoader.js';
+import { PDSLoader } from './pdsLoader.js';
+import { TerrainFeatures, TerrainFeatureOptions } from './terrainFeatures.js';
+
 export interface HeightData {
     width: number;
     height: number;
-    data: number[][];
+    data: Float32Array; // Row-major, data[y * width + x]
     minHeight: number;
     maxHeight: number;
+    cellSize: number; // Ground resolution in metres per cell
+    verticalUnits: number; // Metres per height unit in data
+    noDataMask?: Uint8Array; // Row-major, 1 where the source had no elevation
+    obstacleMask?: Uint8Array; // Row-major, 1 where a rock too small to show in the grid blocks the cell
+}
+
+/**
+ * Rectangle of grid cells, e.g. an area whose heights were edited
+ */
+export interface CellRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
 }
 
+/**
+ * How PNG pixels are turned into heights:
+ * - 'gray8':  average of R, G and B (0-255), read through a canvas
+ * - 'gray16': first channel of a 16-bit grayscale PNG (0-65535)
+ * - 'rgb':    packed elevation, rgbBase + (R * 65536 + G * 256 + B) * rgbScale
+ */
+export type HeightDecoding = 'gray8' | 'gray16' | 'rgb';
+
 export interface LoadOptions {
     normalize?: boolean;
     scale?: number;
     offset?: number;
+    decoding?: HeightDecoding;
+    rgbBase?: number; // Height of a (0, 0, 0) pixel in 'rgb' decoding
+    rgbScale?: number; // Height step per packed RGB unit in 'rgb' decoding
+    region?: RasterRegion; // Source pixels to import from a DEM raster
+    maxSize?: number; // Downsample DEM rasters so neither side exceeds this
+    cellSize?: number; // Metres per cell when the source does not say (default 1)
+    verticalUnits?: number; // Metres per height unit after processing (default 1)
 }
 
 export class TerrainLoader {
@@ -21,6 +55,15 @@ export class TerrainLoader {
      * Load heightmap data from a PNG image
      */
     static async loadFromPNG(imagePath: string, options: LoadOptions = {}): Promise<HeightData> {
+        if ((options.decoding ?? 'gray8') !== 'gray8') {
+            // Canvas truncates to 8 bits per channel, so fetch and decode the bytes ourselves
+            const response = await fetch(imagePath);
+            if (!response.ok) {
+                throw new Error(`Failed to load image: ${imagePath} (HTTP ${response.status})`);
+            }
+            return this.loadFromPNGBuffer(await response.arrayBuffer(), options);
+        }
+        
         return new Promise((resolve, reject) => {
             const img = new Image();
             img.crossOrigin = 'anonymous';
@@ -55,22 +98,207 @@ export class TerrainLoader {
         });
     }
     
+    /**
+     * Load heightmap data from raw PNG bytes, keeping full sample precision
+     */
+    static async loadFromPNGBuffer(buffer: ArrayBuffer, options: LoadOptions = {}): Promise<HeightData> {
+        const { decoding = 'gray8', rgbBase = -10000, rgbScale = 0.1 } = options;
+        const png = await PNGDecoder.decode(buffer);
+        const { width, height, channels, samples } = png;
+        
+        if (decoding === 'rgb' && (channels < 3 || png.bitDepth !== 8)) {
+            throw new Error('Packed RGB decoding requires an 8-bit RGB or RGBA PNG.');
+        }
+        if (decoding === 'gray16' && png.bitDepth !== 16) {
+            throw new Error('16-bit grayscale decoding requires a 16-bit PNG; this one stores 8-bit samples.');
+        }
+        
+        const values = new Float32Array(width * height);
+        for (let p = 0; p < values.length; p++) {
+            const i = p * channels;
+            if (decoding === 'rgb') {
+                values[p] = rgbBase + (samples[i] * 65536 + samples[i + 1] * 256 + samples[i + 2]) * rgbScale;
+            } else if (decoding === 'gray16' || channels < 3) {
+                values[p] = samples[i];
+            } else {
+                values[p] = (samples[i] + samples[i + 1] + samples[i + 2]) / 3;
+            }
+        }
+        
+        return this.processHeightArray(values, width, height, options);
+    }
+    
     /**
      * Load heightmap data from JSON array
      */
     static async loadFromJSON(jsonPath: string, options: LoadOptions = {}): Promise<HeightData> {
         try {
             const response = await fetch(jsonPath);
-            const rawData = await response.json();
-            
-            if (!Array.isArray(rawData) || !Array.isArray(rawData[0])) {
-                throw new Error('Invalid JSON format. Expected 2D array.');
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status} ${response.statusText}`);
             }
+            const rawData: unknown = await response.json();
             
-            return this.processHeightArray(rawData, options);
+            return this.fromRows(this.validateHeightArray(rawData), options);
         } catch (error) {
-            throw new Error(`Failed to load JSON heightmap: ${error}`);
+            throw new Error(`Failed to load JSON heightmap: ${this.describeError(error)}`);
+        }
+    }
+    
+    /**
+     * Load heightmap data from a user-supplied file (JSON array or image)
+     */
+    static async loadFromFile(file: File, options: LoadOptions = {}): Promise<HeightData> {
+        const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+        
+        if (extension === 'json' || file.type === 'application/json') {
+            let rawData: unknown;
+            try {
+                rawData = JSON.parse(await file.text());
+            } catch (error) {
+                throw new Error(`${file.name} is not valid JSON: ${this.describeError(error)}`);
+            }
+            return this.fromRows(this.validateHeightArray(rawData), options);
+        }
+        
+        if ((options.decoding ?? 'gray8') !== 'gray8') {
+            if (extension !== 'png' && file.type !== 'image/png') {
+                throw new Error(`${options.decoding} decoding requires a .png heightmap, got "${file.name}".`);
+            }
+            return this.loadFromPNGBuffer(await file.arrayBuffer(), options);
+        }
+        
+        if (['png', 'jpg', 'jpeg', 'webp'].includes(extension) || file.type.startsWith('image/')) {
+            const objectUrl = URL.createObjectURL(file);
+            try {
+                return await this.loadFromPNG(objectUrl, options);
+            } finally {
+                URL.revokeObjectURL(objectUrl);
+            }
+        }
+        
+        throw new Error(`Unsupported terrain file "${file.name}". Expected a .json height array or a .png heightmap.`);
+    }
+    
+    /**
+     * Load heightmap data from one or more user-supplied files. Raw binary
+     * grids are paired with their sidecar .hdr header and PDS images with
+     * their .LBL / .xml label.
+     */
+    static async loadFromFiles(files: File[], options: LoadOptions = {}): Promise<HeightData> {
+        if (files.length === 0) {
+            throw new Error('No terrain file provided.');
+        }
+        
+        const extensionOf = (file: File) => file.name.split('.').pop()?.toLowerCase() ?? '';
+        const tiff = files.find((file) => ['tif', 'tiff'].includes(extensionOf(file)));
+        if (tiff) {
+            const grid = await DEMLoader.parseGeoTIFF(await tiff.arrayBuffer());
+            return this.fromRaster(DEMLoader.cropAndResample(grid, options.region, options.maxSize), options);
+        }
+        
+        const header = files.find((file) => extensionOf(file) === 'hdr');
+        if (header) {
+            const data = files.find((file) => file !== header && ['bil', 'flt', 'raw', 'bin', 'img', 'dat'].includes(extensionOf(file)));
+            if (!data) {
+                throw new Error(`Header ${header.name} was provided without its raw grid (.bil, .flt, .raw, .bin, .img or .dat).`);
+            }
+            const grid = DEMLoader.parseRawGrid(await data.arrayBuffer(), await header.text());
+            return this.fromRaster(DEMLoader.cropAndResample(grid, options.region, options.maxSize), options);
+        }
+        
+        if (files.some((file) => ['lbl', 'xml', 'img'].includes(extensionOf(file)))) {
+            const grid = await PDSLoader.load(files, { region: options.region, maxSize: options.maxSize });
+            return this.fromRaster(grid, options);
+        }
+        
+        const rawGrid = files.find((file) => ['bil', 'flt', 'raw', 'bin'].includes(extensionOf(file)));
+        if (rawGrid) {
+            throw new Error(`${rawGrid.name} is a raw grid; drop it together with its .hdr header file.`);
+        }
+        
+        return this.loadFromFile(files[0], options);
+    }
+    
+    /**
+     * Convert a decoded metric raster into height data. Nodata cells are
+     * filled with the lowest valid elevation and flagged in noDataMask.
+     */
+    static fromRaster(grid: RasterGrid, options: LoadOptions = {}): HeightData {
+        const { width, height, values, noDataValue } = grid;
+        const isNoData = (value: number) => !isFinite(value) || (noDataValue !== undefined && value === noDataValue);
+        
+        let minValid = Infinity;
+        for (let i = 0; i < values.length; i++) {
+            if (!isNoData(values[i])) minValid = Math.min(minValid, values[i]);
+        }
+        if (minValid === Infinity) {
+            throw new Error('The elevation raster contains only nodata values.');
+        }
+        
+        const noDataMask = new Uint8Array(width * height);
+        let noDataCount = 0;
+        const filled = values.slice();
+        for (let i = 0; i < filled.length; i++) {
+            if (isNoData(filled[i])) {
+                noDataMask[i] = 1;
+                noDataCount++;
+                filled[i] = minValid;
+            }
+        }
+        
+        const heightData = this.processHeightArray(filled, width, height, {
+            normalize: false,
+            ...options,
+            cellSize: grid.cellSize ?? options.cellSize
+        });
+        if (noDataCount > 0) {
+            heightData.noDataMask = noDataMask;
+        }
+        return heightData;
+    }
+    
+    /**
+     * Check that raw input is a rectangular 2D array of finite numbers
+     */
+    static validateHeightArray(rawData: unknown): number[][] {
+        if (!Array.isArray(rawData) || rawData.length === 0 || !Array.isArray(rawData[0])) {
+            throw new Error('Invalid JSON format. Expected 2D array.');
+        }
+        
+        const width = rawData[0].length;
+        if (width < 2 || rawData.length < 2) {
+            throw new Error(`Heightmap must be at least 2x2, got ${width}x${rawData.length}.`);
+        }
+        
+        for (let y = 0; y < rawData.length; y++) {
+            const row: unknown = rawData[y];
+            if (!Array.isArray(row)) {
+                throw new Error(`Row ${y} is not an array.`);
+            }
+            if (row.length !== width) {
+                throw new Error(`Ragged heightmap: row ${y} has ${row.length} values, expected ${width}.`);
+            }
+            for (let x = 0; x < width; x++) {
+                const value: unknown = row[x];
+                if (typeof value !== 'number' || !isFinite(value)) {
+                    throw new Error(`Non-numeric height ${JSON.stringify(value)} at row ${y}, column ${x}.`);
+                }
+            }
         }
+        
+        return rawData as number[][];
+    }
+    
+    /**
+     * Convert a validated 2D array into height data
+     */
+    static fromRows(rows: number[][], options: LoadOptions = {}): HeightData {
+        const width = rows[0].length;
+        const height = rows.length;
+        const values = new Float32Array(width * height);
+        rows.forEach((row, y) => values.set(row, y * width));
+        return this.processHeightArray(values, width, height, options);
     }
     
     /**
@@ -84,6 +312,8 @@ export class TerrainLoader {
             octaves?: number; 
             persistence?: number;
             lacunarity?: number;
+            seed?: number; // Shuffles the permutation table; omit for the classic table
+            features?: TerrainFeatureOptions; // Craters, boulders and dunes added in metres
         } = {}
     ): HeightData {
         const {
@@ -93,13 +323,17 @@ export class TerrainLoader {
             lacunarity = 2.0,
             normalize = true,
             scale = 1.0,
-            offset = 0
+            offset = 0,
+            cellSize,
+            verticalUnits,
+            seed,
+            features
         } = options;
         
-        const data: number[][] = [];
+        const perm = seed === undefined ? this.p : this.createPermutation(seed);
+        const data = new Float32Array(width * height);
         
         for (let y = 0; y < height; y++) {
-            const row: number[] = [];
             for (let x = 0; x < width; x++) {
                 let heightValue = 0;
                 let amplitude = 1;
@@ -111,19 +345,19 @@ export class TerrainLoader {
                     const sampleY = y * frequency * noiseScale;
                     
                     // Use proper Perlin noise
-                    const noise = this.perlinNoise(sampleX, sampleY);
+                    const noise = this.perlinNoise(sampleX, sampleY, perm);
                     heightValue += noise * amplitude;
                     
                     amplitude *= persistence;
                     frequency *= lacunarity;
                 }
                 
-                row.push(heightValue * scale + offset);
+                data[y * width + x] = heightValue * scale + offset;
             }
-            data.push(row);
         }
         
-        return this.processHeightArray(data, { normalize });
+        const heightData = this.processHeightArray(data, width, height, { normalize, cellSize, verticalUnits });
+        return features ? TerrainFeatures.apply(heightData, { seed, ...features }) : heightData;
     }
     
     /**
@@ -131,85 +365,79 @@ export class TerrainLoader {
      */
     private static extractHeightFromImageData(imageData: ImageData, options: LoadOptions): HeightData {
         const { width, height, data } = imageData;
-        const heightArray: number[][] = [];
+        const values = new Float32Array(width * height);
         
-        for (let y = 0; y < height; y++) {
-            const row: number[] = [];
-            for (let x = 0; x < width; x++) {
-                const pixelIndex = (y * width + x) * 4;
-                const r = data[pixelIndex];
-                const g = data[pixelIndex + 1];
-                const b = data[pixelIndex + 2];
-                
-                // Convert RGB to grayscale height value
-                const heightValue = (r + g + b) / 3;
-                row.push(heightValue);
-            }
-            heightArray.push(row);
+        for (let i = 0; i < values.length; i++) {
+            const pixelIndex = i * 4;
+            const r = data[pixelIndex];
+            const g = data[pixelIndex + 1];
+            const b = data[pixelIndex + 2];
+            
+            // Convert RGB to grayscale height value
+            values[i] = (r + g + b) / 3;
         }
         
-        return this.processHeightArray(heightArray, options);
+        return this.processHeightArray(values, width, height, options);
     }
     
     /**
-     * Process raw height array with normalization and scaling
+     * Normalize and scale a row-major height grid in place
      */
-    private static processHeightArray(rawData: number[][], options: LoadOptions): HeightData {
-        const { normalize = true, scale = 1.0, offset = 0 } = options;
-        const height = rawData.length;
-        const width = rawData[0].length;
+    private static processHeightArray(values: Float32Array, width: number, height: number, options: LoadOptions): HeightData {
+        const { normalize = true, scale = 1.0, offset = 0, cellSize = 1, verticalUnits = 1 } = options;
         
         // Find min and max values
         let minHeight = Infinity;
         let maxHeight = -Infinity;
         
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                minHeight = Math.min(minHeight, rawData[y][x]);
-                maxHeight = Math.max(maxHeight, rawData[y][x]);
-            }
+        for (let i = 0; i < values.length; i++) {
+            minHeight = Math.min(minHeight, values[i]);
+            maxHeight = Math.max(maxHeight, values[i]);
         }
         
         // Process the data
-        const processedData: number[][] = [];
-        
-        for (let y = 0; y < height; y++) {
-            const row: number[] = [];
-            for (let x = 0; x < width; x++) {
-                let value = rawData[y][x];
-                
-                if (normalize && maxHeight > minHeight) {
-                    // Normalize to 0-1 range
-                    value = (value - minHeight) / (maxHeight - minHeight);
-                }
-                
-                // Apply scaling and offset
-                value = value * scale + offset;
-                row.push(value);
+        const range = maxHeight - minHeight;
+        for (let i = 0; i < values.length; i++) {
+            let value = values[i];
+            
+            if (normalize && range > 0) {
+                // Normalize to 0-1 range
+                value = (value - minHeight) / range;
             }
-            processedData.push(row);
+            
+            // Apply scaling and offset
+            values[i] = value * scale + offset;
         }
         
         return {
             width,
             height,
-            data: processedData,
+            data: values,
             minHeight: normalize ? 0 : minHeight * scale + offset,
-            maxHeight: normalize ? scale + offset : maxHeight * scale + offset
+            maxHeight: normalize ? scale + offset : maxHeight * scale + offset,
+            cellSize,
+            verticalUnits
         };
     }
     
+    /**
+     * Extract a readable message from an unknown thrown value
+     */
+    private static describeError(error: unknown): string {
+        return error instanceof Error ? error.message : String(error);
+    }
+    
     /**
      * Perlin noise implementation for realistic terrain generation
      */
-    private static perlinNoise(x: number, y: number): number {
-        return this.noise(x, y);
+    private static perlinNoise(x: number, y: number, perm: number[]): number {
+        return this.noise(x, y, perm);
     }
 
     /**
      * 2D Perlin noise function
      */
-    private static noise(x: number, y: number): number {
+    private static noise(x: number, y: number, p: number[]): number {
         const X = Math.floor(x) & 255;
         const Y = Math.floor(y) & 255;
         
@@ -219,16 +447,16 @@ export class TerrainLoader {
         const u = this.fade(x);
         const v = this.fade(y);
         
-        const A = this.p[X] + Y;
-        const AA = this.p[A];
-        const AB = this.p[A + 1];
-        const B = this.p[X + 1] + Y;
-        const BA = this.p[B];
-        const BB = this.p[B + 1];
+        const A = p[X] + Y;
+        const AA = p[A];
+        const AB = p[A + 1];
+        const B = p[X + 1] + Y;
+        const BA = p[B];
+        const BB = p[B + 1];
         
         return this.lerp(v, 
-            this.lerp(u, this.grad(this.p[AA], x, y), this.grad(this.p[BA], x - 1, y)),
-            this.lerp(u, this.grad(this.p[AB], x, y - 1), this.grad(this.p[BB], x - 1, y - 1))
+            this.lerp(u, this.grad(p[AA], x, y), this.grad(p[BA], x - 1, y)),
+            this.lerp(u, this.grad(p[AB], x, y - 1), this.grad(p[BB], x - 1, y - 1))
         );
     }
 
@@ -256,6 +484,21 @@ export class TerrainLoader {
         return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
     }
 
+    /**
+     * Build a doubled Perlin permutation table by shuffling 0-255 with a seeded PRNG
+     */
+    private static createPermutation(seed: number): number[] {
+        const table = Array.from({ length: 256 }, (_, i) => i);
+        const random = TerrainFeatures.createRandom(seed);
+        
+        // Fisher-Yates shuffle
+        for (let i = table.length - 1; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            [table[i], table[j]] = [table[j], table[i]];
+        }
+        return table.concat(table);
+    }
+    
     /**
      * Permutation table for Perlin noise
      */
@@ -295,6 +538,13 @@ export class TerrainLoader {
         return Math.atan(heightDiff / distance) * (180 / Math.PI); // Convert to degrees
     }
     
+    /**
+     * Get elevation in metres at grid coordinates with bilinear interpolation
+     */
+    static getElevationAt(heightData: HeightData, x: number, y: number): number {
+        return this.getHeightAt(heightData, x, y) * heightData.verticalUnits;
+    }
+    
     /**
      * Get height at specific coordinates with bilinear interpolation
      */
@@ -316,10 +566,10 @@ export class TerrainLoader {
         const fy = y - y1;
         
         // Bilinear interpolation
-        const h11 = data[y1][x1];
-        const h12 = data[y2][x1];
-        const h21 = data[y1][x2];
-        const h22 = data[y2][x2];
+        const h11 = data[y1 * width + x1];
+        const h12 = data[y2 * width + x1];
+        const h21 = data[y1 * width + x2];
+        const h22 = data[y2 * width + x2];
         
         const h1 = h11 * (1 - fx) + h21 * fx;
         const h2 = h12 * (1 - fx) + h22 * fx;
@@ -1,23 +1,194 @@
 import * as THREE from 'three';
-import { HeightData } from './terrainLoader.js';
+import { CellRegion, HeightData, TerrainLoader } from './terrainLoader.js';
+import { ColorLegend, ColorRamp, ColorRamps } from './colorRamps.js';
+import { TerrainAnalysis, TerrainLayer } from './terrainAnalysis.js';
 
 
 
 
 
 export interface TerrainMeshOptions {
-    scale?: number;
-    heightScale?: number;
+    scale?: number; // World units per metre
+    heightScale?: number; // Vertical exaggeration (1 = true relief)
     wireframe?: boolean;
-    colorScheme?: 'height' | 'slope' | 'mars' | 'earth';
+    colorScheme?: TerrainColorScheme;
+    contourInterval?: number; // Metres between contour lines (0 = off)
+    indexContourEvery?: number; // Every Nth contour is drawn thicker and labelled
+    gridSpacing?: number; // Metres between coordinate grid lines (0 = off)
 }
 
+export type TerrainColorScheme =
+    | 'height' | 'slope' | 'mars' | 'earth' | 'aspect'
+    | 'roughness' | 'profileCurvature' | 'planCurvature'
+    | 'overlay';
+
+// Schemes drawn from a TerrainAnalysis grid rather than computed in the shader
+const ANALYSIS_SCHEMES: TerrainColorScheme[] = ['roughness', 'profileCurvature', 'planCurvature'];
+
+/**
+ * Quadtree node: a square of cells drawn as one patch, sampled every `stride` cells
+ */
+interface TerrainNode {
+    level: number;
+    x0: number;
+    y0: number;
+    size: number; // Cells per side
+    stride: number;
+}
+
+interface TerrainPatch {
+    mesh: THREE.Mesh;
+    lastUsed: number;
+}
+
+// Quads per patch side; leaves sample every cell
+const PATCH_SIZE = 64;
+// Split a node while the camera is closer than this many node widths
+const LOD_SPLIT_DISTANCE = 1.5;
+// New patches built per update(); the rest refine over the next frames
+const MAX_BUILDS_PER_UPDATE = 8;
+// Cached patches kept for reuse before the least recently used are freed
+const MAX_CACHED_PATCHES = 512;
+
+// Shader scheme ids, matching terrainColor() below
+const SCHEME_IDS: Record<TerrainColorScheme, number> = {
+    mars: 0, earth: 0, height: 0, slope: 1, aspect: 2,
+    roughness: 3, profileCurvature: 3, planCurvature: 3, overlay: 3
+};
+const MASK_NODATA = 1;
+const MASK_OBSTACLE = 2;
+
+const TERRAIN_VERTEX_HEADER = /* glsl */ `
+uniform vec2 terrainGridSize;
+uniform float terrainCellSpacing;
+varying vec2 vTerrainCell;
+`;
+
+const TERRAIN_FRAGMENT_HEADER = /* glsl */ `
+uniform sampler2D terrainHeightMap;
+uniform sampler2D terrainMaskMap;
+uniform sampler2D terrainOverlayMap;
+uniform sampler2D terrainRamp;
+uniform vec2 terrainGridSize;
+uniform float terrainCellSize;
+uniform float terrainVerticalUnits;
+uniform vec2 terrainDomain;
+uniform int terrainScheme;
+uniform bool terrainHasMask;
+uniform sampler2D terrainKnownMap;
+uniform bool terrainHasKnown;
+uniform float terrainContourInterval;
+uniform float terrainIndexEvery;
+uniform float terrainGridSpacing;
+varying vec2 vTerrainCell;
+
+float terrainFetch(sampler2D map, ivec2 cell) {
+    return texelFetch(map, clamp(cell, ivec2(0), ivec2(terrainGridSize) - 1), 0).r;
+}
+
+float terrainBilinear(sampler2D map, vec2 p) {
+    vec2 base = floor(p);
+    vec2 f = p - base;
+    ivec2 c = ivec2(base);
+    float a = terrainFetch(map, c);
+    float b = terrainFetch(map, c + ivec2(1, 0));
+    float d = terrainFetch(map, c + ivec2(0, 1));
+    float e = terrainFetch(map, c + ivec2(1, 1));
+    return mix(mix(a, b, f.x), mix(d, e, f.x), f.y);
+}
+
+// Height gradient in metres per metre, +x east and +y south
+vec2 terrainGradient(vec2 p) {
+    float dx = terrainBilinear(terrainHeightMap, p + vec2(1.0, 0.0)) - terrainBilinear(terrainHeightMap, p - vec2(1.0, 0.0));
+    float dy = terrainBilinear(terrainHeightMap, p + vec2(0.0, 1.0)) - terrainBilinear(terrainHeightMap, p - vec2(0.0, 1.0));
+    return vec2(dx, dy) * terrainVerticalUnits / (2.0 * terrainCellSize);
+}
+
+vec3 terrainColor(vec2 p) {
+    if (terrainHasMask) {
+        int mask = int(terrainFetch(terrainMaskMap, ivec2(floor(p + 0.5))) * 255.0 + 0.5);
+        if (mask == ${MASK_NODATA}) return vec3(0.15);
+        if (mask == ${MASK_OBSTACLE}) return vec3(0.22, 0.17, 0.14);
+    }
+
+    vec2 gradient = terrainGradient(p);
+    float slope = degrees(atan(length(gradient)));
+    float value;
+    if (terrainScheme == 1) {
+        value = slope;
+    } else if (terrainScheme == 2) {
+        // Compass direction the slope faces: 0 = north (-y), 90 = east (+x)
+        value = mod(degrees(atan(-gradient.x, gradient.y)) + 360.0, 360.0);
+    } else if (terrainScheme == 3) {
+        value = terrainBilinear(terrainOverlayMap, p);
+    } else {
+        value = terrainBilinear(terrainHeightMap, p);
+    }
+
+    float t = clamp((value - terrainDomain.x) / max(1e-6, terrainDomain.y - terrainDomain.x), 0.0, 1.0);
+    vec3 color = texture2D(terrainRamp, vec2(t, 0.5)).rgb;
+    if (terrainScheme == 2) {
+        // Flat ground has no meaningful aspect
+        color = mix(vec3(0.5), color, smoothstep(0.5, 3.0, slope));
+    }
+    return color;
+}
+
+// Anti-aliased coverage of a line of the given pixel width wherever value is an integer
+float terrainLine(float value, float width) {
+    float distance = abs(fract(value - 0.5) - 0.5) / max(fwidth(value), 1e-6);
+    return clamp(0.5 * width - distance + 0.5, 0.0, 1.0);
+}
+
+// Contour lines and coordinate grid drawn over the base color
+vec3 terrainOverlay(vec3 color, vec2 p) {
+    float contours = terrainBilinear(terrainHeightMap, p) * terrainVerticalUnits / max(terrainContourInterval, 1e-6);
+    float minor = terrainLine(contours, 1.0);
+    float major = terrainLine(contours / max(terrainIndexEvery, 1.0), 2.5);
+    vec2 grid = p * terrainCellSize / max(terrainGridSpacing, 1e-6);
+    float gridLine = max(terrainLine(grid.x, 1.0), terrainLine(grid.y, 1.0));
+
+    if (terrainContourInterval > 0.0) {
+        color = mix(color, vec3(0.12, 0.08, 0.05), max(minor * 0.55, major * 0.9));
+    }
+    if (terrainGridSpacing > 0.0) {
+        color = mix(color, vec3(0.85, 0.92, 1.0), gridLine * 0.6);
+    }
+    return color;
+}
+
+// Ground the rover has not seen yet is drawn dimmed, fading across the edge of what it has
+vec3 terrainFog(vec3 color, vec2 p) {
+    if (!terrainHasKnown) return color;
+    float seen = clamp(terrainBilinear(terrainKnownMap, p) * 255.0, 0.0, 1.0);
+    return mix(color * 0.35, color, seen);
+}
+`;
+
+// Most labels of each kind, so dense settings stay readable
+const MAX_CONTOUR_LABELS = 60;
+const MAX_GRID_LABELS = 40;
+
 export class TerrainMesh {
-    private mesh: THREE.Mesh;
-    private geometry: THREE.BufferGeometry;
-    private material: THREE.Material;
+    private group: THREE.Group;
+    private material: THREE.MeshStandardMaterial;
+    private uniforms: Record<string, THREE.IUniform>;
+    private heightTexture: THREE.DataTexture;
+    private maskTexture: THREE.DataTexture | null = null;
+    private knownTexture: THREE.DataTexture | null = null; // Cells the rover has seen, see setKnownMask
+    private knownMask: Uint8Array | null = null;
+    private rampTextures: Map<ColorRamp, THREE.DataTexture> = new Map();
+    private overlay: { texture: THREE.DataTexture; legend: ColorLegend; values: Float32Array } | null = null;
+    private analysisOverlays: Map<TerrainLayer, { texture: THREE.DataTexture; legend: ColorLegend }> = new Map();
+    private labels: THREE.Group = new THREE.Group();
     private heightData: HeightData;
     private options: Required<TerrainMeshOptions>;
+    private rootSize = PATCH_SIZE;
+    private patches: Map<string, TerrainPatch> = new Map();
+    private bounds: Map<string, { min: number; max: number }> = new Map();
+    private frame = 0;
+    private frustum = new THREE.Frustum();
+    private projScreenMatrix = new THREE.Matrix4();
     
     constructor(heightData: HeightData, options: TerrainMeshOptions = {}) {
         this.heightData = heightData;
@@ -25,62 +196,293 @@ export class TerrainMesh {
             scale: options.scale ?? 1.0,
             heightScale: options.heightScale ?? 1.0,
             wireframe: options.wireframe ?? false,
-            colorScheme: options.colorScheme ?? 'mars'
+            colorScheme: options.colorScheme ?? 'mars',
+            contourInterval: options.contourInterval ?? 0,
+            indexContourEvery: options.indexContourEvery ?? 5,
+            gridSpacing: options.gridSpacing ?? 0
         };
         
-        this.geometry = this.createGeometry();
+        this.group = new THREE.Group();
+        this.labels.name = 'terrain-labels';
+        this.group.add(this.labels);
+        this.heightTexture = this.createHeightTexture();
+        this.maskTexture = this.createMaskTexture();
+        this.uniforms = {
+            terrainHeightMap: { value: this.heightTexture },
+            terrainMaskMap: { value: this.maskTexture },
+            terrainOverlayMap: { value: this.heightTexture },
+            terrainRamp: { value: null },
+            terrainGridSize: { value: new THREE.Vector2() },
+            terrainCellSpacing: { value: 1 },
+            terrainCellSize: { value: 1 },
+            terrainVerticalUnits: { value: 1 },
+            terrainDomain: { value: new THREE.Vector2(0, 1) },
+            terrainScheme: { value: 0 },
+            terrainHasMask: { value: false },
+            terrainKnownMap: { value: null },
+            terrainHasKnown: { value: false },
+            terrainContourInterval: { value: 0 },
+            terrainIndexEvery: { value: 5 },
+            terrainGridSpacing: { value: 0 }
+        };
         this.material = this.createMaterial();
-        this.mesh = new THREE.Mesh(this.geometry, this.material);
+        this.updateUniforms();
+        this.resetQuadtree();
+        this.updateLabels();
+    }
+    
+    /**
+     * Choose and build the patches to draw for a camera. Call once per frame
+     * (and again for any other camera before rendering with it).
+     */
+    update(camera: THREE.Camera): void {
+        camera.updateMatrixWorld();
+        this.projScreenMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+        this.frustum.setFromProjectionMatrix(this.projScreenMatrix);
+        this.frame++;
+        
+        const selected: TerrainNode[] = [];
+        const budget = { builds: MAX_BUILDS_PER_UPDATE };
+        this.selectNodes(this.getRootNode(), camera.position, selected, budget);
+        
+        // Swap the drawn patches; hidden ones stay cached but out of the scene graph
+        // so they are neither rendered nor hit by raycasts
+        const wanted = new Set(selected.map((node) => this.nodeKey(node)));
+        for (const child of [...this.group.children]) {
+            if (child !== this.labels && !wanted.has(child.name)) this.group.remove(child);
+        }
+        for (const node of selected) {
+            const patch = this.getPatch(node);
+            if (patch.mesh.parent !== this.group) this.group.add(patch.mesh);
+        }
+        
+        this.evictPatches(wanted);
+    }
+    
+    /**
+     * Walk the quadtree, refining near the camera. A node is only replaced by its
+     * children once all of their visible patches exist, so the surface never has holes.
+     */
+    private selectNodes(node: TerrainNode, eye: THREE.Vector3, selected: TerrainNode[], budget: { builds: number }): void {
+        const box = this.getNodeBox(node);
+        if (!this.frustum.intersectsBox(box)) return;
+        
+        const nodeWidth = node.size * this.getCellSpacing();
+        if (node.stride > 1 && box.distanceToPoint(eye) < nodeWidth * LOD_SPLIT_DISTANCE) {
+            const children = this.getChildren(node).filter((child) => this.frustum.intersectsBox(this.getNodeBox(child)));
+            const ready = children.every((child) => {
+                if (this.patches.has(this.nodeKey(child))) return true;
+                if (budget.builds <= 0) return false;
+                budget.builds--;
+                this.getPatch(child);
+                return true;
+            });
+            if (ready) {
+                for (const child of children) this.selectNodes(child, eye, selected, budget);
+                return;
+            }
+        }
+        selected.push(node);
+    }
+    
+    /**
+     * Root node covering the whole grid with a power-of-two number of patch cells
+     */
+    private getRootNode(): TerrainNode {
+        return { level: 0, x0: 0, y0: 0, size: this.rootSize, stride: this.rootSize / PATCH_SIZE };
+    }
+    
+    /**
+     * Child quadrants that overlap the grid
+     */
+    private getChildren(node: TerrainNode): TerrainNode[] {
+        const half = node.size / 2;
+        const children: TerrainNode[] = [];
+        for (const [dx, dy] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+            const x0 = node.x0 + dx * half;
+            const y0 = node.y0 + dy * half;
+            if (x0 >= this.heightData.width - 1 || y0 >= this.heightData.height - 1) continue;
+            children.push({ level: node.level + 1, x0, y0, size: half, stride: node.stride / 2 });
+        }
+        return children;
+    }
+    
+    private nodeKey(node: TerrainNode): string {
+        return `${node.level}:${node.x0}:${node.y0}`;
+    }
+    
+    /**
+     * World-space bounding box of a node
+     */
+    private getNodeBox(node: TerrainNode): THREE.Box3 {
+        const { width, height } = this.heightData;
+        const { min, max } = this.getNodeHeightRange(node);
+        const spacing = this.getCellSpacing();
+        const verticalScale = this.getVerticalScale();
+        const x1 = Math.min(node.x0 + node.size, width - 1);
+        const y1 = Math.min(node.y0 + node.size, height - 1);
+        return new THREE.Box3(
+            new THREE.Vector3((node.x0 - width / 2) * spacing, min * verticalScale, (node.y0 - height / 2) * spacing),
+            new THREE.Vector3((x1 - width / 2) * spacing, max * verticalScale, (y1 - height / 2) * spacing)
+        );
+    }
+    
+    /**
+     * Min/max height under a node, memoized; parents combine their children
+     */
+    private getNodeHeightRange(node: TerrainNode): { min: number; max: number } {
+        const key = this.nodeKey(node);
+        const cached = this.bounds.get(key);
+        if (cached) return cached;
         
-        // Enable shadows
-        this.mesh.castShadow = true;
-        this.mesh.receiveShadow = true;
+        let min = Infinity;
+        let max = -Infinity;
+        if (node.stride > 1) {
+            for (const child of this.getChildren(node)) {
+                const range = this.getNodeHeightRange(child);
+                min = Math.min(min, range.min);
+                max = Math.max(max, range.max);
+            }
+        } else {
+            const { width, height, data } = this.heightData;
+            const x1 = Math.min(node.x0 + node.size, width - 1);
+            const y1 = Math.min(node.y0 + node.size, height - 1);
+            for (let y = node.y0; y <= y1; y++) {
+                for (let x = node.x0; x <= x1; x++) {
+                    const value = data[y * width + x];
+                    if (value < min) min = value;
+                    if (value > max) max = value;
+                }
+            }
+        }
+        
+        const range = { min, max };
+        this.bounds.set(key, range);
+        return range;
+    }
+    
+    /**
+     * Cached patch for a node, built on first use
+     */
+    private getPatch(node: TerrainNode): TerrainPatch {
+        const key = this.nodeKey(node);
+        let patch = this.patches.get(key);
+        if (!patch) {
+            const mesh = new THREE.Mesh(this.createPatchGeometry(node), this.material);
+            mesh.name = key;
+            mesh.castShadow = true;
+            mesh.receiveShadow = true;
+            mesh.userData.node = node;
+            patch = { mesh, lastUsed: this.frame };
+            this.patches.set(key, patch);
+        }
+        patch.lastUsed = this.frame;
+        return patch;
+    }
+    
+    /**
+     * Free the least recently used patches that are not on screen
+     */
+    private evictPatches(inUse: Set<string>): void {
+        if (this.patches.size <= MAX_CACHED_PATCHES) return;
+        const idle = [...this.patches.entries()]
+            .filter(([key]) => !inUse.has(key))
+            .sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+        for (const [key, patch] of idle.slice(0, this.patches.size - MAX_CACHED_PATCHES)) {
+            patch.mesh.geometry.dispose();
+            this.patches.delete(key);
+        }
     }
     
     /**
-     * Create the terrain geometry from height data
+     * Build a patch: a grid sampled every `stride` cells plus a skirt hanging
+     * below its edges that hides cracks against coarser neighbours
      */
-    private createGeometry(): THREE.BufferGeometry {
+    private createPatchGeometry(node: TerrainNode): THREE.BufferGeometry {
         const { width, height, data } = this.heightData;
-        const geometry = new THREE.BufferGeometry();
+        const { x0, y0, stride } = node;
+        const x1 = Math.min(x0 + node.size, width - 1);
+        const y1 = Math.min(y0 + node.size, height - 1);
+        const cols = Math.ceil((x1 - x0) / stride);
+        const rows = Math.ceil((y1 - y0) / stride);
+        const gridCount = (cols + 1) * (rows + 1);
+        const skirtCount = 2 * (cols + 1) + 2 * (rows + 1);
         
-        const vertices: number[] = [];
-        const uvs: number[] = [];
-        const indices: number[] = [];
+        const spacing = this.getCellSpacing();
+        const verticalScale = this.getVerticalScale();
+        const { min, max } = this.getNodeHeightRange(node);
+        const skirtDepth = (max - min) * verticalScale + stride * spacing;
         
-        // Generate vertices
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const heightValue = data[y][x] * this.options.heightScale;
-                const worldX = (x - width / 2) * this.options.scale;
-                const worldZ = (y - height / 2) * this.options.scale;
-                
-                vertices.push(worldX, heightValue, worldZ);
-                uvs.push(x / (width - 1), y / (height - 1));
+        const positions = new Float32Array((gridCount + skirtCount) * 3);
+        const normals = new Float32Array((gridCount + skirtCount) * 3);
+        const uvs = new Float32Array((gridCount + skirtCount) * 2);
+        const cells = new Uint32Array(gridCount + skirtCount); // Source cell of each vertex
+        const normal = new THREE.Vector3();
+        
+        const writeVertex = (v: number, x: number, y: number, drop: number) => {
+            const cell = y * width + x;
+            positions[v * 3] = (x - width / 2) * spacing;
+            positions[v * 3 + 1] = data[cell] * verticalScale - drop;
+            positions[v * 3 + 2] = (y - height / 2) * spacing;
+            
+            // Normals from the heightmap (not the patch triangles) match across seams
+            const xa = Math.max(0, x - stride);
+            const xb = Math.min(width - 1, x + stride);
+            const ya = Math.max(0, y - stride);
+            const yb = Math.min(height - 1, y + stride);
+            const dhdx = (data[y * width + xb] - data[y * width + xa]) * verticalScale / ((xb - xa) * spacing);
+            const dhdz = (data[yb * width + x] - data[ya * width + x]) * verticalScale / ((yb - ya) * spacing);
+            normal.set(-dhdx, 1, -dhdz).normalize();
+            normal.toArray(normals, v * 3);
+            
+            uvs[v * 2] = x / (width - 1);
+            uvs[v * 2 + 1] = y / (height - 1);
+            cells[v] = cell;
+        };
+        const columnX = (i: number) => Math.min(x0 + i * stride, x1);
+        const rowY = (j: number) => Math.min(y0 + j * stride, y1);
+        
+        for (let j = 0; j <= rows; j++) {
+            for (let i = 0; i <= cols; i++) {
+                writeVertex(j * (cols + 1) + i, columnX(i), rowY(j), 0);
             }
         }
         
-        // Generate indices for triangles
-        for (let y = 0; y < height - 1; y++) {
-            for (let x = 0; x < width - 1; x++) {
-                const topLeft = y * width + x;
+        const indices: number[] = [];
+        for (let j = 0; j < rows; j++) {
+            for (let i = 0; i < cols; i++) {
+                const topLeft = j * (cols + 1) + i;
                 const topRight = topLeft + 1;
-                const bottomLeft = (y + 1) * width + x;
+                const bottomLeft = topLeft + cols + 1;
                 const bottomRight = bottomLeft + 1;
-                
-                // First triangle
-                indices.push(topLeft, bottomLeft, topRight);
-                // Second triangle
-                indices.push(topRight, bottomLeft, bottomRight);
+                indices.push(topLeft, bottomLeft, topRight, topRight, bottomLeft, bottomRight);
             }
         }
         
-        geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
-        geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
-        geometry.setIndex(indices);
+        // Skirts: each edge's vertices duplicated and dropped below the surface
+        let v = gridCount;
+        const edges = [
+            Array.from({ length: cols + 1 }, (_, i) => i),
+            Array.from({ length: cols + 1 }, (_, i) => rows * (cols + 1) + i),
+            Array.from({ length: rows + 1 }, (_, j) => j * (cols + 1)),
+            Array.from({ length: rows + 1 }, (_, j) => j * (cols + 1) + cols)
+        ];
+        for (const edge of edges) {
+            const first = v;
+            for (const gridVertex of edge) {
+                const cell = cells[gridVertex];
+                writeVertex(v++, cell % width, Math.floor(cell / width), skirtDepth);
+            }
+            for (let k = 0; k < edge.length - 1; k++) {
+                indices.push(edge[k], first + k, edge[k + 1], edge[k + 1], first + k, first + k + 1);
+            }
+        }
         
-        // Let Three.js compute smooth vertex normals
-        geometry.computeVertexNormals();
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+        geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+        geometry.setIndex(indices);
         
         geometry.computeBoundingBox();
         geometry.computeBoundingSphere();
@@ -89,203 +491,480 @@ export class TerrainMesh {
     }
     
     /**
-     * Create material with height-based coloring
+     * Shared material for every patch, colored in the fragment shader from the
+     * heightmap texture and a color-ramp texture
      */
-    private createMaterial(): THREE.Material {
-        const { width, height, data } = this.heightData;
-        
-        // Create vertex colors depending on selected scheme
-        const colors: number[] = [];
-        
-        if (this.options.colorScheme === 'slope') {
-            // Real slope-based coloring
-            for (let y = 0; y < height; y++) {
-                for (let x = 0; x < width; x++) {
-                    const slopeDeg = this.computeSlopeAt(x, y);
-                    const color = this.getSlopeColorDegrees(slopeDeg);
-                    colors.push(color.r, color.g, color.b);
-                }
-            }
-        } else {
-            // Height-based coloring
-            for (let y = 0; y < height; y++) {
-                for (let x = 0; x < width; x++) {
-                    const heightValue = data[y][x];
-                    const normalizedHeight = Math.max(0, Math.min(1, 
-                        (heightValue - this.heightData.minHeight) / 
-                        Math.max(0.001, this.heightData.maxHeight - this.heightData.minHeight)
-                    ));
-                    
-                    const color = this.getColorForHeight(normalizedHeight);
-                    colors.push(color.r, color.g, color.b);
-                }
-            }
-        }
-        
-        // Ensure we have the right number of colors
-        console.log(`Created ${colors.length / 3} vertex colors for ${width * height} vertices`);
-        
-        this.geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
-        
+    private createMaterial(): THREE.MeshStandardMaterial {
         const material = new THREE.MeshStandardMaterial({
-            vertexColors: true,
             wireframe: this.options.wireframe,
             side: THREE.DoubleSide,
             roughness: 0.9,
-            metalness: 0.0,
-            // Fallback color in case vertex colors fail
-            color: 0xcc6644
+            metalness: 0.0
         });
         
+        material.onBeforeCompile = (shader) => {
+            Object.assign(shader.uniforms, this.uniforms);
+            shader.vertexShader = shader.vertexShader
+                .replace('#include <common>', `#include <common>\n${TERRAIN_VERTEX_HEADER}`)
+                .replace(
+                    '#include <begin_vertex>',
+                    '#include <begin_vertex>\nvTerrainCell = transformed.xz / terrainCellSpacing + terrainGridSize * 0.5;'
+                );
+            shader.fragmentShader = shader.fragmentShader
+                .replace('#include <common>', `#include <common>\n${TERRAIN_FRAGMENT_HEADER}`)
+                .replace(
+                    '#include <color_fragment>',
+                    '#include <color_fragment>\ndiffuseColor.rgb = terrainFog(terrainOverlay(terrainColor(vTerrainCell), vTerrainCell), vTerrainCell);'
+                );
+        };
+        material.customProgramCacheKey = () => 'terrain-ramp';
+        
         return material;
     }
     
     /**
-     * Get color based on height value
+     * Heights as a float texture; shares the height data's array
      */
-    private getColorForHeight(normalizedHeight: number): THREE.Color {
+    private createHeightTexture(): THREE.DataTexture {
+        const { width, height, data } = this.heightData;
+        const texture = new THREE.DataTexture(data as Float32Array<ArrayBuffer>, width, height, THREE.RedFormat, THREE.FloatType);
+        texture.magFilter = THREE.NearestFilter;
+        texture.minFilter = THREE.NearestFilter;
+        texture.needsUpdate = true;
+        return texture;
+    }
+    
+    /**
+     * Nodata and obstacle cells packed into one byte texture, or null when there are none
+     */
+    private createMaskTexture(): THREE.DataTexture | null {
+        const { width, height, noDataMask, obstacleMask } = this.heightData;
+        if (!noDataMask && !obstacleMask) return null;
+        
+        const mask = new Uint8Array(width * height);
+        for (let i = 0; i < mask.length; i++) {
+            if (noDataMask?.[i]) mask[i] = MASK_NODATA;
+            else if (obstacleMask?.[i]) mask[i] = MASK_OBSTACLE;
+        }
+        const texture = new THREE.DataTexture(mask, width, height, THREE.RedFormat, THREE.UnsignedByteType);
+        texture.magFilter = THREE.NearestFilter;
+        texture.minFilter = THREE.NearestFilter;
+        texture.unpackAlignment = 1;
+        texture.needsUpdate = true;
+        return texture;
+    }
+    
+    /**
+     * Ramp texture for a color ramp, created once and reused
+     */
+    private getRampTexture(ramp: ColorRamp): THREE.DataTexture {
+        let texture = this.rampTextures.get(ramp);
+        if (!texture) {
+            texture = ColorRamps.createTexture(ramp);
+            this.rampTextures.set(ramp, texture);
+        }
+        return texture;
+    }
+    
+    /**
+     * Push grid, scale and color scheme settings to the shader
+     */
+    private updateUniforms(): void {
+        const { width, height, cellSize, verticalUnits } = this.heightData;
+        const legend = this.getLegend();
+        const scheme = this.options.colorScheme === 'overlay' && !this.overlay ? 'mars' : this.options.colorScheme;
+        
+        this.uniforms.terrainHeightMap.value = this.heightTexture;
+        this.uniforms.terrainMaskMap.value = this.maskTexture ?? this.heightTexture;
+        this.uniforms.terrainHasMask.value = this.maskTexture !== null;
+        this.uniforms.terrainKnownMap.value = this.knownTexture ?? this.heightTexture;
+        this.uniforms.terrainHasKnown.value = this.knownTexture !== null;
+        this.uniforms.terrainOverlayMap.value = ANALYSIS_SCHEMES.includes(scheme)
+            ? this.getAnalysisOverlay(scheme as TerrainLayer).texture
+            : this.overlay?.texture ?? this.heightTexture;
+        this.uniforms.terrainGridSize.value.set(width, height);
+        this.uniforms.terrainCellSpacing.value = this.getCellSpacing();
+        this.uniforms.terrainCellSize.value = cellSize;
+        this.uniforms.terrainVerticalUnits.value = verticalUnits;
+        this.uniforms.terrainScheme.value = SCHEME_IDS[scheme];
+        this.uniforms.terrainContourInterval.value = this.options.contourInterval;
+        this.uniforms.terrainIndexEvery.value = this.options.indexContourEvery;
+        this.uniforms.terrainGridSpacing.value = this.options.gridSpacing;
+        this.uniforms.terrainRamp.value = this.getRampTexture(legend.ramp);
+        
+        // Height schemes compare raw data values; the legend shows metres
+        const toData = SCHEME_IDS[scheme] === 0 ? 1 / verticalUnits : 1;
+        this.uniforms.terrainDomain.value.set(legend.min * toData, legend.max * toData);
+    }
+    
+    /**
+     * Legend for the current color scheme: the same ramp and range the shader uses
+     */
+    getLegend(): ColorLegend {
+        const { minHeight, maxHeight, verticalUnits } = this.heightData;
         switch (this.options.colorScheme) {
-            case 'mars':
-                return this.getMarsColor(normalizedHeight);
-            case 'earth':
-                return this.getEarthColor(normalizedHeight);
-            case 'height':
-                return this.getHeightColor(normalizedHeight);
-            default:
-                return this.getMarsColor(normalizedHeight);
+            case 'slope':
+                return { title: 'Terrain Slope', units: '°', min: 0, max: 45, ramp: ColorRamps.slope };
+            case 'aspect':
+                return { title: 'Slope Aspect', units: '°', min: 0, max: 360, ramp: ColorRamps.aspect };
+            case 'roughness':
+            case 'profileCurvature':
+            case 'planCurvature':
+                return this.getAnalysisOverlay(this.options.colorScheme).legend;
+            case 'overlay':
+                if (this.overlay) return this.overlay.legend;
+                break;
         }
+        const ramp = this.options.colorScheme === 'earth' ? ColorRamps.earth
+            : this.options.colorScheme === 'height' ? ColorRamps.height
+            : ColorRamps.mars;
+        return { title: 'Elevation', units: 'm', min: minHeight * verticalUnits, max: maxHeight * verticalUnits, ramp };
     }
     
     /**
-     * Mars-like color scheme
+     * Texture and legend for an analysis layer, computed on first use. Ranges
+     * skip the most extreme 2% of cells so a few spikes do not wash out the map.
      */
-    private getMarsColor(normalizedHeight: number): THREE.Color {
-        if (normalizedHeight < 0.2) {
-            // Low areas - darker red/brown
-            return new THREE.Color(0.4, 0.2, 0.1);
-        } else if (normalizedHeight < 0.4) {
-            // Medium-low - reddish brown
-            return new THREE.Color(0.6, 0.3, 0.2);
-        } else if (normalizedHeight < 0.6) {
-            // Medium - orange-red
-            return new THREE.Color(0.8, 0.4, 0.2);
-        } else if (normalizedHeight < 0.8) {
-            // Medium-high - lighter orange
-            return new THREE.Color(0.9, 0.5, 0.3);
-        } else {
-            // High areas - light orange/yellow
-            return new THREE.Color(1.0, 0.7, 0.4);
+    private getAnalysisOverlay(layer: TerrainLayer): { texture: THREE.DataTexture; legend: ColorLegend } {
+        let analysis = this.analysisOverlays.get(layer);
+        if (!analysis) {
+            const grid = TerrainAnalysis.getLayer(this.heightData, layer);
+            let legend: ColorLegend;
+            if (layer === 'roughness') {
+                const max = Math.max(1e-3, TerrainAnalysis.percentile(grid, 0.98));
+                legend = { title: 'Roughness (RMS)', units: 'm', min: 0, max, ramp: ColorRamps.roughness };
+            } else {
+                const extent = Math.max(
+                    1e-4,
+                    -TerrainAnalysis.percentile(grid, 0.02),
+                    TerrainAnalysis.percentile(grid, 0.98)
+                );
+                const title = layer === 'profileCurvature' ? 'Profile Curvature' : 'Plan Curvature';
+                legend = { title, units: '1/m', min: -extent, max: extent, ramp: ColorRamps.diverging };
+            }
+            
+            const { width, height } = this.heightData;
+            const texture = new THREE.DataTexture(grid as Float32Array<ArrayBuffer>, width, height, THREE.RedFormat, THREE.FloatType);
+            texture.magFilter = THREE.NearestFilter;
+            texture.minFilter = THREE.NearestFilter;
+            texture.needsUpdate = true;
+            analysis = { texture, legend };
+            this.analysisOverlays.set(layer, analysis);
         }
+        return analysis;
+    }
+    
+    private disposeAnalysisOverlays(): void {
+        for (const analysis of this.analysisOverlays.values()) analysis.texture.dispose();
+        this.analysisOverlays.clear();
     }
     
     /**
-     * Earth-like color scheme
+     * Show a per-cell value layer (one value per grid cell, in legend units)
+     * when colorScheme is 'overlay'. Call again with the same array after it
+     * changes to re-upload it; pass null to remove it.
      */
-    private getEarthColor(normalizedHeight: number): THREE.Color {
-        if (normalizedHeight < 0.2) {
-            // Water - blue
-            return new THREE.Color(0.2, 0.4, 0.8);
-        } else if (normalizedHeight < 0.4) {
-            // Sand - yellow
-            return new THREE.Color(0.8, 0.7, 0.4);
-        } else if (normalizedHeight < 0.6) {
-            // Grass - green
-            return new THREE.Color(0.3, 0.7, 0.3);
-        } else if (normalizedHeight < 0.8) {
-            // Rock - gray
-            return new THREE.Color(0.5, 0.5, 0.5);
-        } else {
-            // Snow - white
-            return new THREE.Color(0.9, 0.9, 0.9);
+    setOverlay(values: Float32Array | null, legend?: ColorLegend): void {
+        if (values && legend && this.overlay?.values === values) {
+            this.overlay.texture.needsUpdate = true;
+            this.overlay.legend = legend;
+            this.updateUniforms();
+            return;
+        }
+        this.overlay?.texture.dispose();
+        this.overlay = null;
+        
+        if (values && legend) {
+            const { width, height } = this.heightData;
+            const texture = new THREE.DataTexture(values as Float32Array<ArrayBuffer>, width, height, THREE.RedFormat, THREE.FloatType);
+            texture.magFilter = THREE.NearestFilter;
+            texture.minFilter = THREE.NearestFilter;
+            texture.needsUpdate = true;
+            this.overlay = { texture, legend, values };
         }
+        this.updateUniforms();
     }
     
     /**
-     * Simple height-based color scheme
+     * Dim the cells the rover has not seen (0 in the mask, one byte per cell).
+     * Call again with the same array after it changes to re-upload it; pass
+     * null to show the whole terrain.
      */
-    private getHeightColor(normalizedHeight: number): THREE.Color {
-        return new THREE.Color(normalizedHeight, normalizedHeight, normalizedHeight);
+    setKnownMask(mask: Uint8Array | null): void {
+        if (mask && this.knownTexture && mask === this.knownMask) {
+            this.knownTexture.needsUpdate = true;
+            return;
+        }
+        this.knownTexture?.dispose();
+        this.knownTexture = null;
+        this.knownMask = mask;
+        
+        if (mask) {
+            const { width, height } = this.heightData;
+            const texture = new THREE.DataTexture(mask as Uint8Array<ArrayBuffer>, width, height, THREE.RedFormat, THREE.UnsignedByteType);
+            texture.magFilter = THREE.NearestFilter;
+            texture.minFilter = THREE.NearestFilter;
+            texture.unpackAlignment = 1;
+            texture.needsUpdate = true;
+            this.knownTexture = texture;
+        }
+        this.updateUniforms();
     }
     
     /**
-     * Compute local slope in degrees at a grid coordinate using finite differences
+     * Rebuild elevation labels on index contours and metre labels along the grid edges
      */
-    private computeSlopeAt(x: number, y: number): number {
-        const { width, height, data } = this.heightData;
-        const current = data[y][x] * this.options.heightScale;
-        const neighbors: Array<{ nx: number; ny: number; dist: number }> = [];
-        
-        if (x > 0) neighbors.push({ nx: x - 1, ny: y, dist: this.options.scale });
-        if (x < width - 1) neighbors.push({ nx: x + 1, ny: y, dist: this.options.scale });
-        if (y > 0) neighbors.push({ nx: x, ny: y - 1, dist: this.options.scale });
-        if (y < height - 1) neighbors.push({ nx: x, ny: y + 1, dist: this.options.scale });
-        
-        // Include diagonals for a more representative slope
-        const diag = this.options.scale * Math.SQRT2;
-        if (x > 0 && y > 0) neighbors.push({ nx: x - 1, ny: y - 1, dist: diag });
-        if (x < width - 1 && y > 0) neighbors.push({ nx: x + 1, ny: y - 1, dist: diag });
-        if (x > 0 && y < height - 1) neighbors.push({ nx: x - 1, ny: y + 1, dist: diag });
-        if (x < width - 1 && y < height - 1) neighbors.push({ nx: x + 1, ny: y + 1, dist: diag });
-        
-        let maxSlope = 0;
-        for (const { nx, ny, dist } of neighbors) {
-            const neighbor = data[ny][nx] * this.options.heightScale;
-            const rise = Math.abs(neighbor - current);
-            const slope = Math.atan(rise / dist) * (180 / Math.PI);
-            if (slope > maxSlope) maxSlope = slope;
+    private updateLabels(): void {
+        this.clearLabels();
+        const { contourInterval, indexContourEvery, gridSpacing } = this.options;
+        if (contourInterval > 0) this.addContourLabels(contourInterval * Math.max(1, indexContourEvery));
+        if (gridSpacing > 0) this.addGridLabels(gridSpacing);
+    }
+    
+    private clearLabels(): void {
+        for (const label of [...this.labels.children] as THREE.Sprite[]) {
+            this.labels.remove(label);
+            label.material.map?.dispose();
+            label.material.dispose();
         }
-        return maxSlope;
     }
-
+    
     /**
-     * Map slope degrees to color (green flat → red steep)
+     * Label index contours where they cross a coarse lattice of rows, spread out
+     * so labels neither crowd together nor repeat the same level close by
      */
-    private getSlopeColorDegrees(slopeDeg: number): THREE.Color {
-        // Clamp and normalize to 0..1 using 45° as a typical steepness cap
-        const t = Math.max(0, Math.min(1, slopeDeg / 45));
-        // Gradient: green (0) → yellow (0.5) → red (1)
-        if (t < 0.5) {
-            const u = t / 0.5; // 0..1
-            return new THREE.Color(0.2 + 0.6 * u, 0.8, 0.2); // green → yellowish
-        } else {
-            const u = (t - 0.5) / 0.5; // 0..1
-            return new THREE.Color(0.8, 0.8 - 0.6 * u, 0.2); // yellow → red
+    private addContourLabels(indexInterval: number): void {
+        const { width, height, data, verticalUnits } = this.heightData;
+        const span = Math.max(width, height);
+        const step = Math.max(1, Math.round(span / 48));
+        const minSpacing = span / 16;
+        const sameLevelSpacing = span / 5;
+        const placed: Array<{ x: number; y: number; level: number }> = [];
+        
+        for (let y = step; y < height - step && placed.length < MAX_CONTOUR_LABELS; y += step * 3) {
+            for (let x = 0; x + step < width && placed.length < MAX_CONTOUR_LABELS; x += step) {
+                const e0 = data[y * width + x] * verticalUnits;
+                const e1 = data[y * width + x + step] * verticalUnits;
+                const k0 = Math.floor(e0 / indexInterval);
+                const k1 = Math.floor(e1 / indexInterval);
+                if (k0 === k1) continue;
+                
+                const level = Math.max(k0, k1) * indexInterval;
+                const cx = x + step * (level - e0) / (e1 - e0);
+                const crowded = placed.some((label) => {
+                    const distance = Math.hypot(label.x - cx, label.y - y);
+                    return distance < minSpacing || (label.level === level && distance < sameLevelSpacing);
+                });
+                if (crowded) continue;
+                
+                placed.push({ x: cx, y, level });
+                const world = this.heightToWorldCoords(cx, y);
+                const worldY = level / verticalUnits * this.getVerticalScale();
+                this.labels.add(this.createLabel([`${this.formatMetres(level)} m`], world.x, worldY, world.z));
+            }
+        }
+    }
+    
+    /**
+     * Tick labels (metres and cell index) along the north and west edges
+     */
+    private addGridLabels(spacing: number): void {
+        const { width, height, cellSize, maxHeight } = this.heightData;
+        const lines = Math.max(width, height) * cellSize / spacing;
+        const every = Math.max(1, Math.ceil(lines / (MAX_GRID_LABELS / 2)));
+        const labelY = maxHeight * this.getVerticalScale();
+        const offset = this.getLabelSize() * 1.5;
+        
+        for (let i = 0; i * spacing <= (width - 1) * cellSize; i += every) {
+            const cell = i * spacing / cellSize;
+            const world = this.heightToWorldCoords(cell, 0);
+            this.labels.add(this.createLabel([`${this.formatMetres(i * spacing)} m`, `x ${Math.round(cell)}`], world.x, labelY, world.z - offset));
+        }
+        for (let i = every; i * spacing <= (height - 1) * cellSize; i += every) {
+            const cell = i * spacing / cellSize;
+            const world = this.heightToWorldCoords(0, cell);
+            this.labels.add(this.createLabel([`${this.formatMetres(i * spacing)} m`, `y ${Math.round(cell)}`], world.x - offset * 2, labelY, world.z));
+        }
+    }
+    
+    /**
+     * Text sprite floating above a point; ignored by raycasts so clicks reach the ground
+     */
+    private createLabel(lines: string[], x: number, y: number, z: number): THREE.Sprite {
+        const canvas = document.createElement('canvas');
+        canvas.width = 256;
+        canvas.height = 64 * lines.length;
+        const context = canvas.getContext('2d')!;
+        context.font = 'bold 40px sans-serif';
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.lineWidth = 8;
+        context.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+        context.fillStyle = '#ffffff';
+        lines.forEach((line, i) => {
+            context.strokeText(line, 128, 32 + i * 64);
+            context.fillText(line, 128, 32 + i * 64);
+        });
+        
+        const texture = new THREE.CanvasTexture(canvas);
+        texture.colorSpace = THREE.SRGBColorSpace;
+        const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: texture, transparent: true }));
+        const size = this.getLabelSize();
+        sprite.scale.set(size * 4, size * lines.length, 1);
+        sprite.position.set(x, y + size * lines.length * 0.6, z);
+        sprite.raycast = () => {};
+        return sprite;
+    }
+    
+    /**
+     * Label height in world units, relative to the map size
+     */
+    private getLabelSize(): number {
+        return Math.max(this.heightData.width, this.heightData.height) * this.getCellSpacing() / 60;
+    }
+    
+    private formatMetres(value: number): string {
+        return Number.isInteger(value) ? value.toString() : value.toFixed(1);
+    }
+    
+    /**
+     * Drop every patch and start again from the root (after size or scale changes)
+     */
+    private resetQuadtree(): void {
+        this.disposePatches();
+        this.bounds.clear();
+        
+        const cellsPerSide = Math.max(this.heightData.width, this.heightData.height) - 1;
+        this.rootSize = PATCH_SIZE;
+        while (this.rootSize < cellsPerSide) this.rootSize *= 2;
+        
+        // Draw the coarsest level right away so the terrain is visible and pickable
+        // before the first update()
+        const root = this.getPatch(this.getRootNode());
+        this.group.add(root.mesh);
+    }
+    
+    private disposePatches(): void {
+        for (const patch of this.patches.values()) {
+            this.group.remove(patch.mesh);
+            patch.mesh.geometry.dispose();
         }
+        this.patches.clear();
     }
     
     /**
-     * Update the terrain mesh with new height data
+     * World units between adjacent grid cells
      */
-    updateHeightData(newHeightData: HeightData): void {
+    private getCellSpacing(): number {
+        return this.heightData.cellSize * this.options.scale;
+    }
+    
+    /**
+     * World units per height unit, including vertical exaggeration
+     */
+    private getVerticalScale(): number {
+        return this.heightData.verticalUnits * this.options.heightScale * this.options.scale;
+    }
+    
+    /**
+     * Update the terrain mesh with new height data. With a region, only the
+     * patches covering those cells are rebuilt; otherwise everything is.
+     */
+    updateHeightData(newHeightData: HeightData, region?: CellRegion): void {
+        const sameGrid = newHeightData.width === this.heightData.width && newHeightData.height === this.heightData.height;
         this.heightData = newHeightData;
         
-        // Recreate geometry and material
-        this.geometry.dispose();
-        this.material.dispose();
+        // Textures are re-uploaded; coloring follows without touching the patches
+        this.heightTexture.dispose();
+        this.heightTexture = this.createHeightTexture();
+        if (!sameGrid) {
+            this.setOverlay(null);
+            this.setKnownMask(null);
+        }
+        TerrainAnalysis.invalidate(newHeightData);
+        this.disposeAnalysisOverlays();
+        this.maskTexture?.dispose();
+        this.maskTexture = this.createMaskTexture();
+        this.updateUniforms();
         
-        this.geometry = this.createGeometry();
-        this.material = this.createMaterial();
-        this.mesh.geometry = this.geometry;
-        this.mesh.material = this.material;
+        this.updateLabels();
+        
+        if (!region || !sameGrid) {
+            this.resetQuadtree();
+            return;
+        }
+        
+        // Grow by one cell: normals at the border read the neighbours
+        const rx0 = region.x - 1;
+        const ry0 = region.y - 1;
+        const rx1 = region.x + region.width;
+        const ry1 = region.y + region.height;
+        const touches = (key: string) => {
+            const [level, x0, y0] = key.split(':').map(Number);
+            const size = this.rootSize / Math.pow(2, level);
+            return x0 <= rx1 && x0 + size >= rx0 && y0 <= ry1 && y0 + size >= ry0;
+        };
+        
+        for (const key of [...this.bounds.keys()]) {
+            if (touches(key)) this.bounds.delete(key);
+        }
+        for (const [key, patch] of [...this.patches.entries()]) {
+            if (!touches(key)) continue;
+            patch.mesh.geometry.dispose();
+            if (patch.mesh.parent === this.group) {
+                patch.mesh.geometry = this.createPatchGeometry(patch.mesh.userData.node);
+            } else {
+                this.patches.delete(key);
+            }
+        }
     }
     
     /**
-     * Update material options
+     * Update material options. Color schemes only change shader uniforms;
+     * vertical exaggeration or scale changes rebuild the patches.
      */
     updateMaterialOptions(newOptions: Partial<TerrainMeshOptions>): void {
+        const previous = this.options;
         this.options = { ...this.options, ...newOptions };
         
-        // Recreate material
-        this.material.dispose();
-        this.material = this.createMaterial();
-        this.mesh.material = this.material;
+        if (this.options.wireframe !== previous.wireframe) {
+            this.material.wireframe = this.options.wireframe;
+            this.material.needsUpdate = true;
+        }
+        const geometryChanged = this.options.scale !== previous.scale || this.options.heightScale !== previous.heightScale;
+        if (geometryChanged) {
+            this.resetQuadtree();
+        }
+        if (
+            geometryChanged ||
+            this.options.contourInterval !== previous.contourInterval ||
+            this.options.indexContourEvery !== previous.indexContourEvery ||
+            this.options.gridSpacing !== previous.gridSpacing
+        ) {
+            this.updateLabels();
+        }
+        this.updateUniforms();
     }
     
     /**
-     * Get the Three.js mesh object
+     * Get the Three.js object holding the visible terrain patches
      */
-    getMesh(): THREE.Mesh {
-        return this.mesh;
+    getMesh(): THREE.Group {
+        return this.group;
+    }
+    
+    /**
+     * Bounding sphere of the whole terrain in world units
+     */
+    getBoundingSphere(): THREE.Sphere {
+        const { width, height, minHeight, maxHeight } = this.heightData;
+        const spacing = this.getCellSpacing();
+        const verticalScale = this.getVerticalScale();
+        const box = new THREE.Box3(
+            new THREE.Vector3(-width / 2 * spacing, minHeight * verticalScale, -height / 2 * spacing),
+            new THREE.Vector3((width / 2 - 1) * spacing, maxHeight * verticalScale, (height / 2 - 1) * spacing)
+        );
+        return box.getBoundingSphere(new THREE.Sphere());
     }
     
     /**
@@ -300,8 +979,8 @@ export class TerrainMesh {
      */
     worldToHeightCoords(worldX: number, worldZ: number): { x: number; y: number } {
         const { width, height } = this.heightData;
-        const x = (worldX / this.options.scale) + width / 2;
-        const y = (worldZ / this.options.scale) + height / 2;
+        const x = (worldX / this.getCellSpacing()) + width / 2;
+        const y = (worldZ / this.getCellSpacing()) + height / 2;
         return { x, y };
     }
     
@@ -310,8 +989,8 @@ export class TerrainMesh {
      */
     heightToWorldCoords(x: number, y: number): { x: number; z: number } {
         const { width, height } = this.heightData;
-        const worldX = (x - width / 2) * this.options.scale;
-        const worldZ = (y - height / 2) * this.options.scale;
+        const worldX = (x - width / 2) * this.getCellSpacing();
+        const worldZ = (y - height / 2) * this.getCellSpacing();
         return { x: worldX, z: worldZ };
     }
     
@@ -320,23 +999,56 @@ export class TerrainMesh {
      */
     getHeightAtWorldCoords(worldX: number, worldZ: number): number {
         const coords = this.worldToHeightCoords(worldX, worldZ);
-        const { data } = this.heightData;
+        const { width, height, data } = this.heightData;
         
         const x = Math.floor(coords.x);
         const y = Math.floor(coords.y);
         
-        if (x >= 0 && x < data[0].length && y >= 0 && y < data.length) {
-            return data[y][x] * this.options.heightScale;
+        if (x >= 0 && x < width && y >= 0 && y < height) {
+            return data[y * width + x] * this.getVerticalScale();
         }
         
         return 0;
     }
     
+    /**
+     * Get elevation in metres at world coordinates
+     */
+    getElevationAtWorldCoords(worldX: number, worldZ: number): number {
+        const coords = this.worldToHeightCoords(worldX, worldZ);
+        return TerrainLoader.getElevationAt(this.heightData, coords.x, coords.y);
+    }
+    
+    /**
+     * Get true slope in degrees at world coordinates
+     */
+    getSlopeAtWorldCoords(worldX: number, worldZ: number): number {
+        const { width, height } = this.heightData;
+        const coords = this.worldToHeightCoords(worldX, worldZ);
+        const x = Math.max(0, Math.min(width - 1, Math.round(coords.x)));
+        const y = Math.max(0, Math.min(height - 1, Math.round(coords.y)));
+        return TerrainAnalysis.slopeAt(this.heightData, x, y);
+    }
+    
+    /**
+     * World units per metre
+     */
+    getWorldUnitsPerMetre(): number {
+        return this.options.scale;
+    }
+    
     /**
      * Dispose of resources
      */
     dispose(): void {
-        this.geometry.dispose();
+        this.disposePatches();
+        this.clearLabels();
         this.material.dispose();
+        this.heightTexture.dispose();
+        this.maskTexture?.dispose();
+        this.knownTexture?.dispose();
+        this.overlay?.texture.dispose();
+        this.disposeAnalysisOverlays();
+        for (const texture of this.rampTextures.values()) texture.dispose();
     }
 }
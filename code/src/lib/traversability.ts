@@ -0,0 +1,198 @@
+/**
+ * Traversability - GESTALT-style drive hazard map. A plane is fitted to the
+ * terrain under the rover footprint at every cell; its tilt, the roughness and
+ * rocks left above it, and the biggest step inside the footprint are compared
+ * with the rover's limits to give a per-cell hazard and a hard-obstacle mask.
+ */
+
+import { CellRegion, HeightData } from './terrainLoader.js';
+
+export interface TraversabilityOptions {
+    footprintRadius: number; // Metres; terrain within this distance is under the rover
+    maxSlope: number; // Degrees of footprint tilt the rover can hold
+    maxStep: number; // Metres; tallest ledge the wheels can climb, beyond what maxSlope allows between cells
+    groundClearance: number; // Metres; rocks higher than this above the footprint plane hit the belly
+    maxRoughness?: number; // Metres RMS residual counted as fully hazardous (default groundClearance / 2)
+}
+
+export interface TraversabilityMap {
+    width: number;
+    height: number;
+    hazard: Float32Array; // 0 = benign .. 1 = at a limit; the worst of slope, roughness and step
+    obstacles: Uint8Array; // 1 where the rover cannot drive
+    options: TraversabilityOptions;
+}
+
+// Maps per height data object and option set; dropped with the data
+const mapCache: WeakMap<HeightData, Map<string, TraversabilityMap>> = new WeakMap();
+
+export class Traversability {
+    /**
+     * Hazard map for a terrain and rover, computed on first use and cached
+     */
+    static compute(heightData: HeightData, options: TraversabilityOptions): TraversabilityMap {
+        const key = JSON.stringify(options);
+        let maps = mapCache.get(heightData);
+        if (!maps) {
+            maps = new Map();
+            mapCache.set(heightData, maps);
+        }
+        let map = maps.get(key);
+        if (!map) {
+            map = this.build(heightData, options);
+            maps.set(key, map);
+        }
+        return map;
+    }
+
+    /**
+     * Forget cached maps after heights were edited in place
+     */
+    static invalidate(heightData: HeightData): void {
+        mapCache.delete(heightData);
+    }
+
+    /**
+     * Recompute cached maps in place after the heights or masks in a region
+     * changed. A cell's fit covers the footprint around it, so the region grows
+     * by the footprint radius; returns the cells that were recomputed (the
+     * largest area when several rovers' maps are cached).
+     */
+    static updateRegion(heightData: HeightData, region: CellRegion): CellRegion {
+        const { width, height, cellSize } = heightData;
+        let updated: CellRegion = { x: region.x, y: region.y, width: 0, height: 0 };
+        for (const map of mapCache.get(heightData)?.values() ?? []) {
+            // One more cell for the steps between the footprint's edge cells and their neighbours
+            const reach = Math.max(1, Math.round(map.options.footprintRadius / cellSize)) + 1;
+            const x0 = Math.max(0, region.x - reach);
+            const y0 = Math.max(0, region.y - reach);
+            const x1 = Math.min(width, region.x + region.width + reach);
+            const y1 = Math.min(height, region.y + region.height + reach);
+            const grown = { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+            this.fill(heightData, map, grown);
+            if (grown.width * grown.height > updated.width * updated.height) updated = grown;
+        }
+        return updated;
+    }
+
+    private static build(heightData: HeightData, options: TraversabilityOptions): TraversabilityMap {
+        const { width, height } = heightData;
+        const map = {
+            width,
+            height,
+            hazard: new Float32Array(width * height),
+            obstacles: new Uint8Array(width * height),
+            options
+        };
+        this.fill(heightData, map, { x: 0, y: 0, width, height });
+        return map;
+    }
+
+    /**
+     * Hazard and obstacles of the cells in a region
+     */
+    private static fill(heightData: HeightData, map: TraversabilityMap, region: CellRegion): void {
+        const { width, height, data, cellSize, verticalUnits, noDataMask, obstacleMask } = heightData;
+        const { hazard, obstacles, options } = map;
+        const maxRoughness = options.maxRoughness ?? options.groundClearance / 2;
+        const radius = Math.max(1, Math.round(options.footprintRadius / cellSize));
+        // A height change between neighbours up to what maxSlope allows over one cell
+        // (or diagonal) is a ramp; only the excess counts as a step the wheels must climb
+        const rampRise = cellSize * Math.tan(options.maxSlope * Math.PI / 180);
+        // When cells are coarser than the rover the fit covers more ground than the
+        // footprint; residuals from smooth curvature grow with the square of its size
+        const residualScale = Math.min(1, Math.pow(options.footprintRadius / (radius * cellSize), 2));
+
+        // Footprint offsets inside a disc
+        const offsets: Array<[number, number]> = [];
+        for (let dy = -radius; dy <= radius; dy++) {
+            for (let dx = -radius; dx <= radius; dx++) {
+                if (dx * dx + dy * dy <= radius * radius + radius) offsets.push([dx, dy]);
+            }
+        }
+
+        for (let y = region.y; y < region.y + region.height; y++) {
+            for (let x = region.x; x < region.x + region.width; x++) {
+                const index = y * width + x;
+                if (noDataMask?.[index] || obstacleMask?.[index]) {
+                    hazard[index] = 1;
+                    obstacles[index] = 1;
+                    continue;
+                }
+
+                // Least-squares plane z = a + b·u + c·v over the footprint cells on the map
+                let n = 0, su = 0, sv = 0, suu = 0, suv = 0, svv = 0, sz = 0, suz = 0, svz = 0;
+                for (const [dx, dy] of offsets) {
+                    const nx = x + dx;
+                    const ny = y + dy;
+                    if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+                    const z = data[ny * width + nx] * verticalUnits;
+                    n++; su += dx; sv += dy; suu += dx * dx; suv += dx * dy; svv += dy * dy;
+                    sz += z; suz += dx * z; svz += dy * z;
+                }
+                const plane = this.solvePlane(n, su, sv, suu, suv, svv, sz, suz, svz);
+
+                let residual2 = 0;
+                let maxAbove = 0;
+                let maxStep = 0;
+                for (const [dx, dy] of offsets) {
+                    const nx = x + dx;
+                    const ny = y + dy;
+                    if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+                    const z = data[ny * width + nx] * verticalUnits;
+                    const residual = z - (plane.a + plane.b * dx + plane.c * dy);
+                    residual2 += residual * residual;
+                    maxAbove = Math.max(maxAbove, residual);
+
+                    // East, south and both diagonal neighbours cover every adjacent pair once
+                    if (nx + 1 < width) {
+                        maxStep = Math.max(maxStep, Math.abs(data[ny * width + nx + 1] * verticalUnits - z) - rampRise);
+                    }
+                    if (ny + 1 < height) {
+                        maxStep = Math.max(maxStep, Math.abs(data[(ny + 1) * width + nx] * verticalUnits - z) - rampRise);
+                        if (nx + 1 < width) {
+                            maxStep = Math.max(maxStep, Math.abs(data[(ny + 1) * width + nx + 1] * verticalUnits - z) - rampRise * Math.SQRT2);
+                        }
+                        if (nx > 0) {
+                            maxStep = Math.max(maxStep, Math.abs(data[(ny + 1) * width + nx - 1] * verticalUnits - z) - rampRise * Math.SQRT2);
+                        }
+                    }
+                }
+
+                const slope = Math.atan(Math.hypot(plane.b, plane.c) / cellSize) * (180 / Math.PI);
+                const roughness = Math.sqrt(residual2 / n) * residualScale;
+                maxAbove *= residualScale;
+
+                if (slope > options.maxSlope || maxStep > options.maxStep || maxAbove > options.groundClearance) {
+                    hazard[index] = 1;
+                    obstacles[index] = 1;
+                    continue;
+                }
+                obstacles[index] = 0;
+                hazard[index] = Math.min(1, Math.max(
+                    slope / options.maxSlope,
+                    maxStep / options.maxStep,
+                    roughness / maxRoughness,
+                    maxAbove / options.groundClearance
+                ));
+            }
+        }
+    }
+
+    /**
+     * Solve the 3×3 normal equations of a plane fit (Cramer's rule); a flat
+     * plane through the mean when the cells are degenerate
+     */
+    private static solvePlane(
+        n: number, su: number, sv: number,
+        suu: number, suv: number, svv: number,
+        sz: number, suz: number, svz: number
+    ): { a: number; b: number; c: number } {
+        const det = n * (suu * svv - suv * suv) - su * (su * svv - suv * sv) + sv * (su * suv - suu * sv);
+        if (Math.abs(det) < 1e-9) return { a: sz / n, b: 0, c: 0 };
+        const a = (sz * (suu * svv - suv * suv) - su * (suz * svv - suv * svz) + sv * (suz * suv - suu * svz)) / det;
+        const b = (n * (suz * svv - svz * suv) - sz * (su * svv - suv * sv) + sv * (su * svz - suz * sv)) / det;
+        const c = (n * (suu * svz - suv * suz) - su * (su * svz - suz * sv) + sz * (su * suv - suu * sv)) / det;
+        return { a, b, c };
+    }
+}
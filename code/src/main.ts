@@ -3,31 +3,105 @@ import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
-import { TerrainLoader } from './lib/terrainLoader.js';
-import { TerrainMesh } from './lib/terrainMesh.js';
-import { PathfindingEngine, Point } from './lib/pathfinding.js';
+import { TerrainLoader, CellRegion, HeightData, HeightDecoding, LoadOptions } from './lib/terrainLoader.js';
+import { RasterRegion } from './lib/demLoader.js';
+import { TerrainFeatureOptions } from './lib/terrainFeatures.js';
+import { TerrainErosion, ErosionOptions } from './lib/terrainErosion.js';
+import { TerrainColorScheme, TerrainMesh } from './lib/terrainMesh.js';
+import { ColorRamps } from './lib/colorRamps.js';
+import { Traversability } from './lib/traversability.js';
+import { TerrainAnalysis } from './lib/terrainAnalysis.js';
+import { TerrainKnowledge } from './lib/terrainKnowledge.js';
+import { AlgorithmRun, PathfindingEngine, PathfindingOptions, PathfindingResult, PathStats, PlannerAlgorithm, PlannerObjective, Point, ReplanResult, RouteAlternative, SearchProgress } from './lib/pathfinding.js';
+import { PathfindingClient } from './lib/pathfindingClient.js';
+import { MissionPlanner } from './lib/missionPlanner.js';
 import { Rover } from './lib/rover.js';
 
+type TerrainSource = 'procedural' | 'dataset' | 'upload';
+
+// Bundled sample heightmap, resolved by Vite to a served asset URL
+const MARS_HEIGHTMAP_URL = new URL('./data/mars_heightmap.json', import.meta.url).href;
+
+// Longest terrain side in world units, whatever its extent in metres
+const TERRAIN_WORLD_EXTENT = 256;
+
+// Radius of a hidden rock dropped with Shift+click, in metres
+const HIDDEN_ROCK_RADIUS = 3;
+
+// Procedural map cells per side when no size is chosen
+const DEFAULT_MAP_SIZE = 128;
+
+// Mission log entries kept on screen
+const MISSION_LOG_LIMIT = 50;
+
+// Milliseconds between terrain sensing passes with fog of war on
+const TERRAIN_SENSE_INTERVAL = 500;
+
+/**
+ * A rock the planner does not know about until the rover's sensors see it
+ */
+interface HiddenRock {
+    cells: Point[]; // Grid cells it covers
+    mesh: THREE.Mesh;
+    sensed: boolean;
+}
+
+/**
+ * A stop on the mission; the first is where the rover starts, the last its destination
+ */
+interface Waypoint {
+    cell: Point;
+    label: string; // Task to do there, shown in the list and the mission log
+    dwell: number; // Seconds spent working there before driving on
+    marker: THREE.Mesh;
+}
+
+/**
+ * The planned route between two consecutive waypoints
+ */
+interface MissionLeg {
+    path: Point[];
+    stats: PathStats;
+}
+
+// Waypoint marker colors: start, intermediate stops, destination
+const WAYPOINT_COLORS = { start: 0x00ff00, stop: 0xffaa00, end: 0xff0000 };
+
+// Tube colors for route alternatives and compared algorithms, in table order
+const ROUTE_COLORS = [0x00ff88, 0x33aaff, 0xffaa00, 0xff55cc, 0xc080ff, 0xffee55, 0x55ffee, 0xff7755];
+
 class PlanetaryRoverSimulator {
     private scene: THREE.Scene;
     private camera: THREE.PerspectiveCamera;
     private renderer: THREE.WebGLRenderer;
     private controls: OrbitControls | null = null; // OrbitControls
     private terrainMesh: TerrainMesh | null = null;
-    private pathfindingEngine: PathfindingEngine | null = null;
+    private pathfindingEngine: PathfindingEngine | null = null; // Blocked mask and path stats on this thread
+    private pathfindingClient: PathfindingClient | null = null; // Searches, in a worker
     private rover: Rover | null = null;
     private skyboxMaterial: THREE.ShaderMaterial | null = null;
-    private pathLine: THREE.Mesh | null = null;
-    private startMarker: THREE.Mesh | null = null;
-    private endMarker: THREE.Mesh | null = null;
+    private pathLines: THREE.Mesh[] = []; // One tube per route; the selected one first
+    private drawnRoutes: { paths: Point[][]; selected: number } | null = null; // What the tubes show, to redraw them
+    private routeAlternatives: RouteAlternative[] = [];
+    private algorithmRuns: AlgorithmRun[] = [];
+    private hiddenRocks: HiddenRock[] = [];
+    private replanCount = 0;
+    private replanning = false; // A D* Lite repair is running in the worker
+    private queuedReplan: { onlyIfChanged: boolean } | null = null; // Asked for while one ran
+    private terrainKnowledge: TerrainKnowledge | null = null; // Fog of war: what the rover has seen
+    private lastTerrainSenseAt = 0;
+    private hazardLayer: Float32Array | null = null; // Values behind the hazard overlay, rewritten in place
+    private hazardLayerStale = false; // The hazard map changed while another color scheme was shown
+    private waypoints: Waypoint[] = [];
+    private missionLegs: MissionLeg[] = []; // Planned route, one leg per pair of consecutive waypoints
+    private currentLeg = 0; // Leg being driven, or next to drive
+    private departurePending = false; // Working at a waypoint; the next leg starts after
     private raycaster: THREE.Raycaster;
     private mouse: THREE.Vector2;
     
     // State
-    private startPoint: Point | null = null;
-    private endPoint: Point | null = null;
     private isPathfinding = false;
-    private isSlopeMapVisible = false;
+    private baseColorScheme: TerrainColorScheme = 'mars';
     private animationId: number | null = null;
     private clock: THREE.Clock;
     private lastClickAt = 0;
@@ -45,18 +119,58 @@ class PlanetaryRoverSimulator {
     private statusElement!: HTMLElement;
     private resetBtn!: HTMLButtonElement;
     private toggleSlopeBtn!: HTMLButtonElement;
+    private colorSchemeSelect!: HTMLSelectElement;
+    private showContoursInput!: HTMLInputElement;
+    private contourIntervalInput!: HTMLInputElement;
+    private showGridInput!: HTMLInputElement;
+    private gridSpacingInput!: HTMLInputElement;
+    private roughnessWeightInput!: HTMLInputElement;
+    private curvatureWeightInput!: HTMLInputElement;
+    private planCurvatureWeightInput!: HTMLInputElement;
+    private aspectWeightInput!: HTMLInputElement;
+    private preferredAspectSelect!: HTMLSelectElement;
+    private plannerObjectiveSelect!: HTMLSelectElement;
+    private plannerAlgorithmSelect!: HTMLSelectElement;
     private findPathBtn!: HTMLButtonElement;
+    private compareRoutesBtn!: HTMLButtonElement;
+    private compareAlgorithmsBtn!: HTMLButtonElement;
+    private optimizeOrderBtn!: HTMLButtonElement;
+    private cancelPlanningBtn!: HTMLButtonElement;
+    private nodeBudgetInput!: HTMLInputElement;
+    private timeBudgetInput!: HTMLInputElement;
     private animateRoverBtn!: HTMLButtonElement;
     private clearPathBtn!: HTMLButtonElement;
     // Terrain controls
     private mountainScaleInput: HTMLInputElement | null = null;
+    private groundResolutionInput: HTMLInputElement | null = null;
+    private verticalExaggerationInput: HTMLInputElement | null = null;
     private noiseScaleInput: HTMLInputElement | null = null;
     private octavesInput: HTMLInputElement | null = null;
+    private terrainSeedInput: HTMLInputElement | null = null;
+    private mapSizeSelect: HTMLSelectElement | null = null;
+    private craterDensityInput: HTMLInputElement | null = null;
+    private boulderDensityInput: HTMLInputElement | null = null;
+    private duneHeightInput: HTMLInputElement | null = null;
+    private duneDirectionInput: HTMLInputElement | null = null;
+    private thermalErosionInput: HTMLInputElement | null = null;
+    private hydraulicErosionInput: HTMLInputElement | null = null;
+    private erosionStrengthInput: HTMLInputElement | null = null;
+    private erosionController: AbortController | null = null;
+    private planningController: AbortController | null = null;
+    private terrainLoadId = 0; // Lets a newer load supersede one still in progress
     private terrainPresetSelect: HTMLSelectElement | null = null;
+    private terrainSourceSelect: HTMLSelectElement | null = null;
+    private terrainFileInput: HTMLInputElement | null = null;
+    private terrainFileBtn: HTMLButtonElement | null = null;
+    private uploadedTerrainFiles: File[] = [];
+    private heightDecodingSelect: HTMLSelectElement | null = null;
+    private rgbBaseInput: HTMLInputElement | null = null;
+    private rgbScaleInput: HTMLInputElement | null = null;
     private roverTypeSelect: HTMLSelectElement | null = null;
     private toggleCameraBtn: HTMLButtonElement | null = null;
     private dayNightBtn: HTMLButtonElement | null = null;
     private manualModeCheckbox: HTMLInputElement | null = null;
+    private fogOfWarCheckbox: HTMLInputElement | null = null;
     private demoModeBtn: HTMLButtonElement | null = null;
     
     // Dashboard state
@@ -156,17 +270,53 @@ class PlanetaryRoverSimulator {
         this.statusElement = document.getElementById('status')!;
         this.resetBtn = document.getElementById('reset-btn') as HTMLButtonElement;
         this.toggleSlopeBtn = document.getElementById('toggle-slope-btn') as HTMLButtonElement;
+        this.colorSchemeSelect = document.getElementById('color-scheme') as HTMLSelectElement;
+        this.showContoursInput = document.getElementById('show-contours') as HTMLInputElement;
+        this.contourIntervalInput = document.getElementById('contour-interval') as HTMLInputElement;
+        this.showGridInput = document.getElementById('show-grid') as HTMLInputElement;
+        this.gridSpacingInput = document.getElementById('grid-spacing') as HTMLInputElement;
+        this.roughnessWeightInput = document.getElementById('roughness-weight') as HTMLInputElement;
+        this.curvatureWeightInput = document.getElementById('curvature-weight') as HTMLInputElement;
+        this.planCurvatureWeightInput = document.getElementById('plan-curvature-weight') as HTMLInputElement;
+        this.aspectWeightInput = document.getElementById('aspect-weight') as HTMLInputElement;
+        this.preferredAspectSelect = document.getElementById('preferred-aspect') as HTMLSelectElement;
+        this.plannerObjectiveSelect = document.getElementById('planner-objective') as HTMLSelectElement;
+        this.plannerAlgorithmSelect = document.getElementById('planner-algorithm') as HTMLSelectElement;
         this.findPathBtn = document.getElementById('find-path-btn') as HTMLButtonElement;
+        this.compareRoutesBtn = document.getElementById('compare-routes-btn') as HTMLButtonElement;
+        this.compareAlgorithmsBtn = document.getElementById('compare-algorithms-btn') as HTMLButtonElement;
+        this.optimizeOrderBtn = document.getElementById('optimize-order-btn') as HTMLButtonElement;
+        this.cancelPlanningBtn = document.getElementById('cancel-planning-btn') as HTMLButtonElement;
+        this.nodeBudgetInput = document.getElementById('node-budget') as HTMLInputElement;
+        this.timeBudgetInput = document.getElementById('time-budget') as HTMLInputElement;
         this.animateRoverBtn = document.getElementById('animate-rover-btn') as HTMLButtonElement;
         this.clearPathBtn = document.getElementById('clear-path-btn') as HTMLButtonElement;
         this.mountainScaleInput = document.getElementById('mountain-scale') as HTMLInputElement;
+        this.groundResolutionInput = document.getElementById('ground-resolution') as HTMLInputElement;
+        this.verticalExaggerationInput = document.getElementById('vertical-exaggeration') as HTMLInputElement;
         this.noiseScaleInput = document.getElementById('noise-scale') as HTMLInputElement;
         this.octavesInput = document.getElementById('octaves') as HTMLInputElement;
+        this.terrainSeedInput = document.getElementById('terrain-seed') as HTMLInputElement;
+        this.mapSizeSelect = document.getElementById('map-size') as HTMLSelectElement;
+        this.craterDensityInput = document.getElementById('crater-density') as HTMLInputElement;
+        this.boulderDensityInput = document.getElementById('boulder-density') as HTMLInputElement;
+        this.duneHeightInput = document.getElementById('dune-height') as HTMLInputElement;
+        this.duneDirectionInput = document.getElementById('dune-direction') as HTMLInputElement;
+        this.thermalErosionInput = document.getElementById('thermal-erosion') as HTMLInputElement;
+        this.hydraulicErosionInput = document.getElementById('hydraulic-erosion') as HTMLInputElement;
+        this.erosionStrengthInput = document.getElementById('erosion-strength') as HTMLInputElement;
         this.terrainPresetSelect = document.getElementById('terrain-preset') as HTMLSelectElement;
+        this.terrainSourceSelect = document.getElementById('terrain-source') as HTMLSelectElement;
+        this.terrainFileInput = document.getElementById('terrain-file-input') as HTMLInputElement;
+        this.terrainFileBtn = document.getElementById('terrain-file-btn') as HTMLButtonElement;
+        this.heightDecodingSelect = document.getElementById('height-decoding') as HTMLSelectElement;
+        this.rgbBaseInput = document.getElementById('rgb-base') as HTMLInputElement;
+        this.rgbScaleInput = document.getElementById('rgb-scale') as HTMLInputElement;
         this.roverTypeSelect = document.getElementById('rover-type') as HTMLSelectElement;
         this.toggleCameraBtn = document.getElementById('toggle-camera-btn') as HTMLButtonElement;
         this.dayNightBtn = document.getElementById('day-night-btn') as HTMLButtonElement;
         this.manualModeCheckbox = document.getElementById('manual-mode') as HTMLInputElement;
+        this.fogOfWarCheckbox = document.getElementById('fog-of-war') as HTMLInputElement;
         this.demoModeBtn = document.getElementById('demo-mode-btn') as HTMLButtonElement;
     }
     
@@ -191,16 +341,71 @@ class PlanetaryRoverSimulator {
         // UI button events
         this.resetBtn.addEventListener('click', () => this.loadTerrain());
         this.toggleSlopeBtn.addEventListener('click', () => this.toggleSlopeMap());
+        this.colorSchemeSelect.addEventListener('change', () => this.setColorScheme(this.colorSchemeSelect.value as TerrainColorScheme));
+        for (const input of [this.showContoursInput, this.contourIntervalInput, this.showGridInput, this.gridSpacingInput]) {
+            input.addEventListener('change', () => this.updateMapOverlays());
+        }
+        for (const input of [this.roughnessWeightInput, this.curvatureWeightInput, this.planCurvatureWeightInput, this.aspectWeightInput, this.preferredAspectSelect, this.plannerObjectiveSelect, this.plannerAlgorithmSelect, this.nodeBudgetInput, this.timeBudgetInput]) {
+            input.addEventListener('change', () => this.updatePlannerOptions(this.getPlannerOptions()));
+        }
         this.findPathBtn.addEventListener('click', () => this.findPath());
+        this.compareRoutesBtn.addEventListener('click', () => this.compareRoutes());
+        this.compareAlgorithmsBtn.addEventListener('click', () => this.compareAlgorithms());
+        this.optimizeOrderBtn.addEventListener('click', () => this.optimizeWaypointOrder());
+        this.cancelPlanningBtn.addEventListener('click', () => this.planningController?.abort());
         this.animateRoverBtn.addEventListener('click', () => this.animateRover());
         this.clearPathBtn.addEventListener('click', () => this.clearPath());
         // Terrain controls
         const reload = () => this.loadTerrain();
         this.mountainScaleInput?.addEventListener('input', reload);
+        this.groundResolutionInput?.addEventListener('change', reload);
+        this.verticalExaggerationInput?.addEventListener('input', () => this.setVerticalExaggeration());
         this.noiseScaleInput?.addEventListener('input', reload);
         this.octavesInput?.addEventListener('input', reload);
+        this.terrainSeedInput?.addEventListener('change', reload);
+        this.mapSizeSelect?.addEventListener('change', reload);
+        this.craterDensityInput?.addEventListener('change', reload);
+        this.boulderDensityInput?.addEventListener('change', reload);
+        this.duneHeightInput?.addEventListener('change', reload);
+        this.duneDirectionInput?.addEventListener('change', reload);
+        this.thermalErosionInput?.addEventListener('change', reload);
+        this.hydraulicErosionInput?.addEventListener('change', reload);
+        this.erosionStrengthInput?.addEventListener('change', reload);
+        document.getElementById('randomize-seed-btn')?.addEventListener('click', () => this.randomizeSeed());
+        document.getElementById('copy-terrain-link-btn')?.addEventListener('click', () => this.copyTerrainLink());
         this.terrainPresetSelect?.addEventListener('change', () => this.applyTerrainPreset());
+        this.terrainSourceSelect?.addEventListener('change', () => this.onTerrainSourceChange());
+        this.terrainFileBtn?.addEventListener('click', () => this.terrainFileInput?.click());
+        this.terrainFileInput?.addEventListener('change', () => {
+            const files = Array.from(this.terrainFileInput?.files ?? []);
+            if (files.length > 0) this.setUploadedTerrainFiles(files);
+            // Allow re-selecting the same file after editing it on disk
+            if (this.terrainFileInput) this.terrainFileInput.value = '';
+        });
+        
+        this.heightDecodingSelect?.addEventListener('change', () => {
+            document.getElementById('rgb-decoding-controls')?.classList.toggle('hidden', this.getHeightDecoding() !== 'rgb');
+            if (this.uploadedTerrainFiles.length > 0) this.loadTerrain();
+        });
+        const reloadUpload = () => { if (this.uploadedTerrainFiles.length > 0) this.loadTerrain(); };
+        this.rgbBaseInput?.addEventListener('change', reloadUpload);
+        this.rgbScaleInput?.addEventListener('change', reloadUpload);
+        for (const id of ['roi-x', 'roi-y', 'roi-width', 'roi-height', 'dem-max-size']) {
+            document.getElementById(id)?.addEventListener('change', reloadUpload);
+        }
+        
+        // Drag-and-drop heightmap import anywhere on the page
+        document.addEventListener('dragover', (event: DragEvent) => {
+            event.preventDefault();
+            if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy';
+        });
+        document.addEventListener('drop', (event: DragEvent) => {
+            event.preventDefault();
+            const files = Array.from(event.dataTransfer?.files ?? []);
+            if (files.length > 0) this.setUploadedTerrainFiles(files);
+        });
         this.roverTypeSelect?.addEventListener('change', () => this.spawnRover());
+        this.fogOfWarCheckbox?.addEventListener('change', () => this.setFogOfWar(this.fogOfWarCheckbox?.checked ?? false));
         this.toggleCameraBtn?.addEventListener('click', () => this.toggleRoverCamera());
         this.dayNightBtn?.addEventListener('click', () => this.toggleDayNight());
         this.demoModeBtn?.addEventListener('click', () => this.toggleDemoMode());
@@ -237,46 +442,36 @@ class PlanetaryRoverSimulator {
      * Load terrain data
      */
     private async loadTerrain(): Promise<void> {
+        const loadId = ++this.terrainLoadId;
+        this.planningController?.abort();
         this.updateStatus('Loading terrain...');
         this.loadingElement.style.display = 'block';
         
         try {
+            // Resolve the new height data first so a bad file keeps the current terrain
+            const heightData = await this.resolveHeightData();
+            if (loadId !== this.terrainLoadId) return; // A newer load replaced this one
+            const exaggerationVal = this.getVerticalExaggeration();
+            
             // Dispose and remove previous terrain
+            this.removeHiddenRocks();
             if (this.terrainMesh) {
                 this.scene.remove(this.terrainMesh.getMesh());
                 this.terrainMesh.dispose();
                 this.terrainMesh = null;
             }
             this.clearPath();
-            // Generate procedural terrain based on UI controls with validation
-            const noiseScaleVal = this.validateTerrainParameter(
-                this.noiseScaleInput ? parseFloat(this.noiseScaleInput.value) : 0.05,
-                0.001, 0.5, 'noise scale'
-            );
-            const octavesVal = this.validateTerrainParameter(
-                this.octavesInput ? parseInt(this.octavesInput.value, 10) : 6,
-                1, 10, 'octaves'
-            );
-            const mountainHeightVal = this.validateTerrainParameter(
-                this.mountainScaleInput ? parseFloat(this.mountainScaleInput.value) : 20,
-                1, 100, 'mountain height'
-            );
-            const heightData = TerrainLoader.generateProceduralTerrain(128, 128, {
-                noiseScale: noiseScaleVal,
-                octaves: octavesVal,
-                persistence: 0.65, // Slightly more persistent for smoother transitions
-                lacunarity: 2.1,   // Slightly higher for more detail variation
-                normalize: true,
-                scale: 12, // Better horizontal scale for Perlin noise
-                offset: 0
-            });
             
-            // Create terrain mesh - use mountainHeightVal for vertical scaling
+            // Create terrain mesh in metres, fitted to a fixed world extent;
+            // exaggeration only changes what is drawn, never the slope analysis
+            const extentMetres = Math.max(heightData.width, heightData.height) * heightData.cellSize;
             this.terrainMesh = new TerrainMesh(heightData, {
-                scale: 2.0,
-                heightScale: mountainHeightVal, // This controls terrain height
-                colorScheme: 'mars'
+                scale: TERRAIN_WORLD_EXTENT / extentMetres,
+                heightScale: exaggerationVal,
+                colorScheme: this.colorSchemeSelect.value as TerrainColorScheme,
+                ...this.getMapOverlayOptions(heightData)
             });
+            this.updateLegend();
             
             console.log('Terrain mesh created:', this.terrainMesh.getMesh());
             console.log('Height data:', heightData);
@@ -286,19 +481,16 @@ class PlanetaryRoverSimulator {
             // Auto-frame camera to terrain bounds
             this.fitCameraToTerrain();
             
-            // Initialize pathfinding engine
-            this.pathfindingEngine = new PathfindingEngine(heightData, {
-                maxSlope: 30,
-                diagonalMovement: true,
-                slopeWeight: 2.0,
-                distanceWeight: 1.0
-            });
+            this.createPlanners();
             
-            // Clear existing markers (path already cleared)
-            this.clearMarkers();
+            const seedInfo = this.getTerrainSource() === 'procedural' ? `, seed ${this.getTerrainSeed()}` : '';
+            this.updateStatus(`Terrain loaded (${heightData.width}x${heightData.height}, ${heightData.cellSize.toFixed(2)} m/cell${seedInfo}). Click to set the start, then each waypoint.`);
             
-            this.updateStatus('Terrain loaded. Click to set start and end points.');
-            this.findPathBtn.disabled = false;
+            // Keep the address bar in sync so the current terrain can be shared
+            if (this.getTerrainSource() !== 'upload') {
+                history.replaceState(null, '', `#${this.getTerrainDescription()}`);
+            }
+            this.updatePlanningButtons();
             
             // Auto-spawn rover and place at center top
             this.spawnRover();
@@ -306,19 +498,394 @@ class PlanetaryRoverSimulator {
                 const center = this.terrainMesh.heightToWorldCoords(Math.floor(heightData.width/2), Math.floor(heightData.height/2));
                 this.rover.setPosition(center.x, center.z);
             }
+            this.senseTerrain(true);
             
         } catch (error) {
+            if (loadId !== this.terrainLoadId) return;
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             console.error('Terrain loading error:', error);
             this.updateStatus(`Error loading terrain: ${errorMessage}`);
             
             // Show user-friendly error message
-            this.showErrorMessage('Failed to load terrain. Please check the console for details.');
+            this.showErrorMessage(`Failed to load terrain: ${errorMessage}`);
         } finally {
-            this.loadingElement.style.display = 'none';
-            
-            // Initialize postprocessing once renderer is ready
-            this.setupPostprocessing();
+            if (loadId === this.terrainLoadId) {
+                this.loadingElement.style.display = 'none';
+                
+                // Initialize postprocessing once renderer is ready
+                this.setupPostprocessing();
+            }
+        }
+    }
+    
+    /**
+     * Pathfinding engine, and a worker running the same searches, over what the
+     * planner may know: the whole terrain, or with fog of war only the orbital
+     * prior and the ground the rover has seen
+     */
+    private createPlanners(): void {
+        if (!this.terrainMesh) return;
+        const truth = this.terrainMesh.getHeightData();
+        this.terrainKnowledge = this.fogOfWarCheckbox?.checked ? new TerrainKnowledge(truth) : null;
+        this.terrainMesh.setKnownMask(this.terrainKnowledge?.known ?? null);
+        
+        const heightData = this.terrainKnowledge?.belief ?? truth;
+        const plannerOptions: PathfindingOptions = {
+            maxSlope: 30,
+            diagonalMovement: true,
+            slopeWeight: 2.0,
+            distanceWeight: 1.0,
+            ...this.getPlannerOptions()
+        };
+        this.pathfindingEngine = new PathfindingEngine(heightData, plannerOptions);
+        this.pathfindingClient?.dispose();
+        this.pathfindingClient = new PathfindingClient(heightData, plannerOptions);
+    }
+    
+    /**
+     * Switch between planning on the full terrain and on what the rover has
+     * seen; the current plan was made with the other view, so it is cleared
+     */
+    private setFogOfWar(enabled: boolean): void {
+        if (!this.terrainMesh) return;
+        this.clearPath();
+        this.createPlanners();
+        
+        // Rocks already found stay known
+        const sensedRocks = this.hiddenRocks.filter((rock) => rock.sensed).flatMap((rock) => rock.cells);
+        if (sensedRocks.length > 0) this.pathfindingEngine?.addObstacles(sensedRocks);
+        this.updateTraversability();
+        this.senseTerrain(true);
+        this.logEvent(enabled
+            ? 'Fog of war on: planning on the orbital prior until the rover sees the ground'
+            : 'Fog of war off: planning on the full terrain');
+    }
+    
+    /**
+     * Produce height data from the selected terrain source
+     */
+    private async resolveHeightData(): Promise<HeightData> {
+        switch (this.getTerrainSource()) {
+            case 'dataset':
+                return TerrainLoader.loadFromJSON(MARS_HEIGHTMAP_URL, this.getReliefOptions());
+                
+            case 'upload':
+                if (this.uploadedTerrainFiles.length === 0) {
+                    throw new Error('No terrain file selected. Choose or drop a heightmap or DEM.');
+                }
+                return TerrainLoader.loadFromFiles(this.uploadedTerrainFiles, this.getImportOptions());
+                
+            default:
+                return this.erodeTerrain(this.generateProceduralTerrain());
+        }
+    }
+    
+    /**
+     * Apply the erosion controls in a worker, cancelling any erosion still running
+     */
+    private async erodeTerrain(heightData: HeightData): Promise<HeightData> {
+        this.erosionController?.abort();
+        this.erosionController = null;
+        
+        const options = this.getErosionOptions();
+        if (!options.thermalIterations && !options.hydraulicDroplets) return heightData;
+        
+        const controller = new AbortController();
+        this.erosionController = controller;
+        const stageNames = { thermal: 'thermal slumping', hydraulic: 'hydraulic erosion' };
+        try {
+            return await TerrainErosion.erode(heightData, options, (stage, fraction) => {
+                this.updateStatus(`Eroding terrain: ${stageNames[stage]} ${Math.round(fraction * 100)}%`);
+            }, controller.signal);
+        } finally {
+            if (this.erosionController === controller) this.erosionController = null;
+        }
+    }
+    
+    /**
+     * Read the erosion controls
+     */
+    private getErosionOptions(): ErosionOptions {
+        const read = (input: HTMLInputElement | null, fallback: number, min: number, max: number, name: string) =>
+            this.validateTerrainParameter(input ? parseFloat(input.value) : fallback, min, max, name);
+        return {
+            seed: this.getTerrainSeed(),
+            thermalIterations: Math.round(read(this.thermalErosionInput, 0, 0, 500, 'thermal passes')),
+            hydraulicDroplets: Math.round(read(this.hydraulicErosionInput, 0, 0, 1000, 'rain droplets') * 1000),
+            strength: read(this.erosionStrengthInput, 0.5, 0.05, 1, 'erosion strength')
+        };
+    }
+    
+    /**
+     * Generate procedural terrain based on UI controls with validation
+     */
+    private generateProceduralTerrain(): HeightData {
+        const noiseScaleVal = this.validateTerrainParameter(
+            this.noiseScaleInput ? parseFloat(this.noiseScaleInput.value) : 0.05,
+            0.001, 0.5, 'noise scale'
+        );
+        const octavesVal = this.validateTerrainParameter(
+            this.octavesInput ? parseInt(this.octavesInput.value, 10) : 6,
+            1, 10, 'octaves'
+        );
+        const mapSize = this.getMapSize();
+        return TerrainLoader.generateProceduralTerrain(mapSize, mapSize, {
+            noiseScale: noiseScaleVal,
+            octaves: octavesVal,
+            persistence: 0.65, // Slightly more persistent for smoother transitions
+            lacunarity: 2.1,   // Slightly higher for more detail variation
+            offset: 0,
+            seed: this.getTerrainSeed(),
+            features: this.getFeatureOptions(),
+            ...this.getReliefOptions()
+        });
+    }
+    
+    /**
+     * Read the crater, boulder and dune controls
+     */
+    private getFeatureOptions(): TerrainFeatureOptions {
+        const read = (input: HTMLInputElement | null, fallback: number, min: number, max: number, name: string) =>
+            this.validateTerrainParameter(input ? parseFloat(input.value) : fallback, min, max, name);
+        return {
+            craterDensity: read(this.craterDensityInput, 0, 0, 5000, 'crater density'),
+            boulderDensity: read(this.boulderDensityInput, 0, 0, 500, 'boulder density'),
+            duneAmplitude: read(this.duneHeightInput, 0, 0, 20, 'dune height'),
+            duneDirection: read(this.duneDirectionInput, 30, 0, 360, 'wind direction')
+        };
+    }
+    
+    /**
+     * Cells per side of the procedural map; 128 when no size is selected
+     */
+    private getMapSize(): number {
+        const size = this.mapSizeSelect ? parseInt(this.mapSizeSelect.value, 10) : NaN;
+        return isFinite(size) ? size : DEFAULT_MAP_SIZE;
+    }
+    
+    /**
+     * Read the terrain seed as an unsigned 32-bit integer
+     */
+    private getTerrainSeed(): number {
+        const seed = this.terrainSeedInput ? parseInt(this.terrainSeedInput.value, 10) : NaN;
+        return isFinite(seed) ? seed >>> 0 : 1337;
+    }
+    
+    /**
+     * Pick a new random seed and regenerate the terrain
+     */
+    private randomizeSeed(): void {
+        if (!this.terrainSeedInput) return;
+        this.terrainSeedInput.value = String(Math.floor(Math.random() * 0x100000000));
+        if (this.terrainSourceSelect) this.terrainSourceSelect.value = 'procedural';
+        this.onTerrainSourceChange();
+    }
+    
+    /**
+     * Serialize every setting that determines the terrain, e.g.
+     * "source=procedural&seed=1337&relief=6&density=0.05&octaves=6&resolution=2&exaggeration=1"
+     */
+    private getTerrainDescription(): string {
+        const params = new URLSearchParams({ source: this.getTerrainSource() });
+        if (this.getTerrainSource() === 'procedural') {
+            params.set('seed', String(this.getTerrainSeed()));
+            params.set('size', String(this.getMapSize()));
+            params.set('density', this.noiseScaleInput?.value ?? '0.05');
+            params.set('octaves', this.octavesInput?.value ?? '6');
+            params.set('craters', this.craterDensityInput?.value ?? '0');
+            params.set('boulders', this.boulderDensityInput?.value ?? '0');
+            params.set('dunes', this.duneHeightInput?.value ?? '0');
+            params.set('wind', this.duneDirectionInput?.value ?? '30');
+            params.set('thermal', this.thermalErosionInput?.value ?? '0');
+            params.set('rain', this.hydraulicErosionInput?.value ?? '0');
+            params.set('erosion', this.erosionStrengthInput?.value ?? '0.5');
+        }
+        params.set('relief', this.mountainScaleInput?.value ?? '6');
+        params.set('resolution', this.groundResolutionInput?.value ?? '2');
+        params.set('exaggeration', this.verticalExaggerationInput?.value ?? '1');
+        return params.toString();
+    }
+    
+    /**
+     * Restore terrain controls from a description produced by getTerrainDescription()
+     */
+    private applyTerrainDescription(description: string): void {
+        const params = new URLSearchParams(description);
+        const source = params.get('source');
+        if (source !== 'procedural' && source !== 'dataset') return;
+        
+        const assign = (input: HTMLInputElement | HTMLSelectElement | null, key: string) => {
+            const value = params.get(key);
+            if (input && value !== null) input.value = value;
+        };
+        assign(this.terrainSourceSelect, 'source');
+        assign(this.terrainSeedInput, 'seed');
+        assign(this.mapSizeSelect, 'size');
+        this.snapMapSize(parseInt(params.get('size') ?? '', 10));
+        assign(this.noiseScaleInput, 'density');
+        assign(this.octavesInput, 'octaves');
+        assign(this.craterDensityInput, 'craters');
+        assign(this.boulderDensityInput, 'boulders');
+        assign(this.duneHeightInput, 'dunes');
+        assign(this.duneDirectionInput, 'wind');
+        assign(this.thermalErosionInput, 'thermal');
+        assign(this.hydraulicErosionInput, 'rain');
+        assign(this.erosionStrengthInput, 'erosion');
+        assign(this.mountainScaleInput, 'relief');
+        assign(this.groundResolutionInput, 'resolution');
+        assign(this.verticalExaggerationInput, 'exaggeration');
+        if (this.terrainPresetSelect) this.terrainPresetSelect.value = 'custom';
+        
+        document.getElementById('procedural-controls')?.classList.toggle('hidden', source !== 'procedural');
+    }
+    
+    /**
+     * Select the size option nearest a requested size (a link can name one the
+     * list does not offer, which leaves the select empty), or 128 if none was
+     */
+    private snapMapSize(requested: number): void {
+        if (!this.mapSizeSelect || this.mapSizeSelect.selectedIndex >= 0) return;
+        const sizes = Array.from(this.mapSizeSelect.options, (option) => parseInt(option.value, 10));
+        const snapped = requested > 0
+            ? sizes.reduce((best, size) => Math.abs(Math.log2(size / requested)) < Math.abs(Math.log2(best / requested)) ? size : best)
+            : DEFAULT_MAP_SIZE;
+        this.mapSizeSelect.value = String(snapped);
+    }
+    
+    /**
+     * Copy a link that reproduces the current terrain
+     */
+    private async copyTerrainLink(): Promise<void> {
+        if (this.getTerrainSource() === 'upload') {
+            this.updateStatus('Uploaded terrain cannot be shared as a link; share the file instead.');
+            return;
+        }
+        const link = `${location.origin}${location.pathname}#${this.getTerrainDescription()}`;
+        try {
+            await navigator.clipboard.writeText(link);
+            this.updateStatus('Terrain link copied to clipboard.');
+        } catch {
+            this.updateStatus(`Terrain link: ${link}`);
+        }
+    }
+    
+    /**
+     * Loader options that map a normalized 0-1 heightmap onto the relief slider in metres
+     */
+    private getReliefOptions(): LoadOptions {
+        const reliefVal = this.validateTerrainParameter(
+            this.mountainScaleInput ? parseFloat(this.mountainScaleInput.value) : 6,
+            0.1, 1000, 'terrain relief'
+        );
+        return { normalize: true, scale: 1, cellSize: this.getGroundResolution(), verticalUnits: reliefVal };
+    }
+    
+    /**
+     * Ground resolution in metres per cell for sources that do not carry one
+     */
+    private getGroundResolution(): number {
+        return this.validateTerrainParameter(
+            this.groundResolutionInput ? parseFloat(this.groundResolutionInput.value) : 2,
+            0.01, 10000, 'ground resolution'
+        );
+    }
+    
+    /**
+     * Build loader options for user-uploaded files from the decoding controls
+     */
+    private getImportOptions(): LoadOptions {
+        const decoding = this.getHeightDecoding();
+        if (!this.isMetricImport()) {
+            return { decoding: 'gray8', ...this.getReliefOptions() };
+        }
+        if (this.isDEMImport()) {
+            const maxSize = parseInt((document.getElementById('dem-max-size') as HTMLSelectElement | null)?.value ?? '256', 10);
+            return {
+                normalize: false,
+                region: this.getImportRegion(),
+                maxSize: maxSize > 0 ? maxSize : undefined,
+                cellSize: this.getGroundResolution()
+            };
+        }
+        
+        // Metric encodings keep their true heights
+        const rgbBase = this.rgbBaseInput ? parseFloat(this.rgbBaseInput.value) : NaN;
+        const rgbScale = this.rgbScaleInput ? parseFloat(this.rgbScaleInput.value) : NaN;
+        return {
+            decoding,
+            normalize: false,
+            rgbBase: isFinite(rgbBase) ? rgbBase : -10000,
+            rgbScale: isFinite(rgbScale) && rgbScale !== 0 ? rgbScale : 0.1,
+            cellSize: this.getGroundResolution()
+        };
+    }
+    
+    /**
+     * Read the DEM region of interest; undefined when any field is blank
+     */
+    private getImportRegion(): RasterRegion | undefined {
+        const read = (id: string) => parseInt((document.getElementById(id) as HTMLInputElement | null)?.value ?? '', 10);
+        const region = { x: read('roi-x'), y: read('roi-y'), width: read('roi-width'), height: read('roi-height') };
+        return Object.values(region).every((value) => isFinite(value)) ? region : undefined;
+    }
+    
+    /**
+     * Get the selected PNG height decoding mode
+     */
+    private getHeightDecoding(): HeightDecoding {
+        return (this.heightDecodingSelect?.value as HeightDecoding) || 'gray8';
+    }
+    
+    /**
+     * Whether the current terrain is an upload decoded in real-world heights
+     */
+    private isMetricImport(): boolean {
+        if (this.getTerrainSource() !== 'upload') return false;
+        if (this.isDEMImport()) return true;
+        return this.getHeightDecoding() !== 'gray8' &&
+               /\.png$/i.test(this.uploadedTerrainFiles[0]?.name ?? '');
+    }
+    
+    /**
+     * Whether the uploaded files are an elevation raster (GeoTIFF, raw grid + header or PDS product)
+     */
+    private isDEMImport(): boolean {
+        return this.uploadedTerrainFiles.some((file) => /\.(tiff?|hdr|lbl|xml|img)$/i.test(file.name));
+    }
+    
+    /**
+     * Get the currently selected terrain source
+     */
+    private getTerrainSource(): TerrainSource {
+        return (this.terrainSourceSelect?.value as TerrainSource) || 'procedural';
+    }
+    
+    /**
+     * Show the controls relevant to the selected source and reload
+     */
+    private onTerrainSourceChange(): void {
+        const source = this.getTerrainSource();
+        document.getElementById('procedural-controls')?.classList.toggle('hidden', source !== 'procedural');
+        document.getElementById('terrain-upload-controls')?.classList.toggle('hidden', source !== 'upload');
+        
+        if (source === 'upload' && this.uploadedTerrainFiles.length === 0) {
+            this.updateStatus('Choose or drop a heightmap or DEM to import it.');
+            return;
+        }
+        this.loadTerrain();
+    }
+    
+    /**
+     * Remember user-provided heightmap files and load them
+     */
+    private setUploadedTerrainFiles(files: File[]): void {
+        this.uploadedTerrainFiles = files;
+        this.updateElement('terrain-file-name', files.map((file) => file.name).join(', '));
+        if (this.terrainSourceSelect && this.terrainSourceSelect.value !== 'upload') {
+            this.terrainSourceSelect.value = 'upload';
+            this.onTerrainSourceChange();
+        } else {
+            this.loadTerrain();
         }
     }
     
@@ -350,84 +917,160 @@ class PlanetaryRoverSimulator {
             const x = Math.max(0, Math.min(this.terrainMesh.getHeightData().width - 1, Math.round(heightCoords.x)));
             const y = Math.max(0, Math.min(this.terrainMesh.getHeightData().height - 1, Math.round(heightCoords.y)));
             
-            if (!this.startPoint) {
-                // Set start point
-                this.startPoint = { x, y };
-                this.createMarker(point, 0x00ff00, 'start');
-                this.updateStatus('Start point set! Click to set end point.');
-            } else if (!this.endPoint) {
-                // Set end point
-                // Ignore if same as start
-                if (this.startPoint.x === x && this.startPoint.y === y) return;
-                this.endPoint = { x, y };
-                this.createMarker(point, 0xff0000, 'end');
-                this.updateStatus('End point set! Click "Find Path" to calculate route.');
-                this.findPathBtn.disabled = false;
+            if (event.shiftKey) {
+                this.placeHiddenRock({ x, y });
             } else {
-                // Reset points
-                if (this.startPoint.x === x && this.startPoint.y === y) return; // same cell, ignore
-                this.startPoint = { x, y };
-                this.endPoint = null;
-                this.clearMarkers();
-                this.clearPath();
-                this.createMarker(point, 0x00ff00, 'start');
-                this.updateStatus('Start point reset! Click to set new end point.');
+                this.addWaypoint({ x, y }, point);
             }
         }
     }
     
     /**
-     * Create visual marker for start/end points
+     * Append a waypoint; the first is the start and the latest the destination
      */
-    private createMarker(position: THREE.Vector3, color: number, type: 'start' | 'end'): void {
-        // Remove previous marker of the same type if it exists
-        if (type === 'start' && this.startMarker) {
-            this.scene.remove(this.startMarker);
-            this.startMarker.geometry.dispose();
-            (this.startMarker.material as THREE.Material).dispose();
-            this.startMarker = null;
-        }
-        if (type === 'end' && this.endMarker) {
-            this.scene.remove(this.endMarker);
-            this.endMarker.geometry.dispose();
-            (this.endMarker.material as THREE.Material).dispose();
-            this.endMarker = null;
-        }
-
+    private addWaypoint(cell: Point, position: THREE.Vector3): void {
+        const last = this.waypoints[this.waypoints.length - 1];
+        if (last && last.cell.x === cell.x && last.cell.y === cell.y) return; // same cell, ignore
+        
         const geometry = new THREE.ConeGeometry(1, 3, 8);
-        const material = new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 0.2, roughness: 0.6, metalness: 0.1 });
+        const material = new THREE.MeshStandardMaterial({ emissiveIntensity: 0.2, roughness: 0.6, metalness: 0.1 });
         const marker = new THREE.Mesh(geometry, material);
-        
         marker.position.copy(position);
         marker.position.y += 2;
         marker.castShadow = true;
-        
-        if (type === 'start') {
-            this.startMarker = marker;
-        } else {
-            this.endMarker = marker;
-        }
-        
         this.scene.add(marker);
+        
+        this.waypoints.push({ cell, label: '', dwell: 0, marker });
+        this.onWaypointsChanged();
+        this.updateStatus(this.waypoints.length === 1
+            ? 'Start point set! Click to add waypoints; the last one is the destination.'
+            : `Waypoint ${this.waypoints.length - 1} added. Click "Find Path" to plan the mission.`);
+    }
+    
+    /**
+     * Delete a waypoint and its marker
+     */
+    private removeWaypoint(index: number): void {
+        const [waypoint] = this.waypoints.splice(index, 1);
+        if (!waypoint) return;
+        this.disposeWaypointMarker(waypoint);
+        this.onWaypointsChanged();
+    }
+    
+    /**
+     * Move a waypoint to another place in the visiting order
+     */
+    private moveWaypoint(from: number, to: number): void {
+        if (from === to || !this.waypoints[from] || !this.waypoints[to]) return;
+        const [waypoint] = this.waypoints.splice(from, 1);
+        this.waypoints.splice(to, 0, waypoint);
+        this.onWaypointsChanged();
     }
     
     /**
-     * Clear all markers
+     * Remove every waypoint and its marker
      */
-    private clearMarkers(): void {
-        if (this.startMarker) {
-            this.scene.remove(this.startMarker);
-            this.startMarker.geometry.dispose();
-            (this.startMarker.material as THREE.Material).dispose();
-            this.startMarker = null;
+    private removeWaypoints(): void {
+        this.waypoints.forEach((waypoint) => this.disposeWaypointMarker(waypoint));
+        this.waypoints = [];
+        this.renderWaypointList();
+    }
+    
+    private disposeWaypointMarker(waypoint: Waypoint): void {
+        this.scene.remove(waypoint.marker);
+        waypoint.marker.geometry.dispose();
+        (waypoint.marker.material as THREE.Material).dispose();
+    }
+    
+    /**
+     * The stops or their order changed: the planned mission no longer fits them
+     */
+    private onWaypointsChanged(): void {
+        this.clearRoute();
+        this.renderWaypointList();
+    }
+    
+    /**
+     * List the waypoints with their task label and dwell time; rows can be
+     * dragged by their number badge to reorder them, and each has a delete button
+     */
+    private renderWaypointList(): void {
+        const list = document.getElementById('waypoint-list');
+        
+        // Start green, destination red, stops in between amber
+        this.waypoints.forEach((waypoint, index) => {
+            const color = index === 0 ? WAYPOINT_COLORS.start
+                : index === this.waypoints.length - 1 ? WAYPOINT_COLORS.end
+                : WAYPOINT_COLORS.stop;
+            const material = waypoint.marker.material as THREE.MeshStandardMaterial;
+            material.color.setHex(color);
+            material.emissive.setHex(color);
+        });
+        if (!list) return;
+        
+        if (this.waypoints.length === 0) {
+            const hint = document.createElement('li');
+            hint.className = 'text-slate-500';
+            hint.textContent = 'Click the terrain to add the start, then each stop';
+            list.replaceChildren(hint);
+            return;
         }
         
-        if (this.endMarker) {
-            this.scene.remove(this.endMarker);
-            this.endMarker.geometry.dispose();
-            (this.endMarker.material as THREE.Material).dispose();
-            this.endMarker = null;
-        }
+        list.replaceChildren(...this.waypoints.map((waypoint, index) => {
+            const row = document.createElement('li');
+            row.className = 'flex items-center gap-1';
+            row.addEventListener('dragover', (event) => event.preventDefault());
+            row.addEventListener('drop', (event) => {
+                event.preventDefault();
+                const from = parseInt(event.dataTransfer?.getData('text/plain') ?? '', 10);
+                if (!isNaN(from)) this.moveWaypoint(from, index);
+            });
+            
+            // Only the badge drags, so text in the fields can be selected and edited
+            const badge = document.createElement('span');
+            badge.className = 'w-5 text-center font-mono text-slate-400 cursor-move';
+            badge.textContent = index === 0 ? 'S' : String(index);
+            badge.title = `Cell (${waypoint.cell.x}, ${waypoint.cell.y}); drag to reorder`;
+            badge.draggable = true;
+            badge.addEventListener('dragstart', (event) => {
+                event.dataTransfer?.setData('text/plain', String(index));
+                event.dataTransfer?.setDragImage(row, 0, 0);
+            });
+            
+            const label = document.createElement('input');
+            label.type = 'text';
+            label.value = waypoint.label;
+            label.placeholder = index === 0 ? 'Start' : 'Task';
+            label.className = 'flex-1 min-w-0 bg-slate-800 text-white border border-slate-600 rounded px-1 py-0.5 text-xs focus:border-accent-blue focus:outline-none';
+            label.addEventListener('change', () => {
+                waypoint.label = label.value.trim();
+                this.renderLegStats();
+            });
+            
+            const dwell = document.createElement('input');
+            dwell.type = 'number';
+            dwell.min = '0';
+            dwell.step = '10';
+            dwell.value = String(waypoint.dwell);
+            dwell.title = 'Seconds spent working here';
+            dwell.disabled = index === 0;
+            dwell.className = 'w-14 bg-slate-800 text-white border border-slate-600 rounded px-1 py-0.5 text-xs focus:border-accent-blue focus:outline-none disabled:opacity-40';
+            dwell.addEventListener('change', () => {
+                waypoint.dwell = Math.max(0, parseFloat(dwell.value) || 0);
+                dwell.value = String(waypoint.dwell);
+                if (this.missionLegs.length > 0) this.showPredictedStats(this.getMissionStats(this.currentLeg));
+                this.renderLegStats();
+            });
+            
+            const remove = document.createElement('button');
+            remove.className = 'px-1 text-red-400 hover:text-red-300 cursor-pointer';
+            remove.textContent = '×';
+            remove.title = 'Delete waypoint';
+            remove.addEventListener('click', () => this.removeWaypoint(index));
+            
+            row.append(badge, label, dwell, remove);
+            return row;
+        }));
     }
     
     /**
@@ -452,6 +1095,11 @@ class PlanetaryRoverSimulator {
             }
             return 0;
         });
+        this.rover.setTerrainElevationFunction((x, z) => this.terrainMesh?.getElevationAtWorldCoords(x, z) ?? 0);
+        this.rover.setWorldScale(this.terrainMesh?.getWorldUnitsPerMetre() ?? 1);
+        
+        // Plan against the limits of the rover that will drive the route
+        this.updateTraversability();
         
         this.scene.add(this.rover.getMesh());
         // Ensure rover is visible above fog and lit
@@ -476,86 +1124,765 @@ class PlanetaryRoverSimulator {
     }
     
     /**
-     * Find path using A* algorithm
+     * Plan the mission with the selected algorithm and objective: one search
+     * per leg, from each waypoint to the next
      */
     private async findPath(): Promise<void> {
-        if (!this.startPoint || !this.endPoint || !this.pathfindingEngine) return;
+        if (this.waypoints.length < 2 || !this.pathfindingClient || !this.pathfindingEngine) return;
+        const [cells, client, engine] = [this.waypoints.map((waypoint) => waypoint.cell), this.pathfindingClient, this.pathfindingEngine];
+        
+        try {
+            const results: PathfindingResult[] = [];
+            for (let leg = 1; leg < cells.length; leg++) {
+                const label = cells.length > 2 ? `Planning leg ${leg} of ${cells.length - 1}` : 'Finding optimal path';
+                const result = await this.runPlanning(label, (onProgress, signal) =>
+                    client.findPath(cells[leg - 1], cells[leg], onProgress, signal));
+                if (!result) return;
+                if (result.path.length === 0) {
+                    this.updateStatus(cells.length > 2
+                        ? `No valid path for leg ${leg} (to waypoint ${leg}). Try moving or reordering waypoints.`
+                        : 'No valid path found. Try different start/end points.');
+                    return;
+                }
+                results.push(result);
+                // A partial leg ends short of its waypoint, so later legs cannot follow on
+                if (result.partial) break;
+            }
+            
+            this.clearComparisons();
+            this.missionLegs = results.map((result) => ({ path: result.path, stats: engine.getPathStats(result.path) }));
+            this.currentLeg = 0;
+            this.visualizeMission();
+            const stats = this.getMissionStats();
+            this.showPredictedStats(stats);
+            this.renderLegStats();
+            
+            const nodes = results.reduce((sum, result) => sum + result.nodesExplored, 0);
+            const time = results.reduce((sum, result) => sum + result.executionTime, 0);
+            const summary = `${stats.distance.toFixed(0)} m, ${stats.energy.toFixed(0)} Wh, ${this.formatDuration(stats.duration)} predicted (${nodes} nodes, ${time.toFixed(2)}ms)`;
+            const last = results[results.length - 1];
+            if (last.partial) {
+                const end = last.path[last.path.length - 1];
+                const goal = cells[results.length];
+                const remaining = Math.hypot(goal.x - end.x, goal.y - end.y) * engine.getHeightData().cellSize;
+                const later = results.length < cells.length - 1 ? '; later legs not planned' : '';
+                this.updateStatus(`Budget reached: partial path ends ${remaining.toFixed(0)} m from waypoint ${results.length}${later}. ${summary}`);
+            } else {
+                this.updateStatus(`${cells.length > 2 ? `Mission planned (${results.length} legs)` : 'Path found'}! ${summary}`);
+            }
+            this.animateRoverBtn.disabled = false;
+        } catch (error) {
+            this.updateStatus(`Pathfinding error: ${error}`);
+        }
+    }
+    
+    /**
+     * Reorder the stops between the start and the destination for the cheapest
+     * mission. One search from each waypoint costs the routes to all the stops
+     * it could lead to (the planner's cost, not straight lines; the routes
+     * follow the grid), the order is found by nearest neighbour, 2-opt and
+     * or-opt, and the mission is built from the routes already planned.
+     */
+    private async optimizeWaypointOrder(): Promise<void> {
+        if (this.waypoints.length < 4 || !this.pathfindingClient || !this.pathfindingEngine) return;
+        const [cells, client, engine] = [this.waypoints.map((waypoint) => waypoint.cell), this.pathfindingClient, this.pathfindingEngine];
+        const count = cells.length;
+        const costs = cells.map(() => new Array<number>(count).fill(Infinity));
+        const paths = cells.map(() => new Array<Point[]>(count).fill([]));
+        
+        try {
+            // Nothing returns to the start or leaves the destination, and other stops
+            // always lie between the two, so those routes are not needed
+            for (let from = 0; from < count - 1; from++) {
+                const targets = cells.map((_, to) => to).filter((to) => to !== 0 && to !== from && !(from === 0 && to === count - 1));
+                const results = await this.runPlanning(`Optimizing order: search ${from + 1} of ${count - 1}, ${targets.length} routes`, (onProgress, signal) =>
+                    client.findPathsFrom(cells[from], targets.map((to) => cells[to]), onProgress, signal));
+                if (!results) return;
+                results.forEach((result, i) => {
+                    if (!result.success) return;
+                    costs[from][targets[i]] = result.cost;
+                    paths[from][targets[i]] = result.path;
+                });
+            }
+        } catch (error) {
+            this.updateStatus(`Pathfinding error: ${error}`);
+            return;
+        }
+        
+        const order = MissionPlanner.optimizeOrder(costs);
+        const before = MissionPlanner.tourCost(cells.map((_, index) => index), costs);
+        const after = MissionPlanner.tourCost(order, costs);
+        if (!isFinite(after)) {
+            this.updateStatus('Some waypoints cannot be reached from the others; order left unchanged.');
+            return;
+        }
+        
+        this.waypoints = order.map((index) => this.waypoints[index]);
+        this.onWaypointsChanged();
+        this.missionLegs = order.slice(1).map((to, leg) => {
+            const path = paths[order[leg]][to];
+            return { path, stats: engine.getPathStats(path) };
+        });
+        this.visualizeMission();
+        this.showPredictedStats(this.getMissionStats());
+        this.renderLegStats();
+        this.animateRoverBtn.disabled = false;
         
-        this.isPathfinding = true;
-        this.findPathBtn.disabled = true;
-        this.updateStatus('Finding optimal path...');
+        const saving = isFinite(before) && before > 0 ? ` (${((1 - after / before) * 100).toFixed(0)}% cheaper)` : '';
+        this.updateStatus(`Order optimized over ${count - 1} searches: cost ${isFinite(before) ? before.toFixed(0) : '∞'} → ${after.toFixed(0)}${saving}.`);
+    }
+    
+    /**
+     * Draw the mission from a leg on as one route
+     */
+    private visualizeMission(fromLeg = 0): void {
+        const route: Point[] = [];
+        for (const leg of this.missionLegs.slice(fromLeg)) {
+            route.push(...(route.length > 0 ? leg.path.slice(1) : leg.path));
+        }
+        this.visualizePath([route], 0, false);
+    }
+    
+    /**
+     * Predicted totals of the mission from a leg on, including time spent
+     * working at the waypoints those legs lead to
+     */
+    private getMissionStats(fromLeg = 0): PathStats {
+        const totals: PathStats = { distance: 0, energy: 0, duration: 0, maxSlope: 0, hazard: 0 };
+        this.missionLegs.slice(fromLeg).forEach(({ stats }, index) => {
+            totals.distance += stats.distance;
+            totals.energy += stats.energy;
+            totals.duration += stats.duration + (this.waypoints[fromLeg + index + 1]?.dwell ?? 0);
+            totals.maxSlope = Math.max(totals.maxSlope, stats.maxSlope);
+            totals.hazard += stats.hazard;
+        });
+        return totals;
+    }
+    
+    /**
+     * Per-leg distance, energy and time under the dashboard's waypoint count;
+     * legs already driven are dimmed and the current one highlighted
+     */
+    private renderLegStats(): void {
+        const list = document.getElementById('leg-stats');
+        if (!list) return;
+        
+        const driving = this.rover?.isMoving() || this.rover?.isHolding() || this.currentLeg > 0;
+        list.replaceChildren(...this.missionLegs.map((leg, index) => {
+            const to = this.waypoints[index + 1];
+            const item = document.createElement('li');
+            item.className = !driving ? 'text-slate-300'
+                : index < this.currentLeg ? 'text-slate-500'
+                : index === this.currentLeg ? 'text-accent-cyan'
+                : 'text-slate-300';
+            const name = to?.label || (index === this.waypoints.length - 2 ? 'destination' : `waypoint ${index + 1}`);
+            const dwell = to?.dwell ? ` +${this.formatDuration(to.dwell)}` : '';
+            item.textContent = `${index + 1}. ${name}: ${leg.stats.distance.toFixed(0)} m · ${leg.stats.energy.toFixed(0)} Wh · ${this.formatDuration(leg.stats.duration)}${dwell}`;
+            return item;
+        }));
+    }
+    
+    /**
+     * Grid cells as world positions on the ground plane, for the rover
+     */
+    private toWorldPath(path: Point[]): Point[] {
+        return path.map((point) => {
+            const world = this.terrainMesh!.heightToWorldCoords(point.x, point.y);
+            return { x: world.x, y: world.z };
+        });
+    }
+    
+    /**
+     * Plan a small Pareto set of routes trading distance, energy, steepness and
+     * hazard, draw them all and let the user pick one from the comparison table
+     */
+    private async compareRoutes(): Promise<void> {
+        if (this.waypoints.length !== 2 || !this.pathfindingClient) return;
+        const [start, goal, client] = [this.waypoints[0].cell, this.waypoints[1].cell, this.pathfindingClient];
         
         try {
-            const result = this.pathfindingEngine.findPath(this.startPoint, this.endPoint);
+            const startTime = performance.now();
+            const alternatives = await this.runPlanning('Comparing route alternatives', (onProgress, signal) =>
+                client.findAlternatives(start, goal, onProgress, signal));
+            if (!alternatives) return;
             
-            if (result.success) {
-                this.visualizePath(result.path);
-                this.updateStatus(`Path found! Cost: ${result.cost.toFixed(2)}, Nodes explored: ${result.nodesExplored}, Time: ${result.executionTime.toFixed(2)}ms`);
+            this.clearComparisons();
+            this.routeAlternatives = alternatives;
+            if (this.routeAlternatives.length > 0) {
+                this.selectRoute(0);
                 this.animateRoverBtn.disabled = false;
+                this.updateStatus(`${this.routeAlternatives.length} route alternatives found in ${(performance.now() - startTime).toFixed(0)}ms. Pick one in the table, then Animate.`);
             } else {
                 this.updateStatus('No valid path found. Try different start/end points.');
             }
         } catch (error) {
             this.updateStatus(`Pathfinding error: ${error}`);
-        } finally {
-            this.isPathfinding = false;
-            this.findPathBtn.disabled = false;
         }
     }
     
     /**
-     * Visualize the computed path
+     * Run every planning algorithm on the current start and goal, draw their
+     * paths and list cost, length, nodes explored and time side by side
      */
-    private visualizePath(path: Point[]): void {
-        if (!this.terrainMesh) return;
+    private async compareAlgorithms(): Promise<void> {
+        if (this.waypoints.length !== 2 || !this.pathfindingClient) return;
+        const [start, goal, client] = [this.waypoints[0].cell, this.waypoints[1].cell, this.pathfindingClient];
         
-        // Remove existing path line
-        if (this.pathLine) {
-            this.scene.remove(this.pathLine);
-            this.pathLine.geometry.dispose();
-            (this.pathLine.material as THREE.Material).dispose();
+        try {
+            const runs = await this.runPlanning('Comparing planning algorithms', (onProgress, signal) =>
+                client.compareAlgorithms(start, goal, onProgress, signal));
+            if (!runs) return;
+            
+            this.clearComparisons();
+            this.algorithmRuns = runs;
+            const first = this.algorithmRuns.findIndex((run) => run.result.success);
+            if (first >= 0) {
+                this.selectAlgorithmRun(first);
+                this.animateRoverBtn.disabled = false;
+                const solved = this.algorithmRuns.filter((run) => run.result.success).length;
+                this.updateStatus(`${solved} of ${this.algorithmRuns.length} algorithms found a path. Click a row to drive its path.`);
+            } else {
+                this.renderAlgorithmTable(-1);
+                this.updateStatus('No valid path found. Try different start/end points.');
+            }
+        } catch (error) {
+            this.updateStatus(`Pathfinding error: ${error}`);
         }
+    }
+    
+    /**
+     * Run a worker search with the planning buttons locked, progress in the
+     * status line and Cancel shown; null when the search was cancelled
+     */
+    private async runPlanning<T>(
+        label: string,
+        search: (onProgress: (progress: SearchProgress) => void, signal: AbortSignal) => Promise<T>
+    ): Promise<T | null> {
+        this.planningController?.abort();
+        const controller = new AbortController();
+        this.planningController = controller;
+        this.setPlanningState(true);
+        this.updateStatus(`${label}...`);
         
-        // Create new path line
-        const points: THREE.Vector3[] = [];
+        try {
+            return await search((progress) => {
+                this.updateStatus(`${label}... ${progress.nodesExplored.toLocaleString()} nodes expanded, best f ${progress.bestF.toFixed(1)} (${(progress.elapsed / 1000).toFixed(1)} s)`);
+            }, controller.signal);
+        } catch (error) {
+            if (error instanceof DOMException && error.name === 'AbortError') {
+                this.updateStatus('Planning cancelled.');
+                return null;
+            }
+            throw error;
+        } finally {
+            if (this.planningController === controller) {
+                this.planningController = null;
+                this.setPlanningState(false);
+            }
+        }
+    }
+    
+    /**
+     * Lock the planning buttons and show Cancel while a search runs
+     */
+    private setPlanningState(planning: boolean): void {
+        this.isPathfinding = planning;
+        this.updatePlanningButtons();
+        this.cancelPlanningBtn.style.display = planning ? 'block' : 'none';
+    }
+    
+    /**
+     * Planning needs two waypoints, comparisons exactly two (a single start
+     * and goal) and reordering at least four, since the start and destination
+     * stay put; none while a search runs
+     */
+    private updatePlanningButtons(): void {
+        const count = this.waypoints.length;
+        this.findPathBtn.disabled = this.isPathfinding || count < 2;
+        this.compareRoutesBtn.disabled = this.isPathfinding || count !== 2;
+        this.compareAlgorithmsBtn.disabled = this.isPathfinding || count !== 2;
+        this.optimizeOrderBtn.disabled = this.isPathfinding || count < 4;
+    }
+    
+    /**
+     * Make one compared algorithm's path the rover's path
+     */
+    private selectAlgorithmRun(index: number): void {
+        const run = this.algorithmRuns[index];
+        if (!run?.result.success) return;
+        
+        this.visualizePath(this.algorithmRuns.map((other) => other.result.path), index);
+        this.missionLegs = [{ path: run.result.path, stats: run.stats }];
+        this.showPredictedStats(run.stats);
+        this.renderAlgorithmTable(index);
+        this.renderLegStats();
+    }
+    
+    /**
+     * Algorithm comparison table; clicking a row selects that path
+     */
+    private renderAlgorithmTable(selected: number): void {
+        const container = document.getElementById('algorithm-comparison');
+        const body = document.getElementById('algorithm-comparison-body');
+        if (!container || !body) return;
+        
+        body.replaceChildren(...this.algorithmRuns.map((run, index) => {
+            const row = document.createElement('tr');
+            row.className = index === selected
+                ? 'bg-slate-700/80 cursor-pointer'
+                : 'hover:bg-slate-700/40 cursor-pointer';
+            row.addEventListener('click', () => this.selectAlgorithmRun(index));
+            
+            const swatch = document.createElement('span');
+            swatch.className = 'inline-block w-2 h-2 rounded-full mr-1';
+            swatch.style.background = `#${ROUTE_COLORS[index % ROUTE_COLORS.length].toString(16).padStart(6, '0')}`;
+            const name = document.createElement('td');
+            name.className = 'py-0.5 pr-1 truncate max-w-[6rem]';
+            const option = this.plannerAlgorithmSelect.querySelector(`option[value="${run.algorithm}"]`);
+            name.title = option?.textContent ?? run.algorithm;
+            name.append(swatch, name.title.replace(/\s*\(.*\)$/, ''));
+            if (run.ranAs) {
+                // Not comparable as itself, e.g. JPS on a 4-connected grid
+                const stand = this.plannerAlgorithmSelect.querySelector(`option[value="${run.ranAs}"]`)?.textContent ?? run.ranAs;
+                name.title += `: ran as ${stand}`;
+                name.append('*');
+            }
+            
+            const { result, stats } = run;
+            const values = result.success
+                ? [result.cost.toFixed(0), stats.distance.toFixed(0), `${result.nodesExplored}`, result.executionTime.toFixed(0)]
+                : ['--', '--', `${result.nodesExplored}`, result.executionTime.toFixed(0)];
+            const cells = values.map((text) => {
+                const cell = document.createElement('td');
+                cell.className = 'py-0.5 text-right font-mono';
+                cell.textContent = text;
+                return cell;
+            });
+            row.append(name, ...cells);
+            return row;
+        }));
+        container.style.display = this.algorithmRuns.length > 0 ? 'block' : 'none';
+    }
+    
+    /**
+     * Forget route alternatives and algorithm comparisons and hide their tables
+     */
+    private clearComparisons(): void {
+        this.routeAlternatives = [];
+        this.algorithmRuns = [];
+        this.renderRouteTable(0);
+        this.renderAlgorithmTable(0);
+    }
+    
+    /**
+     * Make one of the route alternatives the rover's path
+     */
+    private selectRoute(index: number): void {
+        const route = this.routeAlternatives[index];
+        if (!route) return;
+        
+        this.visualizePath(this.routeAlternatives.map((alternative) => alternative.path), index);
+        this.missionLegs = [{ path: route.path, stats: route.stats }];
+        this.showPredictedStats(route.stats);
+        this.renderRouteTable(index);
+        this.renderLegStats();
+    }
+    
+    /**
+     * Comparison table of the route alternatives; clicking a row selects it
+     */
+    private renderRouteTable(selected: number): void {
+        const container = document.getElementById('route-alternatives');
+        const body = document.getElementById('route-alternatives-body');
+        if (!container || !body) return;
+        
+        body.replaceChildren(...this.routeAlternatives.map((route, index) => {
+            const row = document.createElement('tr');
+            row.className = index === selected
+                ? 'bg-slate-700/80 cursor-pointer'
+                : 'hover:bg-slate-700/40 cursor-pointer';
+            row.title = route.label;
+            row.addEventListener('click', () => this.selectRoute(index));
+            
+            const swatch = document.createElement('span');
+            swatch.className = 'inline-block w-2 h-2 rounded-full mr-1';
+            swatch.style.background = `#${ROUTE_COLORS[index % ROUTE_COLORS.length].toString(16).padStart(6, '0')}`;
+            const name = document.createElement('td');
+            name.className = 'py-0.5 pr-1 truncate max-w-[6rem]';
+            name.append(swatch, route.label);
+            
+            const { distance, energy, maxSlope, hazard } = route.stats;
+            const cells = [`${distance.toFixed(0)}`, `${energy.toFixed(0)}`, `${maxSlope.toFixed(1)}`, `${hazard.toFixed(0)}`].map((text) => {
+                const cell = document.createElement('td');
+                cell.className = 'py-0.5 text-right font-mono';
+                cell.textContent = text;
+                return cell;
+            });
+            row.append(name, ...cells);
+            return row;
+        }));
+        container.style.display = this.routeAlternatives.length > 0 ? 'block' : 'none';
+    }
+    
+    /**
+     * Visualize computed routes as tubes; the selected one is drawn solid and
+     * becomes the rover's path (unless the caller hands it over itself), the
+     * others stay faint for comparison
+     */
+    private visualizePath(paths: Point[][], selected = 0, followPath = true): void {
+        if (!this.terrainMesh) return;
         
-        // Build both the 3D line and a world-space path for the rover
-        const worldPath: Point[] = [];
-        for (const point of path) {
-            const worldCoords = this.terrainMesh.heightToWorldCoords(point.x, point.y);
-            const height = this.terrainMesh.getHeightAtWorldCoords(worldCoords.x, worldCoords.z);
-            points.push(new THREE.Vector3(worldCoords.x, height + 0.5, worldCoords.z));
-            worldPath.push({ x: worldCoords.x, y: worldCoords.z });
+        // Remove existing path lines
+        this.removePathLines();
+        this.drawnRoutes = { paths, selected };
+        
+        paths.forEach((path, index) => {
+            if (path.length < 2) return;
+            
+            // Build both the 3D line and a world-space path for the rover; long
+            // any-angle segments get extra tube points so the tube follows the ground
+            const points: THREE.Vector3[] = [];
+            const worldPath: Point[] = [];
+            path.forEach((point, i) => {
+                const worldCoords = this.terrainMesh!.heightToWorldCoords(point.x, point.y);
+                if (i > 0) {
+                    const previous = worldPath[i - 1];
+                    const steps = Math.ceil(Math.hypot(point.x - path[i - 1].x, point.y - path[i - 1].y));
+                    for (let step = 1; step < steps; step++) {
+                        const x = previous.x + (worldCoords.x - previous.x) * step / steps;
+                        const z = previous.y + (worldCoords.z - previous.y) * step / steps;
+                        points.push(new THREE.Vector3(x, this.terrainMesh!.getHeightAtWorldCoords(x, z) + 0.5, z));
+                    }
+                }
+                const height = this.terrainMesh!.getHeightAtWorldCoords(worldCoords.x, worldCoords.z);
+                points.push(new THREE.Vector3(worldCoords.x, height + 0.5, worldCoords.z));
+                worldPath.push({ x: worldCoords.x, y: worldCoords.z });
+            });
+            
+            // Render as glowing tube for premium visual
+            const isSelected = index === selected;
+            const color = ROUTE_COLORS[index % ROUTE_COLORS.length];
+            const curve = new THREE.CatmullRomCurve3(points);
+            const tubularSegments = Math.max(32, points.length * 4);
+            const radius = isSelected ? 0.15 : 0.1;
+            const radialSegments = 8;
+            const closed = false;
+            const tubeGeo = new THREE.TubeGeometry(curve, tubularSegments, radius, radialSegments, closed);
+            const tubeMat = new THREE.MeshStandardMaterial({
+                color, emissive: color, emissiveIntensity: isSelected ? 0.7 : 0.3,
+                roughness: 0.4, metalness: 0.2, transparent: true, opacity: isSelected ? 0.95 : 0.45
+            });
+            
+            const line = new THREE.Mesh(tubeGeo, tubeMat);
+            line.castShadow = false;
+            line.receiveShadow = false;
+            this.scene.add(line);
+            if (isSelected) {
+                this.pathLines.unshift(line);
+                // Set rover path if rover exists (use world-space coordinates)
+                if (followPath) this.rover?.setPath(worldPath);
+            } else {
+                this.pathLines.push(line);
+            }
+        });
+    }
+    
+    /**
+     * Remove and dispose every route tube
+     */
+    private removePathLines(): void {
+        for (const line of this.pathLines) {
+            this.scene.remove(line);
+            line.geometry.dispose();
+            (line.material as THREE.Material).dispose();
+        }
+        this.pathLines = [];
+        this.drawnRoutes = null;
+    }
+    
+    /**
+     * Drop a rock the planner cannot see; the rover finds it once it is within
+     * sensor range, and replans if it blocks the way
+     */
+    private placeHiddenRock(center: Point): void {
+        if (!this.terrainMesh) return;
+        const heightData = this.terrainMesh.getHeightData();
+        const radiusCells = Math.max(0.5, HIDDEN_ROCK_RADIUS / heightData.cellSize);
+        const reach = Math.ceil(radiusCells);
+        const cells: Point[] = [];
+        for (let dy = -reach; dy <= reach; dy++) {
+            for (let dx = -reach; dx <= reach; dx++) {
+                const x = center.x + dx;
+                const y = center.y + dy;
+                if (Math.hypot(dx, dy) > radiusCells || x < 0 || x >= heightData.width || y < 0 || y >= heightData.height) continue;
+                cells.push({ x, y });
+            }
         }
         
-        // Render as glowing tube for premium visual
-        const curve = new THREE.CatmullRomCurve3(points);
-        const tubularSegments = Math.max(32, path.length * 4);
-        const radius = 0.15;
-        const radialSegments = 8;
-        const closed = false;
-        const tubeGeo = new THREE.TubeGeometry(curve, tubularSegments, radius, radialSegments, closed);
-        const tubeMat = new THREE.MeshStandardMaterial({ color: 0x00ff88, emissive: 0x00ff88, emissiveIntensity: 0.7, roughness: 0.4, metalness: 0.2, transparent: true, opacity: 0.95 });
+        // Drawn faint until sensed, so the user can see what the rover cannot
+        const worldRadius = HIDDEN_ROCK_RADIUS * this.terrainMesh.getWorldUnitsPerMetre();
+        const geometry = new THREE.DodecahedronGeometry(worldRadius, 0);
+        const material = new THREE.MeshStandardMaterial({ color: 0x5a4632, roughness: 0.9, metalness: 0.05, transparent: true, opacity: 0.35 });
+        const mesh = new THREE.Mesh(geometry, material);
+        const world = this.terrainMesh.heightToWorldCoords(center.x, center.y);
+        mesh.position.set(world.x, this.terrainMesh.getHeightAtWorldCoords(world.x, world.z) + worldRadius * 0.4, world.z);
+        mesh.scale.y = 0.6;
+        mesh.castShadow = true;
+        this.scene.add(mesh);
+        
+        this.hiddenRocks.push({ cells, mesh, sensed: false });
+        this.logEvent(`Hidden rock placed at (${center.x}, ${center.y})`);
+    }
+    
+    /**
+     * Remove and dispose every hidden rock
+     */
+    private removeHiddenRocks(): void {
+        for (const rock of this.hiddenRocks) {
+            this.scene.remove(rock.mesh);
+            rock.mesh.geometry.dispose();
+            (rock.mesh.material as THREE.Material).dispose();
+        }
+        this.hiddenRocks = [];
+    }
+    
+    /**
+     * Reveal hidden rocks within sensor range of the rover and tell the planners;
+     * when one blocks the rest of the route, replan from where the rover is
+     */
+    private senseHazards(): void {
+        if (!this.rover || !this.terrainMesh || !this.pathfindingEngine) return;
+        
+        const { x, z } = this.rover.getState().position;
+        const range = this.rover.getOptions().sensorRange * this.terrainMesh.getWorldUnitsPerMetre();
+        const found = this.hiddenRocks.filter((rock) => !rock.sensed && Math.hypot(rock.mesh.position.x - x, rock.mesh.position.z - z) <= range);
+        if (found.length === 0) return;
+        
+        const cells: Point[] = [];
+        for (const rock of found) {
+            rock.sensed = true;
+            (rock.mesh.material as THREE.MeshStandardMaterial).opacity = 1;
+            cells.push(...rock.cells);
+            const metres = Math.hypot(rock.mesh.position.x - x, rock.mesh.position.z - z) / this.terrainMesh.getWorldUnitsPerMetre();
+            this.logEvent(`Rock sensed ${metres.toFixed(0)} m away`);
+        }
+        this.pathfindingEngine.addObstacles(cells);
+        this.pathfindingClient?.addObstacles(cells);
         
-        this.pathLine = new THREE.Mesh(tubeGeo, tubeMat);
-        this.pathLine.castShadow = false;
-        this.pathLine.receiveShadow = false;
-        this.scene.add(this.pathLine);
+        if (this.isRouteBlocked()) {
+            this.replanRoute();
+        } else {
+            this.logEvent('Route still clear; no replan needed');
+        }
+    }
+    
+    /**
+     * Fog of war: reveal the ground in the rover's camera view, bring the
+     * analysis layers, hazard map and blocked cells up to date there and tell
+     * the planners. A route being driven is repaired when it runs over the
+     * ground that changed.
+     */
+    private senseTerrain(force = false): void {
+        const knowledge = this.terrainKnowledge;
+        if (!knowledge || !this.rover || !this.terrainMesh || !this.pathfindingEngine) return;
+        const now = performance.now();
+        if (!force && now - this.lastTerrainSenseAt < TERRAIN_SENSE_INTERVAL) return;
+        this.lastTerrainSenseAt = now;
+        
+        const { position, rotation } = this.rover.getState();
+        const { sensorRange, sensorFov } = this.rover.getOptions();
+        const cell = this.terrainMesh.worldToHeightCoords(position.x, position.z);
+        const seen = knowledge.sense({ x: cell.x, y: cell.y, heading: rotation.y, range: sensorRange, fov: sensorFov });
+        if (!seen) return;
+        
+        // The hazard map reaches further than the 3×3 layers whenever it is cached
+        const analysed = TerrainAnalysis.updateRegion(knowledge.belief, seen);
+        const assessed = Traversability.updateRegion(knowledge.belief, seen);
+        const changed = assessed.width * assessed.height > analysed.width * analysed.height ? assessed : analysed;
+        const refreshed = this.pathfindingEngine.refreshRegion(changed);
+        this.pathfindingClient?.updateRegion(changed);
+        this.terrainMesh.setKnownMask(knowledge.known);
+        this.updateHazardOverlay(refreshed);
+        
+        // Ground seen away from the route leaves it as it was
+        if (this.rover.isMoving() && this.missionLegs.length > 0 && this.isRouteNear(refreshed)) this.replanRoute(true);
+    }
+    
+    /**
+     * Whether the rest of the rover's path crosses a blocked cell
+     */
+    private isRouteBlocked(): boolean {
+        if (!this.terrainMesh || !this.pathfindingEngine) return false;
+        const blocked = this.pathfindingEngine.getBlockedMask();
+        const { width } = this.terrainMesh.getHeightData();
+        return this.getRouteAhead().some((cell) => blocked[cell.y * width + cell.x]);
+    }
+    
+    /**
+     * Whether the rest of the rover's path runs within a cell of a region;
+     * moves are priced from the heights around their cells, so only then can
+     * a change there alter its cost
+     */
+    private isRouteNear(region: CellRegion): boolean {
+        return this.getRouteAhead().some((cell) =>
+            cell.x >= region.x - 1 && cell.x <= region.x + region.width &&
+            cell.y >= region.y - 1 && cell.y <= region.y + region.height);
+    }
+    
+    /**
+     * Grid cells under the rest of the rover's path
+     */
+    private getRouteAhead(): Point[] {
+        if (!this.rover || !this.terrainMesh) return [];
+        
+        const { width, height } = this.terrainMesh.getHeightData();
+        const { x, z } = this.rover.getState().position;
+        const cells: Point[] = [];
+        let from = this.terrainMesh.worldToHeightCoords(x, z);
+        for (const point of this.rover.getPath().slice(this.rover.getState().currentPathIndex + 1)) {
+            const to = this.terrainMesh.worldToHeightCoords(point.x, point.y);
+            const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) * 2));
+            for (let step = 1; step <= steps; step++) {
+                cells.push({
+                    x: Math.max(0, Math.min(width - 1, Math.round(from.x + (to.x - from.x) * step / steps))),
+                    y: Math.max(0, Math.min(height - 1, Math.round(from.y + (to.y - from.y) * step / steps)))
+                });
+            }
+            from = to;
+        }
+        return cells;
+    }
+    
+    /**
+     * Repair the current leg with D* Lite from the rover's cell to the waypoint
+     * it is heading for, and send the rover on along the new route without
+     * stopping; with onlyIfChanged the rover keeps its route when the repaired
+     * one is the same. The search runs in the worker, and the rover drives on
+     * meanwhile; one asked for while another runs follows it.
+     */
+    private async replanRoute(onlyIfChanged = false): Promise<void> {
+        const goal = this.waypoints[this.currentLeg + 1]?.cell;
+        if (!this.rover || !this.pathfindingClient || !goal) return;
+        if (this.replanning) {
+            this.queuedReplan = { onlyIfChanged: onlyIfChanged && (this.queuedReplan?.onlyIfChanged ?? true) };
+            return;
+        }
         
-        // Set rover path if rover exists (use world-space coordinates)
-        if (this.rover) {
-            this.rover.setPath(worldPath);
+        // The first replan of a leg searches in full; later ones repair that search
+        const legs = this.missionLegs;
+        const leg = this.currentLeg;
+        this.replanning = true;
+        let result: ReplanResult | null = null;
+        try {
+            result = await this.pathfindingClient.replan(this.getRoverCell(), goal);
+        } catch (error) {
+            if (!(error instanceof DOMException && error.name === 'AbortError')) {
+                this.logEvent(`Replan failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
         }
+        this.replanning = false;
+        const queued = this.queuedReplan;
+        this.queuedReplan = null;
+        // The route moved on to another leg or was cleared while the search ran
+        if (this.missionLegs !== legs || this.currentLeg !== leg || !this.rover) return;
+        
+        if (result) this.applyReplan(result, onlyIfChanged);
+        // What was sensed meanwhile still needs a repair, even when this one failed
+        if (queued && this.rover.isMoving()) this.replanRoute(queued.onlyIfChanged);
+    }
+    
+    /**
+     * Rover's cell on the height grid
+     */
+    private getRoverCell(): Point {
+        if (!this.rover || !this.terrainMesh) return { x: 0, y: 0 };
+        const { width, height } = this.terrainMesh.getHeightData();
+        const { x, z } = this.rover.getState().position;
+        const coords = this.terrainMesh.worldToHeightCoords(x, z);
+        return {
+            x: Math.max(0, Math.min(width - 1, Math.round(coords.x))),
+            y: Math.max(0, Math.min(height - 1, Math.round(coords.y)))
+        };
+    }
+    
+    /**
+     * Send the rover along a repaired route, from the point of it nearest to
+     * where the rover got to while the search ran
+     */
+    private applyReplan(result: ReplanResult, onlyIfChanged: boolean): void {
+        if (!this.rover || !this.pathfindingEngine) return;
+        if (result.path.length < 2) {
+            this.rover.stopMovement();
+            this.animateRoverBtn.disabled = false;
+            this.logEvent(`Replan #${++this.replanCount}: no way to the goal, rover halted`);
+            return;
+        }
+        
+        const roverCell = this.getRoverCell();
+        let nearest = 0;
+        result.path.forEach((cell, i) => {
+            const from = result.path[nearest];
+            if (Math.hypot(cell.x - roverCell.x, cell.y - roverCell.y) < Math.hypot(from.x - roverCell.x, from.y - roverCell.y)) nearest = i;
+        });
+        const path = result.path.slice(Math.min(nearest, result.path.length - 2));
+        const worldPath = this.toWorldPath(path);
+        if (onlyIfChanged && this.isRouteAhead(worldPath)) return;
+        this.replanCount++;
+        const stats = this.pathfindingEngine.getPathStats(path);
+        this.missionLegs[this.currentLeg] = { path, stats };
+        this.visualizeMission(this.currentLeg);
+        this.rover.reroute(worldPath);
+        this.showPredictedStats(this.getMissionStats(this.currentLeg));
+        this.renderLegStats();
+        this.logEvent(`Replan #${this.replanCount} (D* Lite): ${result.nodesExpanded} cells expanded in ${result.executionTime.toFixed(1)}ms, ${stats.distance.toFixed(0)} m to go on this leg`);
     }
     
     /**
-     * Animate rover along the path
+     * Whether a route from the rover's cell (in world coordinates) is the one
+     * it is already driving. The rover's own cell may be its next waypoint or
+     * the one it just left.
+     */
+    private isRouteAhead(route: Point[]): boolean {
+        if (!this.rover) return false;
+        const ahead = this.rover.getPath().slice(this.rover.getState().currentPathIndex + 1);
+        const next = route.slice(1);
+        const offset = ahead.length - next.length;
+        if (offset < 0 || offset > 1) return false;
+        return next.every((point, i) => Math.abs(point.x - ahead[i + offset].x) < 1e-6 && Math.abs(point.y - ahead[i + offset].y) < 1e-6);
+    }
+    
+    /**
+     * Add a timestamped entry to the mission log and show it as the status
+     */
+    private logEvent(message: string): void {
+        this.updateStatus(message);
+        const log = document.getElementById('mission-log');
+        if (!log) return;
+        
+        const seconds = this.rover?.getMissionTime() ?? 0;
+        const stamp = `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+        const entry = document.createElement('li');
+        entry.textContent = `[${stamp}] ${message}`;
+        if (log.firstElementChild?.classList.contains('text-slate-500')) log.replaceChildren();
+        log.prepend(entry);
+        while (log.children.length > MISSION_LOG_LIMIT) log.lastElementChild?.remove();
+    }
+    
+    /**
+     * Send the rover off on the first leg; later legs follow as it arrives
      */
     private animateRover(): void {
-        if (!this.rover || this.rover.getPath().length === 0) return;
+        if (!this.rover || this.missionLegs.length === 0) return;
         
+        this.pathfindingClient?.endReplan();
+        this.replanCount = 0;
+        this.currentLeg = 0;
+        this.departurePending = false;
+        this.rover.setPath(this.toWorldPath(this.missionLegs[0].path));
         this.rover.startMovement();
-        this.updateStatus('Rover is moving along the path!');
+        this.showPredictedStats(this.getMissionStats());
+        this.renderLegStats();
+        this.updateStatus(this.missionLegs.length > 1 ? `Rover is driving leg 1 of ${this.missionLegs.length}!` : 'Rover is moving along the path!');
         this.animateRoverBtn.disabled = true;
         
         // Start animation loop if not already running
@@ -570,44 +1897,266 @@ class PlanetaryRoverSimulator {
     private toggleSlopeMap(): void {
         if (!this.terrainMesh || !this.pathfindingEngine) return;
         
-        this.isSlopeMapVisible = !this.isSlopeMapVisible;
-        
-        if (this.isSlopeMapVisible) {
-            this.terrainMesh.updateMaterialOptions({ colorScheme: 'slope' });
+        if (this.colorSchemeSelect.value !== 'slope') {
+            this.setColorScheme('slope');
             this.updateStatus('Slope map enabled - Green: flat, Red: steep');
-            const legend = document.getElementById('slope-legend');
-            if (legend) legend.style.display = 'block';
         } else {
-            this.terrainMesh.updateMaterialOptions({ colorScheme: 'mars' });
-            this.updateStatus('Slope map disabled - Mars terrain colors restored');
-            const legend = document.getElementById('slope-legend');
-            if (legend) legend.style.display = 'none';
+            this.setColorScheme(this.baseColorScheme);
+            this.updateStatus('Slope map disabled - terrain colors restored');
         }
     }
     
     /**
-     * Clear current path
+     * Switch terrain coloring; only shader uniforms change, so this is instant
      */
-    private clearPath(): void {
-        if (this.pathLine) {
-            this.scene.remove(this.pathLine);
-            this.pathLine.geometry.dispose();
-            (this.pathLine.material as THREE.Material).dispose();
-            this.pathLine = null;
+    private setColorScheme(scheme: TerrainColorScheme): void {
+        if (scheme !== 'slope') this.baseColorScheme = scheme;
+        this.colorSchemeSelect.value = scheme;
+        if (scheme === 'overlay' && this.hazardLayerStale) this.updateHazardOverlay();
+        this.terrainMesh?.updateMaterialOptions({ colorScheme: scheme });
+        this.updateLegend();
+    }
+    
+    /**
+     * Build the drive hazard map for the current terrain and rover, hand it to
+     * the planner and show it as the terrain overlay layer
+     */
+    private updateTraversability(): void {
+        if (!this.rover || !this.terrainMesh || !this.pathfindingEngine) return;
+        
+        const rover = this.rover.getOptions();
+        const map = Traversability.compute(this.pathfindingEngine.getHeightData(), {
+            footprintRadius: rover.size / 2,
+            maxSlope: rover.maxSlope,
+            maxStep: rover.maxStep,
+            groundClearance: rover.groundClearance
+        });
+        this.updatePlannerOptions({
+            maxSlope: rover.maxSlope,
+            maxClimb: rover.maxClimb,
+            maxDescent: rover.maxDescent,
+            maxCrossSlope: rover.maxCrossSlope,
+            traversability: map,
+            roverRadius: rover.size / 2,
+            energyEfficiency: rover.energyEfficiency,
+            speed: rover.speed
+        });
+        this.updateHazardOverlay();
+    }
+    
+    /**
+     * Show the planner's hazard map as the terrain overlay layer. With a region,
+     * only its cells are rewritten; while another color scheme is shown the
+     * layer is left until the overlay is picked again.
+     */
+    private updateHazardOverlay(region?: CellRegion): void {
+        const map = this.pathfindingEngine?.getOptions().traversability;
+        if (!this.rover || !this.terrainMesh || !this.pathfindingEngine || !map) return;
+        if (this.colorSchemeSelect.value !== 'overlay') {
+            this.hazardLayerStale = true;
+            return;
         }
         
+        // A new grid, or changes made while hidden, need the whole layer
+        if (this.hazardLayer?.length !== map.hazard.length) {
+            this.hazardLayer = new Float32Array(map.hazard.length);
+            region = undefined;
+        }
+        if (this.hazardLayerStale) region = undefined;
+        this.hazardLayerStale = false;
+        
+        // Blocked cells (including the margin around rocks) get the top of the ramp;
+        // drivable ones stay just below it
+        const layer = this.hazardLayer;
+        const blocked = this.pathfindingEngine.getBlockedMask();
+        const { x, y, width, height } = region ?? { x: 0, y: 0, width: map.width, height: map.height };
+        for (let row = y; row < y + height; row++) {
+            for (let i = row * map.width + x; i < row * map.width + x + width; i++) {
+                layer[i] = blocked[i] ? 1 : Math.min(map.hazard[i], 0.95);
+            }
+        }
+        this.terrainMesh.setOverlay(layer, {
+            title: `Drive Hazard, ${this.rover.getOptions().type} rover`,
+            units: '',
+            min: 0,
+            max: 1,
+            ramp: ColorRamps.hazard
+        });
+        this.updateLegend();
+    }
+    
+    /**
+     * Planner algorithm, objective, terrain penalties and search budgets
+     */
+    private getPlannerOptions(): Pick<
+        PathfindingOptions,
+        'algorithm' | 'objective' | 'roughnessWeight' | 'curvatureWeight' | 'planCurvatureWeight' | 'aspectWeight' | 'preferredAspect' | 'nodeBudget' | 'timeBudget'
+    > {
+        return {
+            algorithm: this.plannerAlgorithmSelect.value as PlannerAlgorithm,
+            objective: this.plannerObjectiveSelect.value as PlannerObjective,
+            roughnessWeight: parseFloat(this.roughnessWeightInput.value) || 0,
+            curvatureWeight: parseFloat(this.curvatureWeightInput.value) || 0,
+            planCurvatureWeight: parseFloat(this.planCurvatureWeightInput.value) || 0,
+            aspectWeight: parseFloat(this.aspectWeightInput.value) || 0,
+            preferredAspect: parseFloat(this.preferredAspectSelect.value) || 0,
+            nodeBudget: Math.max(0, parseInt(this.nodeBudgetInput.value, 10) || 0),
+            timeBudget: Math.max(0, parseFloat(this.timeBudgetInput.value) || 0) * 1000
+        };
+    }
+    
+    /**
+     * Apply planner options to the local engine and the worker alike
+     */
+    private updatePlannerOptions(options: Partial<PathfindingOptions>): void {
+        this.pathfindingEngine?.updateOptions(options);
+        this.pathfindingClient?.updateOptions(options);
+    }
+    
+    /**
+     * Apply the contour and grid controls to the terrain
+     */
+    private updateMapOverlays(): void {
+        if (!this.terrainMesh) return;
+        this.terrainMesh.updateMaterialOptions(this.getMapOverlayOptions(this.terrainMesh.getHeightData()));
+    }
+    
+    /**
+     * Contour interval and grid spacing in metres (0 = hidden); empty inputs
+     * pick a round value giving about 20 contours and 8 grid lines
+     */
+    private getMapOverlayOptions(heightData: HeightData): { contourInterval: number; gridSpacing: number } {
+        const relief = (heightData.maxHeight - heightData.minHeight) * heightData.verticalUnits;
+        const extent = Math.max(heightData.width, heightData.height) * heightData.cellSize;
+        const contourInterval = parseFloat(this.contourIntervalInput.value);
+        const gridSpacing = parseFloat(this.gridSpacingInput.value);
+        
+        return {
+            contourInterval: !this.showContoursInput.checked ? 0
+                : contourInterval > 0 ? contourInterval : this.getRoundStep(relief / 20),
+            gridSpacing: !this.showGridInput.checked ? 0
+                : gridSpacing > 0 ? gridSpacing : this.getRoundStep(extent / 8)
+        };
+    }
+    
+    /**
+     * Smallest 1, 2 or 5 × 10^n at least as large as value
+     */
+    private getRoundStep(value: number): number {
+        if (!(value > 0)) return 1;
+        const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+        for (const factor of [1, 2, 5]) {
+            if (factor * magnitude >= value) return factor * magnitude;
+        }
+        return 10 * magnitude;
+    }
+    
+    /**
+     * Redraw the map legend from the ramp and range the terrain shader uses
+     */
+    private updateLegend(): void {
+        const container = document.getElementById('terrain-legend');
+        const title = document.getElementById('legend-title');
+        const gradient = document.getElementById('legend-gradient');
+        const labels = document.getElementById('legend-labels');
+        if (!container || !title || !gradient || !labels || !this.terrainMesh) return;
+        
+        const legend = this.terrainMesh.getLegend();
+        title.textContent = legend.units ? `${legend.title} (${legend.units})` : legend.title;
+        gradient.style.background = ColorRamps.toCssGradient(legend.ramp);
+        
+        const range = legend.max - legend.min;
+        const digits = range > 0 ? Math.min(3, Math.max(0, 1 - Math.floor(Math.log10(range)))) : 0;
+        const ticks = [legend.min, (legend.min + legend.max) / 2, legend.max];
+        labels.replaceChildren(...ticks.map((value) => {
+            const span = document.createElement('span');
+            span.textContent = `${value.toFixed(digits)}${legend.units === 'm' ? '' : legend.units}`;
+            return span;
+        }));
+        container.style.display = 'block';
+    }
+    
+    /**
+     * Clear the waypoints and the route
+     */
+    private clearPath(): void {
+        this.removeWaypoints();
+        this.clearRoute();
+        this.updateStatus('Path cleared. Click to set a new start and waypoints.');
+    }
+    
+    /**
+     * Drop the planned route and stop the rover, keeping the waypoints
+     */
+    private clearRoute(): void {
+        this.planningController?.abort();
+        this.pathfindingClient?.endReplan();
+        this.missionLegs = [];
+        this.currentLeg = 0;
+        this.departurePending = false;
+        this.removePathLines();
+        this.clearComparisons();
+        
         if (this.rover) {
             this.rover.stopMovement();
             this.rover.setPath([]);
         }
         
-        this.startPoint = null;
-        this.endPoint = null;
-        this.clearMarkers();
-        
-        this.findPathBtn.disabled = true;
+        this.showPredictedStats(null);
+        this.renderLegStats();
         this.animateRoverBtn.disabled = true;
-        this.updateStatus('Path cleared. Click to set new start and end points.');
+        this.updatePlanningButtons();
+    }
+    
+    /**
+     * The rover stopped driving or finished working at a waypoint: start the
+     * next leg, hold at the waypoint it arrived at, or end the mission
+     */
+    private onRoverStopped(): void {
+        if (!this.rover) return;
+        
+        if (this.departurePending) {
+            this.departurePending = false;
+            this.driveLeg(this.currentLeg);
+            return;
+        }
+        
+        // Halted short of the waypoint (no way through); Animate starts over
+        const { currentPathIndex } = this.rover.getState();
+        if (currentPathIndex < this.rover.getPath().length - 1) {
+            this.animateRoverBtn.disabled = false;
+            return;
+        }
+        
+        this.currentLeg++;
+        const waypoint = this.waypoints[this.currentLeg];
+        const name = waypoint?.label ? ` (${waypoint.label})` : '';
+        if (this.currentLeg >= this.missionLegs.length) {
+            this.animateRoverBtn.disabled = false;
+            if (this.missionLegs.length > 1) this.logEvent(`Arrived at the destination${name}`);
+            this.updateStatus('Rover reached destination!');
+        } else if (waypoint.dwell > 0) {
+            this.rover.hold(waypoint.dwell);
+            this.departurePending = true;
+            this.logEvent(`Arrived at waypoint ${this.currentLeg}${name}; working for ${this.formatDuration(waypoint.dwell)}`);
+        } else {
+            this.logEvent(`Arrived at waypoint ${this.currentLeg}${name}`);
+            this.driveLeg(this.currentLeg);
+        }
+        this.renderLegStats();
+    }
+    
+    /**
+     * Set off on a leg from where the rover stands, mission totals intact
+     */
+    private driveLeg(leg: number): void {
+        if (!this.rover) return;
+        this.pathfindingClient?.endReplan();
+        this.visualizeMission(leg);
+        this.rover.reroute(this.toWorldPath(this.missionLegs[leg].path));
+        this.showPredictedStats(this.getMissionStats(leg));
+        this.renderLegStats();
+        this.updateStatus(`Rover is driving leg ${leg + 1} of ${this.missionLegs.length}`);
     }
     
     /**
@@ -660,16 +2209,17 @@ class PlanetaryRoverSimulator {
             // Handle manual movement
             this.updateManualMovement(delta);
             
-            if (this.rover.isMoving()) {
+            if (this.rover.isMoving() || this.rover.isHolding()) {
                 this.rover.update(delta);
+                this.senseHazards();
+                this.senseTerrain();
                 
-                // Check if rover reached destination
-                if (!this.rover.isMoving()) {
-                    this.animateRoverBtn.disabled = false;
-                    this.updateStatus('Rover reached destination!');
-                }
+                if (!this.rover.isMoving() && !this.rover.isHolding()) this.onRoverStopped();
             }
             
+            // Driving by hand maps the ground too
+            if (this.manualModeCheckbox?.checked) this.senseTerrain();
+            
             // Update dashboard
             this.updateDashboard();
             
@@ -679,6 +2229,9 @@ class PlanetaryRoverSimulator {
             }
         }
         
+        // Refine terrain tiles for the main view
+        this.terrainMesh?.update(this.camera);
+        
         if (this.composer) {
             this.composer.render(delta);
         } else {
@@ -717,6 +2270,40 @@ class PlanetaryRoverSimulator {
         }, 5000);
     }
     
+    /**
+     * Vertical exaggeration from its slider, 1 to 10
+     */
+    private getVerticalExaggeration(): number {
+        return this.validateTerrainParameter(
+            this.verticalExaggerationInput ? parseFloat(this.verticalExaggerationInput.value) : 1,
+            1, 10, 'vertical exaggeration'
+        );
+    }
+    
+    /**
+     * Redraw the terrain at the slider's exaggeration. Heights in metres do not
+     * change, so nothing is reloaded or re-analysed; the rover, markers, rocks
+     * and route tubes are set back onto the redrawn surface.
+     */
+    private setVerticalExaggeration(): void {
+        if (!this.terrainMesh) return;
+        this.terrainMesh.updateMaterialOptions({ heightScale: this.getVerticalExaggeration() });
+        
+        const surface = (object: THREE.Object3D) => this.terrainMesh!.getHeightAtWorldCoords(object.position.x, object.position.z);
+        for (const waypoint of this.waypoints) waypoint.marker.position.y = surface(waypoint.marker) + 2;
+        const rockLift = HIDDEN_ROCK_RADIUS * this.terrainMesh.getWorldUnitsPerMetre() * 0.4;
+        for (const rock of this.hiddenRocks) rock.mesh.position.y = surface(rock.mesh) + rockLift;
+        if (this.rover) {
+            const { x, z } = this.rover.getState().position;
+            this.rover.setPosition(x, z);
+        }
+        if (this.drawnRoutes) this.visualizePath(this.drawnRoutes.paths, this.drawnRoutes.selected, false);
+        
+        if (this.getTerrainSource() !== 'upload') {
+            history.replaceState(null, '', `#${this.getTerrainDescription()}`);
+        }
+    }
+    
     /**
      * Validate terrain parameter and clamp to valid range
      */
@@ -749,6 +2336,9 @@ class PlanetaryRoverSimulator {
      */
     public start(): void {
         this.setupEventListeners();
+        if (location.hash.length > 1) {
+            this.applyTerrainDescription(location.hash.slice(1));
+        }
         this.loadTerrain();
         this.animate();
     }
@@ -771,13 +2361,14 @@ class PlanetaryRoverSimulator {
             this.rover = null;
         }
         
-        if (this.pathLine) {
-            this.pathLine.geometry.dispose();
-            (this.pathLine.material as THREE.Material).dispose();
-            this.pathLine = null;
-        }
+        this.removePathLines();
+        this.removeHiddenRocks();
         
-        this.clearMarkers();
+        this.removeWaypoints();
+        
+        this.planningController?.abort();
+        this.pathfindingClient?.dispose();
+        this.pathfindingClient = null;
         
         this.renderer.dispose();
     }
@@ -804,9 +2395,7 @@ class PlanetaryRoverSimulator {
      */
     private fitCameraToTerrain(): void {
         if (!this.terrainMesh || !this.controls) return;
-        const mesh = this.terrainMesh.getMesh();
-        mesh.geometry.computeBoundingSphere();
-        const bs = mesh.geometry.boundingSphere!;
+        const bs = this.terrainMesh.getBoundingSphere();
         this.controls.target.copy(bs.center);
         const dist = bs.radius * 2.2;
         const dir = new THREE.Vector3(1, 0.8, 1).normalize();
@@ -826,30 +2415,41 @@ class PlanetaryRoverSimulator {
         switch (preset) {
             case 'mars':
                 // Mars-like plains with moderate features
-                if (this.mountainScaleInput) this.mountainScaleInput.value = '15';
+                if (this.mountainScaleInput) this.mountainScaleInput.value = '4';
                 if (this.noiseScaleInput) this.noiseScaleInput.value = '0.08';
                 if (this.octavesInput) this.octavesInput.value = '4';
+                // Cratered plains with scattered rocks and ripples in the lows
+                this.setFeatureControls(400, 15, 0.8);
+                this.setErosionControls(10, 0, 0.4);
                 break;
                 
             case 'mountains':
                 // Tall rocky mountains with sharp features
-                if (this.mountainScaleInput) this.mountainScaleInput.value = '60';
+                if (this.mountainScaleInput) this.mountainScaleInput.value = '16';
                 if (this.noiseScaleInput) this.noiseScaleInput.value = '0.03';
                 if (this.octavesInput) this.octavesInput.value = '7';
+                this.setFeatureControls(0, 30, 0);
+                this.setErosionControls(20, 60, 0.5);
                 break;
                 
             case 'hills':
                 // Gentle rolling hills
-                if (this.mountainScaleInput) this.mountainScaleInput.value = '25';
+                if (this.mountainScaleInput) this.mountainScaleInput.value = '5';
                 if (this.noiseScaleInput) this.noiseScaleInput.value = '0.12';
                 if (this.octavesInput) this.octavesInput.value = '3';
+                this.setFeatureControls(0, 3, 0);
+                this.setErosionControls(30, 30, 0.5);
                 break;
                 
             case 'canyon':
                 // Deep canyon-like features
-                if (this.mountainScaleInput) this.mountainScaleInput.value = '45';
+                if (this.mountainScaleInput) this.mountainScaleInput.value = '10';
                 if (this.noiseScaleInput) this.noiseScaleInput.value = '0.06';
                 if (this.octavesInput) this.octavesInput.value = '6';
+                // Talus boulders below the walls and dunes along the canyon floor
+                this.setFeatureControls(60, 60, 1.5);
+                // Rain carves channels, slopes slump to talus
+                this.setErosionControls(40, 100, 0.7);
                 break;
                 
             case 'custom':
@@ -860,6 +2460,24 @@ class PlanetaryRoverSimulator {
         // Regenerate terrain with new preset
         this.loadTerrain();
     }
+    
+    /**
+     * Set the surface feature sliders for a preset
+     */
+    private setFeatureControls(craterDensity: number, boulderDensity: number, duneHeight: number): void {
+        if (this.craterDensityInput) this.craterDensityInput.value = String(craterDensity);
+        if (this.boulderDensityInput) this.boulderDensityInput.value = String(boulderDensity);
+        if (this.duneHeightInput) this.duneHeightInput.value = String(duneHeight);
+    }
+    
+    /**
+     * Set the erosion sliders for a preset
+     */
+    private setErosionControls(thermalPasses: number, rainThousands: number, strength: number): void {
+        if (this.thermalErosionInput) this.thermalErosionInput.value = String(thermalPasses);
+        if (this.hydraulicErosionInput) this.hydraulicErosionInput.value = String(rainThousands);
+        if (this.erosionStrengthInput) this.erosionStrengthInput.value = String(strength);
+    }
 
     /**
      * Update mission dashboard
@@ -875,7 +2493,7 @@ class PlanetaryRoverSimulator {
         this.updateElement('mission-time', timeStr);
 
         // Rover status
-        const status = this.rover.isMoving() ? 'Moving' : 'Standby';
+        const status = this.rover.isMoving() ? 'Moving' : this.rover.isHolding() ? 'Working' : 'Standby';
         this.updateElement('rover-status', status);
 
         // Energy system
@@ -892,9 +2510,12 @@ class PlanetaryRoverSimulator {
         this.updateElement('distance-traveled', `${this.rover.getDistanceTraveled().toFixed(1)}m`);
         this.updateElement('current-speed', `${this.rover.getCurrentSpeed().toFixed(1)} m/s`);
         
-        // Current elevation
-        const elevation = this.rover.getState().position.y;
-        this.updateElement('current-elevation', `${elevation.toFixed(1)}m`);
+        // Current elevation and true ground slope
+        this.updateElement('current-elevation', `${this.rover.getElevation().toFixed(1)}m`);
+        if (this.terrainMesh) {
+            const { x, z } = this.rover.getState().position;
+            this.updateElement('current-slope', `${this.terrainMesh.getSlopeAtWorldCoords(x, z).toFixed(1)}°`);
+        }
 
         // Path analysis
         const efficiency = this.rover.getPathEfficiency();
@@ -902,10 +2523,10 @@ class PlanetaryRoverSimulator {
         const efficiencyFill = document.getElementById('efficiency-fill');
         if (efficiencyFill) efficiencyFill.style.width = `${efficiency}%`;
 
-        // Waypoints
-        const path = this.rover.getPath();
-        const currentIndex = this.rover.getState().currentPathIndex;
-        this.updateElement('waypoints-remaining', `${currentIndex}/${path.length}`);
+        // Waypoints reached of the mission's
+        this.updateElement('waypoints-remaining', this.missionLegs.length > 0
+            ? `${this.currentLeg}/${this.missionLegs.length}`
+            : `0/${Math.max(0, this.waypoints.length - 1)}`);
     }
 
     /**
@@ -963,6 +2584,7 @@ class PlanetaryRoverSimulator {
         );
         this.roverCamera.lookAt(roverPos.clone().add(lookDirection.multiplyScalar(10)));
 
+        this.terrainMesh?.update(this.roverCamera);
         this.roverCameraRenderer.render(this.scene, this.roverCamera);
     }
 
@@ -1085,6 +2707,7 @@ class PlanetaryRoverSimulator {
      * Handle keyboard input
      */
     private onKeyDown(event: KeyboardEvent): void {
+        if (this.isTyping(event)) return;
         const key = event.key.toLowerCase();
         this.pressedKeys.add(key);
 
@@ -1124,9 +2747,48 @@ class PlanetaryRoverSimulator {
      * Handle key up events
      */
     private onKeyUp(event: KeyboardEvent): void {
+        if (this.isTyping(event)) return;
         const key = event.key.toLowerCase();
         this.pressedKeys.delete(key);
     }
+    
+    /**
+     * Whether a key event belongs to a form field (e.g. a waypoint's task
+     * label) rather than the shortcuts and rover controls
+     */
+    private isTyping(event: KeyboardEvent): boolean {
+        const target = event.target;
+        return target instanceof HTMLInputElement
+            || target instanceof HTMLTextAreaElement
+            || target instanceof HTMLSelectElement
+            || (target instanceof HTMLElement && target.isContentEditable);
+    }
+
+    /**
+     * Show what the planned path should cost before the rover departs; a path
+     * needing more than the battery holds is flagged
+     */
+    private showPredictedStats(stats: PathStats | null): void {
+        const element = document.getElementById('predicted-energy');
+        if (!element) return;
+        if (!stats) {
+            element.textContent = '--';
+            element.className = 'text-white font-mono';
+            return;
+        }
+        const available = this.rover?.getState().energy ?? Infinity;
+        element.textContent = `${stats.energy.toFixed(0)} Wh · ${this.formatDuration(stats.duration)}`;
+        element.className = stats.energy > available ? 'text-red-400 font-mono' : 'text-white font-mono';
+    }
+
+    /**
+     * Seconds as "1h 05m" or "4m 30s"
+     */
+    private formatDuration(seconds: number): string {
+        const minutes = Math.round(seconds / 60);
+        if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${(minutes % 60).toString().padStart(2, '0')}m`;
+        return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60).toString().padStart(2, '0')}s`;
+    }
 
     /**
      * Helper method to update DOM elements
@@ -1224,4 +2886,15 @@ document.addEventListener('DOMContentLoaded', () => {
     window.addEventListener('beforeunload', () => {
         simulator.dispose();
     });
+    
+    // Open-list benchmark from the developer console, e.g. await runPathfindingBenchmark([256, 512]);
+    // it runs in a worker, so the page stays responsive
+    Object.assign(window, {
+        runPathfindingBenchmark: async (sizes?: number[]) => {
+            const { PathfindingBenchmark } = await import('./lib/pathfindingBenchmark.js');
+            const rows = await PathfindingBenchmark.runInWorker({ sizes }, (row) => console.log(`Benchmarked ${row.size}² in the worker`));
+            console.log(PathfindingBenchmark.format(rows));
+            return rows;
+        }
+    });
 });